@@ -13,177 +13,694 @@ import {
   Upload, 
   Camera, 
   Package, 
-  DollarSign, 
-  Tag, 
-  Info, 
   X, 
   Loader2,
   AlertCircle,
-  ChevronRight,
-  Search
+  Search,
+  Download,
+  Database,
+  Images,
+  Undo2,
+  Wand2,
+  CloudOff,
+  Redo2,
+  Tags,
+  BarChart3,
+  QrCode,
+  Clock,
+  Layers,
+  Command as CommandIcon,
+  Settings as SettingsIcon
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Category, Collection, InventoryItem, InventoryQuery, ItemStatus, SavedView, Settings } from './types';
+import { analyzeImages } from './services/analysisApi';
+import * as inventoryApi from './services/inventoryApi';
+import * as settingsApi from './services/settingsApi';
+import * as viewsApi from './services/viewsApi';
+import * as categoriesApi from './services/categoriesApi';
+import * as collectionsApi from './services/collectionsApi';
+import * as offlineStore from './services/offlineStore';
+import { useIntakeQueue } from './hooks/useIntakeQueue';
+import { useSelection } from './hooks/useSelection';
+import { Command, useUndoHistory } from './hooks/useUndoHistory';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useDuplicateMatches } from './hooks/useDuplicateMatches';
+import { useShortcuts } from './hooks/useShortcuts';
+import { isDialogOpen } from './hooks/useDialog';
+import { isCameraSupported } from './hooks/useCameraStream';
+import { collectDroppedFiles, isImageFile } from './lib/files';
+import { generateId } from './lib/id';
+import { adjustPrice, applyAnalysis, createDraftItem, createItemFromAnalysis } from './lib/items';
+import { mergeIntoItem } from './lib/duplicates';
+import { DEFAULT_COLLECTION_ID, collectionSettings, placeInCollection } from './lib/collections';
+import { isPriceStale, priceAgeDays } from './lib/priceHistory';
+import { DEFAULT_SETTINGS, formatMoney } from './lib/currency';
+import { coverThumbnail } from './lib/photos';
+import { DEFAULT_QUERY, applyQuery } from './lib/search';
+import {
+  STATUS_LABELS,
+  STATUS_STYLES,
+  STATUS_TRANSITIONS,
+  formatPercent,
+  isSoldStatus,
+  itemProfit,
+  summarizeInventory,
+  withStatus
+} from './lib/lifecycle';
+import IntakeQueuePanel from './components/IntakeQueuePanel';
+import ReviewPanel from './components/ReviewPanel';
+import EditItemModal from './components/EditItemModal';
+import ExportModal from './components/ExportModal';
+import DataModal from './components/DataModal';
+import CameraCapture from './components/CameraCapture';
+import SettingsModal from './components/SettingsModal';
+import InventoryFilters from './components/InventoryFilters';
+import SortableHeader from './components/SortableHeader';
+import BulkActionBar from './components/BulkActionBar';
+import TrashModal from './components/TrashModal';
+import DescriptionModal from './components/DescriptionModal';
+import CategoryManagerModal from './components/CategoryManagerModal';
+import ReportsDashboard from './components/ReportsDashboard';
+import LabelSheetModal from './components/LabelSheetModal';
+import ItemLookupModal from './components/ItemLookupModal';
+import CollectionsModal from './components/CollectionsModal';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
 
-// --- Types ---
+// --- Constants ---
 
-interface InventoryItem {
-  id: string;
-  item_name: string;
-  category: string;
-  estimated_value: number;
-  currency: string;
-  condition_notes: string;
-  suggested_description: string;
-  thumbnail: string; // base64
-  createdAt: number;
-}
+// Where inventory lived before the server existed; imported once, then cleared.
+const LEGACY_STORAGE_KEY = 'resale_ready_inventory';
 
-interface AIResponse {
-  item_name: string;
-  category: string;
-  estimated_value: number;
-  currency: string;
-  condition_notes: string;
-  suggested_description: string;
-}
+// The collection being worked in is a per-device choice, so it isn't kept on the server
+const ACTIVE_COLLECTION_KEY = 'resale_ready_collection';
 
-// --- Constants ---
+// --- Helpers ---
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// The copy saved on this device by the last successful load, or null if there isn't one
+const loadOfflineSnapshot = async () => {
+  const [items, savedSettings, views, categories, collections] = await Promise.all([
+    offlineStore.loadSnapshot('inventory'),
+    offlineStore.loadSnapshot('settings'),
+    offlineStore.loadSnapshot('views'),
+    offlineStore.loadSnapshot('categories'),
+    offlineStore.loadSnapshot('collections')
+  ]);
+  if (!items) return null;
+  // A copy saved by an earlier version lacks newer fields; fill them with their defaults
+  return {
+    items: items.map(item => createDraftItem(item)),
+    settings: { ...DEFAULT_SETTINGS, ...savedSettings },
+    views: views ?? [],
+    categories: categories ?? [],
+    collections: collections ?? []
+  };
+};
+
+// Resolves to the number of items moved, or null if the saved data is unreadable
+const importLegacyInventory = async (): Promise<number | null> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let items: InventoryItem[];
+  try {
+    items = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse inventory", e);
+    return null;
+  }
 
-const STORAGE_KEY = 'resale_ready_inventory';
+  const { imported } = await inventoryApi.importItems(items);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return imported;
+};
 
 // --- Components ---
 
+interface Toast {
+  id: string;
+  message: string;
+  type: 'success' | 'error';
+  action?: { label: string; onClick: () => void };
+}
+
 export default function App() {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [reviewItem, setReviewItem] = useState<(AIResponse & { thumbnail: string }) | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
-  const [toasts, setToasts] = useState<{ id: string; message: string; type: 'success' | 'error' }[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [rewritingItem, setRewritingItem] = useState<InventoryItem | null>(null);
+  // The items being exported: whatever is shown, or just the selection
+  const [exportItems, setExportItems] = useState<InventoryItem[] | null>(null);
+  const [isDataOpen, setIsDataOpen] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [labelItems, setLabelItems] = useState<InventoryItem[] | null>(null);
+  const [isLookupOpen, setIsLookupOpen] = useState(false);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [query, setQuery] = useState<InventoryQuery>(DEFAULT_QUERY);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [taxonomy, setTaxonomy] = useState<Category[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState(() => localStorage.getItem(ACTIVE_COLLECTION_KEY) ?? DEFAULT_COLLECTION_ID);
+  const [isCollectionsOpen, setIsCollectionsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // The row the list shortcuts act on, moved with J/K
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const multiAngleInputRef = useRef<HTMLInputElement>(null);
+  const dragDepth = useRef(0);
+  // A deleted or unknown collection falls back to the default one
+  const activeCollection: Collection | undefined =
+    collections.find(collection => collection.id === activeCollectionId) ?? collections.find(collection => collection.id === DEFAULT_COLLECTION_ID);
+  // New photos are priced in the currency of the collection they'll join
+  const intake = useIntakeQueue((images: string[]) => analyzeImages(images, activeCollection?.currency));
+  // New items join the active collection, with its cost-basis rule applied
+  const intoActiveCollection = (item: InventoryItem) => activeCollection ? placeInCollection(item, activeCollection) : item;
+  const history = useUndoHistory();
+  const isOnline = useOnlineStatus();
+  // Set while showing the on-device copy because the server couldn't be reached
+  const [isShowingSnapshot, setIsShowingSnapshot] = useState(false);
 
-  // Load from localStorage
+  // Load from the server, bringing over anything still in localStorage first
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
+    const load = async () => {
       try {
-        setInventory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse inventory", e);
+        const imported = await importLegacyInventory();
+        if (imported === null) {
+          // Leave the data where it is rather than silently starting over
+          addToast("Couldn't read the inventory saved in this browser. It has been left untouched.", "error");
+        } else if (imported > 0) {
+          addToast(`Moved ${imported} item${imported === 1 ? '' : 's'} from this browser to the server`);
+        }
+        const [items, savedSettings, views, categories, savedCollections] = await Promise.all([
+          inventoryApi.fetchInventory(),
+          settingsApi.fetchSettings(),
+          viewsApi.fetchViews(),
+          categoriesApi.fetchCategories(),
+          collectionsApi.fetchCollections()
+        ]);
+        setInventory(items);
+        setSettings(savedSettings);
+        setSavedViews(views);
+        setTaxonomy(categories);
+        setCollections(savedCollections);
+      } catch (error) {
+        console.error("Failed to load inventory", error);
+        const snapshot = await loadOfflineSnapshot().catch(() => null);
+        if (snapshot) {
+          setInventory(snapshot.items);
+          setSettings(snapshot.settings);
+          setSavedViews(snapshot.views);
+          setTaxonomy(snapshot.categories);
+          setCollections(snapshot.collections);
+          setIsShowingSnapshot(true);
+          addToast("Offline: showing the inventory saved on this device", "error");
+        } else {
+          addToast("Couldn't reach the inventory server", "error");
+        }
+      } finally {
+        setIsLoading(false);
       }
-    }
+    };
+    load();
   }, []);
 
-  // Save to localStorage
+  // Keep an on-device copy of what the server last gave us, for opening the app offline
+  useEffect(() => {
+    if (isLoading || isShowingSnapshot) return;
+    offlineStore.saveSnapshot('inventory', inventory).catch(error => console.error("Failed to save offline copy", error));
+  }, [inventory, isLoading, isShowingSnapshot]);
+
+  useEffect(() => {
+    if (isLoading || isShowingSnapshot) return;
+    offlineStore.saveSnapshot('settings', settings).catch(error => console.error("Failed to save offline copy", error));
+    offlineStore.saveSnapshot('views', savedViews).catch(error => console.error("Failed to save offline copy", error));
+    offlineStore.saveSnapshot('categories', taxonomy).catch(error => console.error("Failed to save offline copy", error));
+    offlineStore.saveSnapshot('collections', collections).catch(error => console.error("Failed to save offline copy", error));
+  }, [settings, savedViews, taxonomy, collections, isLoading, isShowingSnapshot]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_COLLECTION_KEY, activeCollectionId);
+  }, [activeCollectionId]);
+
+  // Swap the on-device copy for the real thing once the connection is back
+  useEffect(() => {
+    if (!isOnline || !isShowingSnapshot) return;
+    Promise.all([
+      inventoryApi.fetchInventory(),
+      settingsApi.fetchSettings(),
+      viewsApi.fetchViews(),
+      categoriesApi.fetchCategories(),
+      collectionsApi.fetchCollections()
+    ])
+      .then(([items, savedSettings, views, categories, savedCollections]) => {
+        setInventory(items);
+        setSettings(savedSettings);
+        setSavedViews(views);
+        setTaxonomy(categories);
+        setCollections(savedCollections);
+        setIsShowingSnapshot(false);
+      })
+      .catch(error => console.error("Still can't reach the inventory server", error));
+  }, [isOnline]);
+
+  // Open the review stack as soon as the first analysis lands
+  const readyCount = intake.readyJobs.length;
+  const previousReadyCount = useRef(0);
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(inventory));
-  }, [inventory]);
+    // ...unless the user is mid-scan; the stack opens when they leave the camera instead
+    if (previousReadyCount.current === 0 && readyCount > 0 && !editingItem && !isCameraOpen) {
+      setIsReviewOpen(true);
+    }
+    if (readyCount === 0) setIsReviewOpen(false);
+    previousReadyCount.current = readyCount;
+  }, [readyCount]);
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  const addToast = (message: string, type: 'success' | 'error' = 'success', action?: Toast['action']) => {
+    const id = generateId();
+    setToasts(prev => [...prev, { id, message, type, action }]);
+    // Leave time to reach the button on toasts that offer one
+    setTimeout(() => dismissToast(id), action ? 6000 : 3000);
+  };
+
+  // --- Undoable changes ---
+
+  const mergeItems = (saved: InventoryItem[]) => {
+    const byId = new Map(saved.map(item => [item.id, item]));
+    setInventory(prev => prev.map(item => byId.get(item.id) ?? item));
+  };
+
+  const putItems = async (items: InventoryItem[]) => mergeItems(await inventoryApi.revertItems(items));
+
+  const trashItems = async (ids: string[]) => {
+    await inventoryApi.deleteItems(ids);
+    setInventory(prev => prev.filter(item => !ids.includes(item.id)));
+  };
+
+  const restoreItems = async (ids: string[]) => {
+    const restored = await inventoryApi.restoreItems(ids);
+    setInventory(prev => [...restored, ...prev.filter(item => !ids.includes(item.id))]);
+    if (restored.length < ids.length) throw new Error("Some of these items have since been deleted for good");
+  };
+
+  const runUndo = async (command?: Command) => {
+    try {
+      const undone = await history.undo(command);
+      if (undone) addToast(`Undid: ${undone.label}`);
+    } catch (error) {
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Couldn't undo that", "error");
+    }
+  };
+
+  const runRedo = async () => {
+    try {
+      const redone = await history.redo();
+      if (redone) addToast(`Redid: ${redone.label}`);
+    } catch (error) {
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Couldn't redo that", "error");
+    }
+  };
 
-  const addToast = (message: string, type: 'success' | 'error' = 'success') => {
-    const id = Math.random().toString(36).substring(2, 9);
-    setToasts(prev => [...prev, { id, message, type }]);
-    setTimeout(() => {
-      setToasts(prev => prev.filter(t => t.id !== id));
-    }, 3000);
+  /** Records a change that has just been made and confirms it with an "Undo" toast. */
+  const recordChange = (command: Command, message: string) => {
+    history.record(command);
+    addToast(message, 'success', { label: 'Undo', onClick: () => runUndo(command) });
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const recordEdit = (label: string, before: InventoryItem[], after: InventoryItem[], message: string) =>
+    recordChange({ label, undo: () => putItems(before), redo: () => putItems(after) }, message);
+
+  const recordTrash = (label: string, ids: string[], message: string) =>
+    recordChange({ label, undo: () => restoreItems(ids), redo: () => trashItems(ids) }, message);
 
-    if (!file.type.startsWith('image/')) {
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, Ctrl/Cmd+K or ? opens the command palette;
+  // none while typing, or while a dialog is open, so nothing changes behind it
+  useShortcuts({
+    'mod+z': () => runUndo(),
+    'mod+shift+z': runRedo,
+    'mod+y': runRedo,
+    'mod+k': () => setIsPaletteOpen(true),
+    '?': () => setIsPaletteOpen(true)
+  }, () => !isDialogOpen());
+
+  const queueFiles = (files: File[], asOneItem = false) => {
+    const images = files.filter(isImageFile);
+    const skipped = files.length - images.length;
+
+    if (images.length === 0) {
       addToast("Please upload an image file", "error");
       return;
     }
 
-    setIsProcessing(true);
+    intake.enqueue(images, { asOneItem });
+    const queued = asOneItem
+      ? `1 item with ${images.length} photo${images.length === 1 ? '' : 's'} queued for analysis`
+      : `${images.length} photo${images.length === 1 ? '' : 's'} queued for analysis`;
+    addToast(queued + (skipped > 0 ? ` (${skipped} non-image file${skipped === 1 ? '' : 's'} skipped)` : ''));
+  };
+
+  const startScanning = () => {
+    if (isCameraSupported()) setIsCameraOpen(true);
+    else fileInputRef.current?.click();
+  };
+
+  const closeCamera = () => {
+    setIsCameraOpen(false);
+    if (readyCount > 0) setIsReviewOpen(true);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, asOneItem = false) => {
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    if (files.length > 0) queueFiles(files, asOneItem);
+    e.target.value = '';
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
     try {
-      const base64 = await fileToBase64(file);
-      const aiData = await processImageWithGemini(base64);
-      if (aiData) {
-        setReviewItem({ ...aiData, thumbnail: base64 });
-      }
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (files.length > 0) queueFiles(files);
     } catch (error) {
       console.error(error);
-      addToast("Failed to process image. Try again.", "error");
+      addToast("Couldn't read the dropped files", "error");
+    }
+  };
+
+  const reviewJob = intake.readyJobs[Math.min(reviewIndex, readyCount - 1)];
+  const reviewDuplicates = useDuplicateMatches(reviewJob, inventory);
+
+  // Approving, merging and adding each use up the job, so a double-click
+  // mustn't run one twice while the first is still saving
+  const isSavingReviewRef = useRef(false);
+  const [isSavingReview, setIsSavingReview] = useState(false);
+  const saveReview = async (save: () => Promise<void>) => {
+    if (isSavingReviewRef.current) return;
+    isSavingReviewRef.current = true;
+    setIsSavingReview(true);
+    try {
+      await save();
     } finally {
-      setIsProcessing(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      isSavingReviewRef.current = false;
+      setIsSavingReview(false);
     }
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = error => reject(error);
-    });
+  const approveItem = () => saveReview(async () => {
+    if (!reviewJob?.result) return;
+    if (reviewJob.itemId) {
+      const existing = inventory.find(item => item.id === reviewJob.itemId);
+      if (!existing) {
+        addToast("That item has been deleted since it was sent for analysis", "error");
+        intake.removeJob(reviewJob.id);
+        return;
+      }
+      if (await saveItem(applyAnalysis(existing, reviewJob.result, reviewJob.photos), "Item updated from the new analysis")) {
+        intake.removeJob(reviewJob.id);
+      }
+      return;
+    }
+    const newItem = intoActiveCollection(createItemFromAnalysis(reviewJob.result, reviewJob.photos));
+    try {
+      const saved = await inventoryApi.createItem(newItem);
+      setInventory(prev => [saved, ...prev]);
+      intake.removeJob(reviewJob.id);
+      recordChange(
+        { label: `Add "${saved.item_name}"`, undo: () => trashItems([saved.id]), redo: () => restoreItems([saved.id]) },
+        "Item added to inventory!"
+      );
+    } catch (error) {
+      console.error(error);
+      addToast("Failed to save item. Try again.", "error");
+    }
+  });
+
+  // A second scan of something already saved: keep one item, with the new photos and any details it lacked
+  const mergeReviewInto = (item: InventoryItem) => saveReview(async () => {
+    if (!reviewJob?.result) return;
+    if (await saveItem(mergeIntoItem(item, reviewJob.result, reviewJob.photos), `Merged into "${item.item_name}"`)) {
+      intake.removeJob(reviewJob.id);
+    }
+  });
+
+  // Another identical unit of something already saved
+  const addReviewAsQuantity = (item: InventoryItem) => saveReview(async () => {
+    if (!reviewJob) return;
+    const quantity = item.quantity + 1;
+    if (await saveItem({ ...item, quantity }, `"${item.item_name}" now has a quantity of ${quantity}`)) {
+      intake.removeJob(reviewJob.id);
+    }
+  });
+
+  const discardReviewItem = () => {
+    if (!reviewJob || isSavingReviewRef.current) return;
+    const job = reviewJob;
+    const index = intake.jobs.indexOf(job);
+    intake.removeJob(job.id);
+    recordChange(
+      {
+        label: `Discard "${job.result?.item_name}"`,
+        undo: async () => intake.restoreJob(job, index),
+        redo: async () => intake.removeJob(job.id)
+      },
+      "Analysis discarded"
+    );
   };
 
-  const processImageWithGemini = async (base64Image: string): Promise<AIResponse | null> => {
+  const reloadInventory = async () => {
     try {
-      // The API key is injected by the environment
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-      
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: [
-          {
-            parts: [
-              { text: "Identify this item for resale. Provide the name, category, estimated market value in USD, condition notes based on the image, and a catchy sales description. Return ONLY JSON." },
-              {
-                inlineData: {
-                  mimeType: "image/jpeg",
-                  data: base64Image.split(',')[1]
-                }
-              }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              item_name: { type: Type.STRING },
-              category: { type: Type.STRING },
-              estimated_value: { type: Type.NUMBER },
-              currency: { type: Type.STRING },
-              condition_notes: { type: Type.STRING },
-              suggested_description: { type: Type.STRING }
-            },
-            required: ["item_name", "category", "estimated_value", "currency", "condition_notes", "suggested_description"]
-          }
-        }
-      });
+      setInventory(await inventoryApi.fetchInventory());
+    } catch (error) {
+      console.error("Failed to load inventory", error);
+      addToast("Couldn't reach the inventory server", "error");
+    }
+  };
 
-      const text = response.text;
-      if (!text) throw new Error("No response from AI");
-      return JSON.parse(text) as AIResponse;
+  const importCsvItems = async (items: InventoryItem[]) => {
+    try {
+      const { imported } = await inventoryApi.importItems(items.map(intoActiveCollection));
+      await reloadInventory();
+      setIsDataOpen(false);
+      addToast(`Imported ${imported} item${imported === 1 ? '' : 's'}`);
     } catch (error) {
-      console.error("Gemini Error:", error);
-      throw error;
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Import failed", "error");
     }
   };
 
-  const approveItem = () => {
-    if (!reviewItem) return;
-    const newItem: InventoryItem = {
-      ...reviewItem,
-      id: Math.random().toString(36).substring(2, 9),
-      createdAt: Date.now()
-    };
-    setInventory(prev => [newItem, ...prev]);
-    setReviewItem(null);
-    addToast("Item added to inventory!");
+  const openCategories = () => {
+    setIsCategoriesOpen(true);
+    // Item counts move as items are saved, so fetch them fresh
+    categoriesApi.fetchCategories()
+      .then(setTaxonomy)
+      .catch(error => console.error("Failed to load categories", error));
+  };
+
+  // Item counts move as items are saved and moved, and restores can add collections
+  const refreshCollections = () =>
+    collectionsApi.fetchCollections()
+      .then(setCollections)
+      .catch(error => console.error("Failed to load collections", error));
+
+  const openCollections = () => {
+    setIsCollectionsOpen(true);
+    refreshCollections();
+  };
+
+  const reloadCollections = async (message: string) => {
+    setCollections(await collectionsApi.fetchCollections());
+    addToast(message);
+  };
+
+  // Renames and merges rewrite items' categories on the server
+  const reloadCategories = async (message: string) => {
+    const [items, categories] = await Promise.all([inventoryApi.fetchInventory(), categoriesApi.fetchCategories()]);
+    setInventory(items);
+    setTaxonomy(categories);
+    addToast(message);
+  };
+
+  const saveSettings = async (next: Settings) => {
+    try {
+      setSettings(await settingsApi.saveSettings(next));
+      // The default collection's currency follows the home currency
+      refreshCollections();
+      setIsSettingsOpen(false);
+      addToast("Settings saved");
+    } catch (error) {
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Failed to save settings", "error");
+    }
+  };
+
+  const saveView = async (name: string) => {
+    try {
+      const view = await viewsApi.createView({ id: generateId(), name, query, createdAt: Date.now() });
+      setSavedViews(prev => [...prev, view]);
+      addToast(`Saved view "${view.name}"`);
+    } catch (error) {
+      console.error(error);
+      addToast("Failed to save view", "error");
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    try {
+      await viewsApi.deleteView(view.id);
+      setSavedViews(prev => prev.filter(v => v.id !== view.id));
+    } catch (error) {
+      console.error(error);
+      addToast("Failed to delete view", "error");
+    }
   };
 
-  const deleteItem = (id: string) => {
-    setInventory(prev => prev.filter(item => item.id !== id));
-    addToast("Item deleted", "success");
+  const deleteItem = async (item: InventoryItem) => {
+    try {
+      await trashItems([item.id]);
+      recordTrash(`Delete "${item.item_name}"`, [item.id], "Item moved to trash");
+    } catch (error) {
+      console.error(error);
+      addToast("Failed to delete item", "error");
+    }
+  };
+
+  const saveItem = async (item: InventoryItem, successMessage: string) => {
+    const previous = inventory.find(existing => existing.id === item.id);
+    try {
+      const saved = await inventoryApi.updateItem(item);
+      mergeItems([saved]);
+      if (previous) recordEdit(`Edit "${saved.item_name}"`, [previous], [saved], successMessage);
+      else addToast(successMessage);
+      return true;
+    } catch (error) {
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Failed to update item", "error");
+      return false;
+    }
+  };
+
+  const saveEditingItem = async () => {
+    if (!editingItem) return;
+    if (await saveItem(editingItem, "Item updated!")) setEditingItem(null);
+  };
+
+  const changeStatus = (item: InventoryItem, status: ItemStatus) => {
+    const updated = withStatus(item, status);
+    // A sale needs a price before it means anything, so ask for it first
+    if (isSoldStatus(status) && updated.salePrice === null) {
+      setEditingItem({ ...updated, salePrice: item.estimated_value });
+      return;
+    }
+    saveItem(updated, `Marked as ${STATUS_LABELS[status].toLowerCase()}`);
+  };
+
+  // Everything shown, totalled and exported is scoped to the active collection, in its currency
+  const collectionItems = inventory.filter(item => item.collectionId === (activeCollection?.id ?? DEFAULT_COLLECTION_ID));
+  const viewSettings = collectionSettings(settings, activeCollection);
+  const filteredInventory = applyQuery(collectionItems, query, viewSettings);
+  const setSort = (sort: InventoryQuery['sort']) => setQuery({ ...query, sort });
+  const selection = useSelection(filteredInventory.map(item => item.id), collectionItems.map(item => item.id));
+  const selectedItems = collectionItems.filter(item => selection.isSelected(item.id));
+  // The managed taxonomy, plus anything on an item that hasn't made it there yet (e.g. while offline)
+  const categories = [...new Set<string>([...taxonomy.map(category => category.name), ...inventory.map(item => item.category)].filter(Boolean))]
+    .sort((a, b) => a.localeCompare(b));
+  const locations = [...new Set<string>(inventory.map(item => item.location).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+  const saveSelected = async (label: string, update: (item: InventoryItem) => InventoryItem, successMessage: string) => {
+    const before = selectedItems;
+    try {
+      const saved = await inventoryApi.updateItems(before.map(update));
+      mergeItems(saved);
+      recordEdit(label, before, saved, successMessage);
+    } catch (error) {
+      console.error(error);
+      addToast(error instanceof Error ? error.message : "Failed to update items", "error");
+    }
+  };
+
+  const setSelectedCategory = (category: string) => {
+    const count = plural(selectedItems.length, 'item');
+    saveSelected(`Move ${count} to ${category}`, item => ({ ...item, category }), `Moved ${count} to ${category}`);
+  };
+
+  const adjustSelectedPrices = (percent: number) => {
+    const count = plural(selectedItems.length, 'estimate');
+    saveSelected(
+      `Adjust ${count} by ${percent}%`,
+      item => ({
+        ...item,
+        estimated_value: adjustPrice(item.estimated_value, percent),
+        price_low: item.price_low === null ? null : adjustPrice(item.price_low, percent),
+        price_high: item.price_high === null ? null : adjustPrice(item.price_high, percent)
+      }),
+      `${percent > 0 ? 'Raised' : 'Lowered'} ${count} by ${Math.abs(percent)}%`
+    );
+  };
+
+  const switchCollection = (collectionId: string) => {
+    setActiveCollectionId(collectionId);
+    selection.clear();
+  };
+
+  const moveSelectedToCollection = (collectionId: string) => {
+    const target = collections.find(collection => collection.id === collectionId);
+    if (!target) return;
+    const count = plural(selectedItems.length, 'item');
+    saveSelected(`Move ${count} to ${target.name}`, item => ({ ...item, collectionId }), `Moved ${count} to ${target.name}`);
+  };
+
+  const reanalyzeSelected = () => {
+    const queued = intake.enqueueReanalysis(selectedItems).length;
+    const skipped = selectedItems.length - queued;
+    if (queued === 0) {
+      addToast("None of the selected items have photos to analyze", "error");
+      return;
+    }
+    selection.clear();
+    addToast(
+      `${queued} item${queued === 1 ? '' : 's'} queued for re-analysis` +
+      (skipped > 0 ? ` (${skipped} without photos skipped)` : '')
+    );
+  };
+
+  const deleteSelected = async () => {
+    const ids = selectedItems.map(item => item.id);
+    try {
+      await trashItems(ids);
+      selection.clear();
+      recordTrash(`Delete ${plural(ids.length, 'item')}`, ids, `Moved ${plural(ids.length, 'item')} to trash`);
+    } catch (error) {
+      console.error(error);
+      addToast("Failed to delete items", "error");
+    }
   };
 
   const copyToClipboard = (text: string) => {
@@ -191,76 +708,339 @@ export default function App() {
     addToast("Description copied!");
   };
 
-  const filteredInventory = inventory.filter(item => 
-    item.item_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.category.toLowerCase().includes(searchTerm.toLowerCase())
+  const stats = summarizeInventory(collectionItems, viewSettings);
+
+  const rowId = (id: string) => `item-row-${id}`;
+  const activeItem = filteredInventory.find(item => item.id === activeItemId) ?? null;
+
+  const moveActiveItem = (step: number) => {
+    if (filteredInventory.length === 0) return;
+    const index = activeItem ? filteredInventory.indexOf(activeItem) : step > 0 ? -1 : filteredInventory.length;
+    const next = filteredInventory[Math.min(filteredInventory.length - 1, Math.max(0, index + step))];
+    setActiveItemId(next.id);
+    // Focusing the row scrolls it into view and has screen readers announce it
+    document.getElementById(rowId(next.id))?.focus();
+  };
+
+  // The list shortcuts stand down while a dialog or the reports cover the list
+  useShortcuts(
+    {
+      j: () => moveActiveItem(1),
+      k: () => moveActiveItem(-1),
+      e: () => activeItem && setEditingItem(activeItem),
+      c: () => activeItem && copyToClipboard(activeItem.suggested_description),
+      x: () => activeItem && selection.toggle(activeItem.id)
+    },
+    () => !isDialogOpen() && !isReportOpen
   );
 
+  const paletteCommands: PaletteCommand[] = [
+    ...(readyCount > 0 ? [{ id: 'review', label: `Review ${plural(readyCount, 'analyzed item')}`, run: () => setIsReviewOpen(true) }] : []),
+    { id: 'add', label: "Add items, one per photo", keywords: "upload new", run: () => fileInputRef.current?.click() },
+    { id: 'multi-angle', label: "Add one item from several photos", keywords: "multi angle upload", run: () => multiAngleInputRef.current?.click() },
+    { id: 'scan', label: "Scan items with the camera", keywords: "photo capture", run: startScanning },
+    { id: 'lookup', label: "Find an item by its label", keywords: "qr sku search", run: () => setIsLookupOpen(true) },
+    ...(activeItem ? [
+      { id: 'edit', label: `Edit "${activeItem.item_name}"`, shortcut: 'e', run: () => setEditingItem(activeItem) },
+      { id: 'copy', label: `Copy the description of "${activeItem.item_name}"`, shortcut: 'c', run: () => copyToClipboard(activeItem.suggested_description) }
+    ] : []),
+    ...(filteredInventory.length > 0 ? [
+      { id: 'export', label: "Export the items shown", keywords: "ebay etsy facebook marketplace csv json", run: () => setExportItems(filteredInventory) },
+      { id: 'select-all', label: "Select all shown items", run: selection.selectAll }
+    ] : []),
+    ...(selectedItems.length > 0 ? [
+      { id: 'export-selected', label: `Export ${plural(selectedItems.length, 'selected item')}`, run: () => setExportItems(selectedItems) },
+      { id: 'labels', label: `Print labels for ${plural(selectedItems.length, 'selected item')}`, keywords: "qr", run: () => setLabelItems(selectedItems) },
+      { id: 'clear-selection', label: "Clear the selection", run: selection.clear }
+    ] : []),
+    ...(history.nextUndo ? [{ id: 'undo', label: `Undo: ${history.nextUndo.label}`, shortcut: 'mod+z', run: () => runUndo() }] : []),
+    ...(history.nextRedo ? [{ id: 'redo', label: `Redo: ${history.nextRedo.label}`, shortcut: 'mod+shift+z', run: runRedo }] : []),
+    { id: 'reports', label: isReportOpen ? "Close the reports" : "Open the reports", keywords: "dashboard value stock", run: () => setIsReportOpen(!isReportOpen) },
+    ...collections
+      .filter(collection => collection.id !== activeCollection?.id)
+      .map(collection => ({
+        id: `collection-${collection.id}`,
+        label: `Switch to ${collection.name}`,
+        keywords: "collection",
+        run: () => switchCollection(collection.id)
+      })),
+    { id: 'collections', label: "Manage collections", run: openCollections },
+    { id: 'categories', label: "Manage categories", keywords: "taxonomy rename merge", run: openCategories },
+    { id: 'trash', label: "Open the trash", keywords: "deleted restore", run: () => setIsTrashOpen(true) },
+    { id: 'settings', label: "Settings", keywords: "currency exchange rates market", run: () => setIsSettingsOpen(true) },
+    { id: 'data', label: "Backup, restore and import", keywords: "csv zip", run: () => setIsDataOpen(true) }
+  ];
+
   return (
-    <div className="min-h-screen bg-stone-50 text-stone-900 font-sans selection:bg-emerald-100">
+    <div 
+      className="min-h-screen bg-stone-50 text-stone-900 font-sans selection:bg-emerald-100"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Header */}
-      <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-bottom border-stone-200 px-4 py-4 md:px-8">
+      <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-bottom border-stone-200 px-4 py-4 md:px-8 print:hidden">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-2">
             <div className="bg-emerald-600 p-2 rounded-xl text-white">
               <Package size={24} />
             </div>
             <h1 className="text-xl font-bold tracking-tight">ResaleReady</h1>
+            {collections.length > 1 && (
+              <select 
+                value={activeCollection?.id ?? DEFAULT_COLLECTION_ID}
+                onChange={(e) => switchCollection(e.target.value)}
+                className="ml-2 max-w-[10rem] px-3 py-1.5 bg-stone-100 rounded-full text-sm font-medium border-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-emerald-500/20"
+                aria-label="Collection"
+                title="Switch collection"
+              >
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>{collection.name}</option>
+                ))}
+              </select>
+            )}
+            {(!isOnline || isShowingSnapshot) && (
+              <span
+                className="ml-2 px-2.5 py-1 rounded-full text-xs font-bold bg-amber-100 text-amber-800 flex items-center gap-1"
+                title="New photos are saved on this device and analyzed when the connection returns"
+              >
+                <CloudOff size={14} />
+                Offline
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="hidden md:flex items-center">
+              <button 
+                onClick={() => runUndo()}
+                disabled={!history.nextUndo}
+                className="p-2 rounded-full text-stone-600 hover:bg-stone-100 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                title={history.nextUndo ? `Undo: ${history.nextUndo.label} (Ctrl+Z)` : "Nothing to undo"}
+                aria-label={history.nextUndo ? `Undo: ${history.nextUndo.label}` : "Undo"}
+                aria-keyshortcuts="Control+Z Meta+Z"
+              >
+                <Undo2 size={18} />
+              </button>
+              <button 
+                onClick={runRedo}
+                disabled={!history.nextRedo}
+                className="p-2 rounded-full text-stone-600 hover:bg-stone-100 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                title={history.nextRedo ? `Redo: ${history.nextRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                aria-label={history.nextRedo ? `Redo: ${history.nextRedo.label}` : "Redo"}
+                aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z Control+Y"
+              >
+                <Redo2 size={18} />
+              </button>
+            </div>
+            <button 
+              onClick={() => setIsPaletteOpen(true)}
+              className="hidden md:flex bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Commands and keyboard shortcuts (Ctrl+K)"
+              aria-label="Commands and keyboard shortcuts"
+              aria-keyshortcuts="Control+K Meta+K"
+            >
+              <CommandIcon size={18} />
+            </button>
+            <button 
+              onClick={() => setIsLookupOpen(true)}
+              className="bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Find an item by its label"
+              aria-label="Find an item by its label"
+            >
+              <QrCode size={18} />
+            </button>
+            <button 
+              onClick={() => setIsReportOpen(!isReportOpen)}
+              className={`border p-2 sm:px-4 rounded-full font-medium flex items-center gap-2 transition-all active:scale-95 shadow-sm ${
+                isReportOpen ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-100'
+              }`}
+              title="Value and stock reports"
+              aria-label="Reports"
+              aria-pressed={isReportOpen}
+            >
+              <BarChart3 size={18} />
+              <span className="hidden sm:inline">Reports</span>
+            </button>
+            <button 
+              onClick={() => setIsTrashOpen(true)}
+              className="bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Trash"
+              aria-label="Trash"
+            >
+              <Trash2 size={18} />
+            </button>
+            <button 
+              onClick={openCollections}
+              className="bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Collections"
+              aria-label="Collections"
+            >
+              <Layers size={18} />
+            </button>
+            <button 
+              onClick={openCategories}
+              className="bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Categories"
+              aria-label="Categories"
+            >
+              <Tags size={18} />
+            </button>
+            <button 
+              onClick={() => setIsSettingsOpen(true)}
+              className="bg-white border border-stone-200 text-stone-700 p-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Currency and market settings"
+              aria-label="Settings"
+            >
+              <SettingsIcon size={18} />
+            </button>
+            <button 
+              onClick={() => setIsDataOpen(true)}
+              className="bg-white border border-stone-200 text-stone-700 p-2 sm:px-4 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Backup, restore and import"
+              aria-label="Data"
+            >
+              <Database size={18} />
+              <span className="hidden sm:inline">Data</span>
+            </button>
+            <button 
+              onClick={() => setExportItems(filteredInventory)}
+              disabled={filteredInventory.length === 0}
+              className="bg-white border border-stone-200 text-stone-700 px-4 py-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm disabled:opacity-40 disabled:pointer-events-none"
+              title="Export the items currently shown"
+              aria-label="Export"
+            >
+              <Download size={18} />
+              <span className="hidden sm:inline">Export</span>
+            </button>
+            <button 
+              onClick={startScanning}
+              className="bg-white border border-stone-200 text-stone-700 p-2 sm:px-4 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Photograph items with the camera"
+              aria-label="Scan"
+            >
+              <Camera size={18} />
+              <span className="hidden lg:inline">Scan</span>
+            </button>
+            <button 
+              onClick={() => multiAngleInputRef.current?.click()}
+              className="bg-white border border-stone-200 text-stone-700 p-2 sm:px-4 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+              title="Add one item from several photos"
+              aria-label="Add one item from several photos"
+            >
+              <Images size={18} />
+              <span className="hidden lg:inline">Multi-angle</span>
+            </button>
+            <button 
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-stone-900 text-white px-4 py-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-800 transition-all active:scale-95 shadow-sm"
+              title="Add items, one per photo"
+              aria-label="Add items"
+            >
+              <Plus size={18} />
+              <span className="hidden sm:inline">Add Item</span>
+            </button>
           </div>
-          <button 
-            onClick={() => fileInputRef.current?.click()}
-            className="bg-stone-900 text-white px-4 py-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-800 transition-all active:scale-95 shadow-sm"
-          >
-            <Plus size={18} />
-            <span className="hidden sm:inline">Add Item</span>
-          </button>
           <input 
             type="file" 
             ref={fileInputRef} 
             onChange={handleFileUpload} 
             className="hidden" 
-            accept="image/*"
+            accept="image/*,.heic,.heif"
+            multiple
+          />
+          <input 
+            type="file" 
+            ref={multiAngleInputRef} 
+            onChange={(e) => handleFileUpload(e, true)} 
+            className="hidden" 
+            accept="image/*,.heic,.heif"
+            multiple
           />
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto px-4 py-8 md:px-8">
+      {isReportOpen && (
+        <ReportsDashboard 
+          inventory={collectionItems}
+          settings={viewSettings}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      <main className={`max-w-7xl mx-auto px-4 py-8 md:px-8 ${isReportOpen ? 'hidden' : ''}`}>
         {/* Search & Stats */}
         <div className="mb-8 flex flex-col md:flex-row gap-4 items-center justify-between">
           <div className="relative w-full md:w-96">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" size={18} />
             <input 
               type="text"
-              placeholder="Search inventory..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search names, brands, descriptions..."
+              value={query.search}
+              onChange={(e) => setQuery({ ...query, search: e.target.value })}
               className="w-full pl-10 pr-4 py-2 bg-white border border-stone-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
             />
           </div>
-          <div className="flex gap-4 w-full md:w-auto">
+          <div className="grid grid-cols-2 sm:flex gap-4 w-full md:w-auto">
             <div className="flex-1 md:flex-none bg-white p-4 rounded-2xl border border-stone-200 shadow-sm flex flex-col">
               <span className="text-xs font-semibold text-stone-400 uppercase tracking-wider">Total Items</span>
-              <span className="text-2xl font-bold">{inventory.length}</span>
+              <span className="text-2xl font-bold">{stats.totalItems}</span>
             </div>
             <div className="flex-1 md:flex-none bg-white p-4 rounded-2xl border border-stone-200 shadow-sm flex flex-col">
               <span className="text-xs font-semibold text-stone-400 uppercase tracking-wider">Est. Value</span>
               <span className="text-2xl font-bold text-emerald-600">
-                ${inventory.reduce((acc, item) => acc + item.estimated_value, 0).toFixed(2)}
+                {formatMoney(stats.estimatedValue, stats.currency)}
               </span>
+              {stats.unconvertedCount > 0 && (
+                <button onClick={() => setIsSettingsOpen(true)} className="text-xs text-amber-600 text-left hover:underline">
+                  {stats.unconvertedCount} item{stats.unconvertedCount === 1 ? '' : 's'} need an exchange rate
+                </button>
+              )}
+            </div>
+            <div className="flex-1 md:flex-none bg-white p-4 rounded-2xl border border-stone-200 shadow-sm flex flex-col">
+              <span className="text-xs font-semibold text-stone-400 uppercase tracking-wider">Revenue</span>
+              <span className="text-2xl font-bold">{formatMoney(stats.revenue, stats.currency)}</span>
+              <span className="text-xs text-stone-400">{stats.soldCount} sold</span>
+            </div>
+            <div className="flex-1 md:flex-none bg-white p-4 rounded-2xl border border-stone-200 shadow-sm flex flex-col">
+              <span className="text-xs font-semibold text-stone-400 uppercase tracking-wider">Profit</span>
+              <span className={`text-2xl font-bold ${stats.profit < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                {formatMoney(stats.profit, stats.currency)}
+              </span>
+              <span className="text-xs text-stone-400">{formatPercent(stats.margin)} margin</span>
             </div>
           </div>
         </div>
 
+        {/* Filters & Saved Views */}
+        {collectionItems.length > 0 && (
+          <InventoryFilters 
+            query={query}
+            inventory={collectionItems}
+            savedViews={savedViews}
+            homeCurrency={viewSettings.homeCurrency}
+            onChange={setQuery}
+            onSaveView={saveView}
+            onDeleteView={deleteView}
+          />
+        )}
+
         {/* Inventory List */}
-        {inventory.length === 0 ? (
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="animate-spin text-emerald-600" size={40} />
+          </div>
+        ) : collectionItems.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 bg-white rounded-3xl border-2 border-dashed border-stone-200">
             <div className="bg-stone-100 p-6 rounded-full mb-4">
               <Camera size={48} className="text-stone-400" />
             </div>
-            <h2 className="text-xl font-semibold mb-2">Your inventory is empty</h2>
-            <p className="text-stone-500 mb-6 text-center max-w-xs">Upload a photo of an item and let AI identify, price, and describe it for you.</p>
+            <h2 className="text-xl font-semibold mb-2">
+              {collections.length > 1 && activeCollection ? `${activeCollection.name} is empty` : 'Your inventory is empty'}
+            </h2>
+            <p className="text-stone-500 mb-6 text-center max-w-xs">Scan, upload or drop photos of your items and let AI identify, price, and describe them for you.</p>
             <button 
-              onClick={() => fileInputRef.current?.click()}
+              onClick={startScanning}
               className="bg-emerald-600 text-white px-8 py-3 rounded-full font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
             >
               Start Scanning
@@ -269,33 +1049,80 @@ export default function App() {
         ) : (
           <div className="bg-white rounded-3xl border border-stone-200 shadow-sm overflow-hidden">
             <div className="overflow-x-auto">
-              <table className="w-full text-left border-collapse">
+              <table className="w-full text-left border-collapse" aria-label={activeCollection ? `${activeCollection.name} items` : "Inventory items"}>
                 <thead>
                   <tr className="bg-stone-50/50 border-bottom border-stone-200">
-                    <th className="px-6 py-4 text-xs font-bold text-stone-400 uppercase tracking-widest">Item</th>
-                    <th className="px-6 py-4 text-xs font-bold text-stone-400 uppercase tracking-widest">Category</th>
-                    <th className="px-6 py-4 text-xs font-bold text-stone-400 uppercase tracking-widest">Value</th>
+                    <th className="pl-6 py-4 w-4">
+                      <input 
+                        type="checkbox"
+                        checked={selection.allVisibleSelected}
+                        ref={(el) => { if (el) el.indeterminate = selection.someVisibleSelected && !selection.allVisibleSelected; }}
+                        onChange={() => selection.allVisibleSelected ? selection.clear() : selection.selectAll()}
+                        disabled={filteredInventory.length === 0}
+                        className="w-4 h-4 accent-emerald-600 cursor-pointer"
+                        aria-label="Select all shown items"
+                      />
+                    </th>
+                    <SortableHeader label="Item" sortKey="item_name" sort={query.sort} onSort={setSort} />
+                    <SortableHeader label="Category" sortKey="category" sort={query.sort} onSort={setSort} />
+                    <SortableHeader label="Status" sortKey="status" sort={query.sort} onSort={setSort} />
+                    <SortableHeader label="Value" sortKey="value" sort={query.sort} onSort={setSort} />
+                    <SortableHeader label="Added" sortKey="createdAt" sort={query.sort} onSort={setSort} />
                     <th className="px-6 py-4 text-xs font-bold text-stone-400 uppercase tracking-widest text-right">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-stone-100">
+                  {filteredInventory.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-stone-400 text-sm">No items match your filters.</td>
+                    </tr>
+                  )}
                   {filteredInventory.map((item) => (
                     <motion.tr 
                       layout
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                       key={item.id} 
-                      className="group hover:bg-stone-50/50 transition-colors"
+                      id={rowId(item.id)}
+                      tabIndex={-1}
+                      onFocus={() => setActiveItemId(item.id)}
+                      className={`group transition-colors focus:outline-none ${selection.isSelected(item.id) ? 'bg-emerald-50/60' : 'hover:bg-stone-50/50'} ${
+                        item.id === activeItemId ? 'shadow-[inset_3px_0_0] shadow-emerald-500' : ''
+                      }`}
                     >
+                      <td className="pl-6 py-4">
+                        <input 
+                          type="checkbox"
+                          checked={selection.isSelected(item.id)}
+                          onChange={() => {}}
+                          onClick={(e) => selection.toggle(item.id, { range: e.shiftKey })}
+                          className="w-4 h-4 accent-emerald-600 cursor-pointer"
+                          aria-label={`Select ${item.item_name}`}
+                        />
+                      </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-4">
                           <img 
-                            src={item.thumbnail} 
+                            src={coverThumbnail(item)} 
                             alt={item.item_name} 
                             className="w-12 h-12 rounded-xl object-cover border border-stone-200 shadow-sm"
                           />
                           <div>
-                            <div className="font-bold text-stone-900">{item.item_name}</div>
+                            <div className="font-bold text-stone-900">
+                              {item.item_name}
+                              {item.quantity > 1 && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded-md text-xs font-bold bg-stone-100 text-stone-600" title={`${item.quantity} identical units`}>
+                                  ×{item.quantity}
+                                </span>
+                              )}
+                            </div>
+                            {(item.sku || item.location) && (
+                              <div className="text-xs text-stone-400">
+                                <span className="font-mono">{item.sku}</span>
+                                {item.sku && item.location && ' · '}
+                                {item.location}
+                              </div>
+                            )}
                             <div className="text-xs text-stone-500 line-clamp-1 max-w-[200px]">{item.condition_notes}</div>
                           </div>
                         </div>
@@ -305,27 +1132,75 @@ export default function App() {
                           {item.category}
                         </span>
                       </td>
+                      <td className="px-6 py-4">
+                        <select 
+                          value={item.status}
+                          onChange={(e) => changeStatus(item, e.target.value as ItemStatus)}
+                          aria-label={`Status of ${item.item_name}`}
+                          className={`px-2.5 py-0.5 rounded-full text-xs font-medium border-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-emerald-500/20 ${STATUS_STYLES[item.status]}`}
+                          title={item.statusDates[item.status] ? `Since ${new Date(item.statusDates[item.status]!).toLocaleDateString()}` : undefined}
+                        >
+                          {[item.status, ...STATUS_TRANSITIONS[item.status]].map(status => (
+                            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="px-6 py-4 font-mono font-bold text-emerald-600">
-                        ${item.estimated_value.toFixed(2)}
+                        {isSoldStatus(item.status) && item.salePrice !== null ? (
+                          <>
+                            <div>{formatMoney(item.salePrice, item.currency)}</div>
+                            <div className={`text-xs font-medium ${(itemProfit(item) ?? 0) < 0 ? 'text-red-600' : 'text-stone-400'}`}>
+                              {(itemProfit(item) ?? 0) < 0 ? '-' : '+'}{formatMoney(Math.abs(itemProfit(item) ?? 0), item.currency)} profit
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div>{formatMoney(item.estimated_value, item.currency)}</div>
+                            {isPriceStale(item, settings) && (
+                              <div
+                                className="text-xs font-sans font-medium text-amber-600 flex items-center gap-1"
+                                title={`Priced ${priceAgeDays(item)} days ago; open the item to log recent sold comps`}
+                              >
+                                <Clock size={12} /> Stale price
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-stone-500 whitespace-nowrap">
+                        {new Date(item.createdAt).toLocaleDateString()}
                       </td>
                       <td className="px-6 py-4 text-right">
                         <div className="flex items-center justify-end gap-2">
                           <button 
                             onClick={() => copyToClipboard(item.suggested_description)}
                             className="p-2 text-stone-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
-                            title="Copy Description"
+                            title="Copy Description (C)"
+                            aria-label={`Copy the description of ${item.item_name}`}
                           >
                             <Copy size={18} />
                           </button>
+                          <button 
+                            onClick={() => setRewritingItem(item)}
+                            className="p-2 text-stone-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                            title="Rewrite Description"
+                            aria-label={`Rewrite the description of ${item.item_name}`}
+                          >
+                            <Wand2 size={18} />
+                          </button>
                           <button 
                             onClick={() => setEditingItem(item)}
                             className="p-2 text-stone-400 hover:text-stone-900 hover:bg-stone-100 rounded-lg transition-all"
+                            title="Edit (E)"
+                            aria-label={`Edit ${item.item_name}`}
                           >
                             <Edit2 size={18} />
                           </button>
                           <button 
-                            onClick={() => deleteItem(item.id)}
+                            onClick={() => deleteItem(item)}
                             className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                            title="Delete"
+                            aria-label={`Delete ${item.item_name}`}
                           >
                             <Trash2 size={18} />
                           </button>
@@ -340,192 +1215,251 @@ export default function App() {
         )}
       </main>
 
-      {/* Processing Overlay */}
+      {/* Bulk Actions */}
       <AnimatePresence>
-        {isProcessing && (
+        {selectedItems.length > 0 && !isReportOpen && (
+          <BulkActionBar 
+            count={selectedItems.length}
+            filteredCount={filteredInventory.length}
+            allFilteredSelected={selection.allVisibleSelected}
+            categories={categories}
+            collections={collections}
+            activeCollectionId={activeCollection?.id ?? DEFAULT_COLLECTION_ID}
+            onSelectAllFiltered={selection.selectAll}
+            onClear={selection.clear}
+            onSetCategory={setSelectedCategory}
+            onAdjustPrice={adjustSelectedPrices}
+            onMoveToCollection={moveSelectedToCollection}
+            onReanalyze={reanalyzeSelected}
+            onExport={() => setExportItems(selectedItems)}
+            onPrintLabels={() => setLabelItems(selectedItems)}
+            onDelete={deleteSelected}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Drop Overlay */}
+      <AnimatePresence>
+        {isDragging && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/40 backdrop-blur-sm"
+            className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/40 backdrop-blur-sm pointer-events-none"
           >
-            <div className="bg-white p-8 rounded-3xl shadow-2xl flex flex-col items-center max-w-xs w-full">
-              <Loader2 className="animate-spin text-emerald-600 mb-4" size={40} />
-              <h3 className="text-lg font-bold mb-2">Analyzing Item...</h3>
-              <p className="text-stone-500 text-center text-sm">Our AI is identifying your item and calculating its market value.</p>
+            <div className="bg-white p-8 rounded-3xl shadow-2xl flex flex-col items-center max-w-xs w-full border-2 border-dashed border-emerald-500">
+              <Upload className="text-emerald-600 mb-4" size={40} />
+              <h3 className="text-lg font-bold mb-2">Drop to Add</h3>
+              <p className="text-stone-500 text-center text-sm">Drop photos or whole folders and we'll queue every image for analysis.</p>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Camera */}
+      <AnimatePresence>
+        {isCameraOpen && (
+          <CameraCapture 
+            onCaptureItem={(files) => intake.enqueue(files, { asOneItem: true })}
+            onChooseFiles={() => {
+              setIsCameraOpen(false);
+              fileInputRef.current?.click();
+            }}
+            onClose={closeCamera}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Intake Queue */}
+      <IntakeQueuePanel 
+        jobs={intake.jobs}
+        onRetry={intake.retryJob}
+        onRetryFailed={intake.retryFailed}
+        onRemove={intake.removeJob}
+        onReview={() => setIsReviewOpen(true)}
+      />
+
       {/* Review Side Panel / Overlay */}
       <AnimatePresence>
-        {reviewItem && (
-          <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
-            <motion.div 
-              initial={{ y: "100%" }}
-              animate={{ y: 0 }}
-              exit={{ y: "100%" }}
-              className="bg-white w-full max-w-lg rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
-            >
-              <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
-                <h2 className="text-xl font-bold">Review AI Analysis</h2>
-                <button onClick={() => setReviewItem(null)} className="p-2 hover:bg-stone-100 rounded-full">
-                  <X size={20} />
-                </button>
-              </div>
-              
-              <div className="flex-1 overflow-y-auto p-6 space-y-6">
-                <div className="relative group">
-                  <img 
-                    src={reviewItem.thumbnail} 
-                    alt="Review" 
-                    className="w-full aspect-video object-cover rounded-2xl border border-stone-200"
-                  />
-                  <div className="absolute top-4 right-4 bg-emerald-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow-lg">
-                    AI Identified
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Item Name</label>
-                    <input 
-                      type="text" 
-                      value={reviewItem.item_name}
-                      onChange={(e) => setReviewItem({...reviewItem, item_name: e.target.value})}
-                      className="w-full font-bold text-lg focus:outline-none border-b border-transparent focus:border-emerald-500 pb-1"
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Est. Value</label>
-                    <div className="flex items-center gap-1 text-emerald-600 font-mono font-bold text-lg">
-                      <span>$</span>
-                      <input 
-                        type="number" 
-                        value={reviewItem.estimated_value}
-                        onChange={(e) => setReviewItem({...reviewItem, estimated_value: parseFloat(e.target.value) || 0})}
-                        className="w-full focus:outline-none border-b border-transparent focus:border-emerald-500 pb-1"
-                      />
-                    </div>
-                  </div>
-                </div>
-
-                <div className="space-y-1">
-                  <label className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Category</label>
-                  <input 
-                    type="text" 
-                    value={reviewItem.category}
-                    onChange={(e) => setReviewItem({...reviewItem, category: e.target.value})}
-                    className="w-full text-stone-600 focus:outline-none border-b border-transparent focus:border-emerald-500 pb-1"
-                  />
-                </div>
-
-                <div className="space-y-1">
-                  <label className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Condition Notes</label>
-                  <textarea 
-                    value={reviewItem.condition_notes}
-                    onChange={(e) => setReviewItem({...reviewItem, condition_notes: e.target.value})}
-                    className="w-full text-sm text-stone-600 focus:outline-none border-b border-transparent focus:border-emerald-500 pb-1 resize-none"
-                    rows={2}
-                  />
-                </div>
-
-                <div className="space-y-1">
-                  <label className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Sales Description</label>
-                  <textarea 
-                    value={reviewItem.suggested_description}
-                    onChange={(e) => setReviewItem({...reviewItem, suggested_description: e.target.value})}
-                    className="w-full text-sm text-stone-600 bg-stone-50 p-3 rounded-xl focus:outline-none border border-stone-200 focus:border-emerald-500 transition-all"
-                    rows={4}
-                  />
-                </div>
-              </div>
-
-              <div className="p-6 bg-stone-50 border-t border-stone-100 flex gap-3">
-                <button 
-                  onClick={() => setReviewItem(null)}
-                  className="flex-1 px-6 py-3 rounded-2xl font-bold text-stone-600 hover:bg-stone-200 transition-all"
-                >
-                  Discard
-                </button>
-                <button 
-                  onClick={approveItem}
-                  className="flex-[2] px-6 py-3 rounded-2xl font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-100 flex items-center justify-center gap-2"
-                >
-                  <Check size={20} />
-                  Approve & Save
-                </button>
-              </div>
-            </motion.div>
-          </div>
+        {isReviewOpen && reviewJob?.result && (
+          <ReviewPanel 
+            item={{ ...reviewJob.result, photos: reviewJob.photos }}
+            position={Math.min(reviewIndex, readyCount - 1)}
+            total={readyCount}
+            isReanalysis={!!reviewJob.itemId}
+            categories={categories}
+            duplicates={reviewDuplicates}
+            onChange={(patch) => intake.updateResult(reviewJob.id, patch)}
+            onReorderPhotos={(order) => intake.setPhotoOrder(reviewJob.id, order)}
+            onAddPhotos={(files) => {
+              intake.addPhotos(reviewJob.id, files);
+              addToast(`Re-analyzing "${reviewJob.result!.item_name}" with the new photos`);
+            }}
+            isSaving={isSavingReview}
+            onApprove={approveItem}
+            onMergeInto={mergeReviewInto}
+            onAddAsQuantity={addReviewAsQuantity}
+            onDiscard={discardReviewItem}
+            onCopyDescription={() => copyToClipboard(reviewJob.result!.suggested_description)}
+            onPrevious={() => setReviewIndex(Math.max(0, Math.min(reviewIndex, readyCount - 1) - 1))}
+            onNext={() => setReviewIndex(Math.min(readyCount - 1, reviewIndex + 1))}
+            onClose={() => setIsReviewOpen(false)}
+          />
         )}
       </AnimatePresence>
 
       {/* Edit Modal */}
       <AnimatePresence>
         {editingItem && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
-            <motion.div 
-              initial={{ scale: 0.9, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.9, opacity: 0 }}
-              className="bg-white w-full max-w-md rounded-3xl shadow-2xl overflow-hidden"
-            >
-              <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
-                <h2 className="text-xl font-bold">Edit Item</h2>
-                <button onClick={() => setEditingItem(null)} className="p-2 hover:bg-stone-100 rounded-full">
-                  <X size={20} />
-                </button>
-              </div>
-              <div className="p-6 space-y-4">
-                <div className="space-y-1">
-                  <label className="text-xs font-bold text-stone-400 uppercase">Name</label>
-                  <input 
-                    type="text" 
-                    value={editingItem.item_name}
-                    onChange={(e) => setEditingItem({...editingItem, item_name: e.target.value})}
-                    className="w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-xs font-bold text-stone-400 uppercase">Value ($)</label>
-                  <input 
-                    type="number" 
-                    value={editingItem.estimated_value}
-                    onChange={(e) => setEditingItem({...editingItem, estimated_value: parseFloat(e.target.value) || 0})}
-                    className="w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-xs font-bold text-stone-400 uppercase">Description</label>
-                  <textarea 
-                    value={editingItem.suggested_description}
-                    onChange={(e) => setEditingItem({...editingItem, suggested_description: e.target.value})}
-                    className="w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
-                    rows={4}
-                  />
-                </div>
-              </div>
-              <div className="p-6 bg-stone-50 flex gap-3">
-                <button 
-                  onClick={() => {
-                    setInventory(prev => prev.map(item => item.id === editingItem.id ? editingItem : item));
-                    setEditingItem(null);
-                    addToast("Item updated!");
-                  }}
-                  className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all"
-                >
-                  Save Changes
-                </button>
-              </div>
-            </motion.div>
-          </div>
+          <EditItemModal 
+            item={editingItem}
+            originalStatus={inventory.find(item => item.id === editingItem.id)?.status ?? editingItem.status}
+            categories={categories}
+            locations={locations}
+            settings={settings}
+            onChange={setEditingItem}
+            onSave={saveEditingItem}
+            onClose={() => setEditingItem(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Labels */}
+      <AnimatePresence>
+        {labelItems && (
+          <LabelSheetModal 
+            items={labelItems}
+            onClose={() => setLabelItems(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Label Lookup */}
+      <AnimatePresence>
+        {isLookupOpen && (
+          <ItemLookupModal 
+            inventory={inventory}
+            onFound={(item) => {
+              setIsLookupOpen(false);
+              setActiveCollectionId(item.collectionId);
+              setEditingItem(item);
+            }}
+            onClose={() => setIsLookupOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Description Rewrite */}
+      <AnimatePresence>
+        {rewritingItem && (
+          <DescriptionModal 
+            item={rewritingItem}
+            onUse={async (suggested_description) => {
+              const latest = inventory.find(item => item.id === rewritingItem.id) ?? rewritingItem;
+              if (await saveItem({ ...latest, suggested_description }, "Description updated")) setRewritingItem(null);
+            }}
+            onClose={() => setRewritingItem(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Settings Modal */}
+      <AnimatePresence>
+        {isSettingsOpen && (
+          <SettingsModal 
+            settings={settings}
+            inventory={inventory}
+            onSave={saveSettings}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Categories */}
+      <AnimatePresence>
+        {isCategoriesOpen && (
+          <CategoryManagerModal 
+            categories={taxonomy}
+            onChanged={reloadCategories}
+            onError={(message) => addToast(message, "error")}
+            onClose={() => setIsCategoriesOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Collections */}
+      <AnimatePresence>
+        {isCollectionsOpen && (
+          <CollectionsModal 
+            collections={collections}
+            settings={settings}
+            onChanged={reloadCollections}
+            onError={(message) => addToast(message, "error")}
+            onClose={() => setIsCollectionsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Trash */}
+      <AnimatePresence>
+        {isTrashOpen && (
+          <TrashModal 
+            onRestored={(restored) => {
+              setInventory(prev => [...restored, ...prev.filter(item => !restored.some(r => r.id === item.id))]);
+              addToast(`Restored ${plural(restored.length, 'item')}`);
+            }}
+            onError={(message) => addToast(message, "error")}
+            onClose={() => setIsTrashOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Export Modal */}
+      <AnimatePresence>
+        {exportItems && (
+          <ExportModal 
+            items={exportItems}
+            defaultFormat={activeCollection?.exportSettings.format ?? 'ebay'}
+            descriptionFooter={activeCollection?.exportSettings.descriptionFooter ?? ''}
+            onExported={(count) => {
+              setExportItems(null);
+              addToast(`Exported ${count} listing${count === 1 ? '' : 's'}`);
+            }}
+            onClose={() => setExportItems(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Backup / Import Modal */}
+      <AnimatePresence>
+        {isDataOpen && (
+          <DataModal 
+            inventory={inventory}
+            homeCurrency={activeCollection?.currency ?? settings.homeCurrency}
+            onImportCsv={importCsvItems}
+            onRestored={async (restored, skipped) => {
+              await Promise.all([reloadInventory(), refreshCollections()]);
+              setIsDataOpen(false);
+              addToast(`Restored ${restored} item${restored === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} already present` : ''}`);
+            }}
+            onError={(message) => addToast(message, "error")}
+            onClose={() => setIsDataOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Command Palette */}
+      <AnimatePresence>
+        {isPaletteOpen && (
+          <CommandPalette 
+            commands={paletteCommands}
+            onClose={() => setIsPaletteOpen(false)}
+          />
         )}
       </AnimatePresence>
 
       {/* Toast Notifications */}
-      <div className="fixed bottom-6 right-6 z-[100] flex flex-col gap-2">
+      <div className="fixed bottom-6 right-6 z-[100] flex flex-col gap-2" role="status" aria-live="polite">
         <AnimatePresence>
           {toasts.map((toast) => (
             <motion.div 
@@ -539,6 +1473,17 @@ export default function App() {
             >
               {toast.type === 'success' ? <Check size={18} className="text-emerald-400" /> : <AlertCircle size={18} />}
               <span className="text-sm font-medium">{toast.message}</span>
+              {toast.action && (
+                <button
+                  onClick={() => {
+                    toast.action!.onClick();
+                    dismissToast(toast.id);
+                  }}
+                  className="ml-auto pl-2 text-sm font-bold text-emerald-400 hover:text-emerald-300"
+                >
+                  {toast.action.label}
+                </button>
+              )}
             </motion.div>
           ))}
         </AnimatePresence>
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Tag, Percent, FolderInput, Sparkles, Download, Printer, Trash2, X, Check } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Collection } from '../types';
+
+interface BulkActionBarProps {
+  count: number;
+  filteredCount: number;
+  allFilteredSelected: boolean;
+  categories: string[];
+  collections: Collection[];
+  activeCollectionId: string;
+  onSelectAllFiltered: () => void;
+  onClear: () => void;
+  onSetCategory: (category: string) => void;
+  onAdjustPrice: (percent: number) => void;
+  onMoveToCollection: (collectionId: string) => void;
+  onReanalyze: () => void;
+  onExport: () => void;
+  onPrintLabels: () => void;
+  onDelete: () => void;
+}
+
+type Mode = 'category' | 'price' | 'collection' | null;
+
+const buttonClassName = "px-3 py-2 rounded-full text-sm font-medium flex items-center gap-1.5 hover:bg-white/10 transition-all whitespace-nowrap";
+const inputClassName = "px-3 py-1.5 rounded-full bg-white/10 border border-white/20 text-sm focus:outline-none focus:border-emerald-400";
+
+export default function BulkActionBar({
+  count,
+  filteredCount,
+  allFilteredSelected,
+  categories,
+  collections,
+  activeCollectionId,
+  onSelectAllFiltered,
+  onClear,
+  onSetCategory,
+  onAdjustPrice,
+  onMoveToCollection,
+  onReanalyze,
+  onExport,
+  onPrintLabels,
+  onDelete
+}: BulkActionBarProps) {
+  const [mode, setMode] = useState<Mode>(null);
+  const [category, setCategory] = useState('');
+  const [percent, setPercent] = useState('-10');
+  const otherCollections = collections.filter(collection => collection.id !== activeCollectionId);
+  const [targetCollectionId, setTargetCollectionId] = useState('');
+
+  const percentValue = Number(percent);
+  const isPercentValid = percent.trim() !== '' && Number.isFinite(percentValue) && percentValue !== 0 && percentValue > -100;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'category' && category.trim()) onSetCategory(category.trim());
+    else if (mode === 'price' && isPercentValid) onAdjustPrice(percentValue);
+    else if (mode === 'collection' && targetCollectionId) onMoveToCollection(targetCollectionId);
+    else return;
+    setMode(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ y: 100, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 100, opacity: 0 }}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 max-w-[calc(100%-3rem)] bg-stone-900 text-white rounded-3xl shadow-2xl px-4 py-3 flex items-center gap-2 overflow-x-auto"
+    >
+      <div className="pr-2 text-sm whitespace-nowrap">
+        <span className="font-bold">{count} selected</span>
+        {!allFilteredSelected && filteredCount > 0 && (
+          <button onClick={onSelectAllFiltered} className="ml-2 text-emerald-400 hover:underline">
+            Select all {filteredCount}
+          </button>
+        )}
+      </div>
+
+      {mode === null ? (
+        <>
+          <button onClick={() => setMode('category')} className={buttonClassName} title="Change category">
+            <Tag size={16} /> Category
+          </button>
+          <button onClick={() => setMode('price')} className={buttonClassName} title="Raise or lower estimated values">
+            <Percent size={16} /> Price
+          </button>
+          {otherCollections.length > 0 && (
+            <button
+              onClick={() => {
+                setTargetCollectionId(otherCollections[0].id);
+                setMode('collection');
+              }}
+              className={buttonClassName}
+              title="Move to another collection"
+            >
+              <FolderInput size={16} /> Move
+            </button>
+          )}
+          <button onClick={onReanalyze} className={buttonClassName} title="Run AI analysis again on the selected items">
+            <Sparkles size={16} /> Re-analyze
+          </button>
+          <button onClick={onExport} className={buttonClassName} title="Export the selected items">
+            <Download size={16} /> Export
+          </button>
+          <button onClick={onPrintLabels} className={buttonClassName} title="Print QR code labels for the selected items">
+            <Printer size={16} /> Labels
+          </button>
+          <button onClick={onDelete} className={`${buttonClassName} text-red-300 hover:bg-red-500/20`} title="Delete the selected items">
+            <Trash2 size={16} /> Delete
+          </button>
+        </>
+      ) : (
+        <form onSubmit={submit} className="flex items-center gap-2">
+          {mode === 'category' ? (
+            <>
+              <input
+                autoFocus
+                list="bulk-categories"
+                value={category}
+                placeholder="New category"
+                onChange={(e) => setCategory(e.target.value)}
+                className={inputClassName}
+              />
+              <datalist id="bulk-categories">
+                {categories.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </>
+          ) : mode === 'collection' ? (
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+              Move to
+              <select
+                autoFocus
+                value={targetCollectionId}
+                onChange={(e) => setTargetCollectionId(e.target.value)}
+                className={inputClassName}
+              >
+                {otherCollections.map(collection => (
+                  <option key={collection.id} value={collection.id} className="text-stone-900">{collection.name}</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+              Adjust by
+              <input
+                autoFocus
+                type="number"
+                step="any"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                className={`${inputClassName} w-20`}
+              />
+              %
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={mode === 'category' ? !category.trim() : mode === 'collection' ? !targetCollectionId : !isPercentValid}
+            className="p-2 rounded-full bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 transition-all"
+            title="Apply"
+            aria-label="Apply"
+          >
+            <Check size={16} />
+          </button>
+          <button type="button" onClick={() => setMode(null)} className="p-2 rounded-full hover:bg-white/10" title="Cancel" aria-label="Cancel">
+            <X size={16} />
+          </button>
+        </form>
+      )}
+
+      <button onClick={onClear} className="ml-1 p-2 rounded-full hover:bg-white/10" title="Clear selection" aria-label="Clear selection">
+        <X size={18} />
+      </button>
+    </motion.div>
+  );
+}
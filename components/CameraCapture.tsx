@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X, RotateCcw, SwitchCamera, ArrowRight, Loader2, CameraOff, Check } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { FacingMode, useCameraStream } from '../hooks/useCameraStream';
+import { MAX_PHOTOS_PER_ITEM } from '../lib/photos';
+
+interface CameraCaptureProps {
+  // Called with every shot of one item when the user moves on to the next
+  onCaptureItem: (files: File[]) => void;
+  onChooseFiles: () => void;
+  onClose: () => void;
+}
+
+interface Shot {
+  file: File;
+  previewUrl: string;
+}
+
+export default function CameraCapture({ onCaptureItem, onChooseFiles, onClose }: CameraCaptureProps) {
+  const dialog = useDialog(onClose);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const { videoRef, isReady, error, canFlip, capture } = useCameraStream(facingMode);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [itemCount, setItemCount] = useState(0);
+  const [isFlashing, setIsFlashing] = useState(false);
+
+  // Preview URLs are revoked when a shot is dropped, and any left over on unmount
+  const shotsRef = useRef(shots);
+  shotsRef.current = shots;
+  useEffect(() => () => shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.previewUrl)), []);
+
+  const isFull = shots.length >= MAX_PHOTOS_PER_ITEM;
+
+  const takeShot = async () => {
+    if (!isReady || isFull) return;
+    const file = await capture();
+    if (!file) return;
+    setIsFlashing(true);
+    setTimeout(() => setIsFlashing(false), 150);
+    setShots(prev => [...prev, { file, previewUrl: URL.createObjectURL(file) }]);
+  };
+
+  const removeShot = (index: number) => {
+    URL.revokeObjectURL(shots[index].previewUrl);
+    setShots(shots.filter((_, i) => i !== index));
+  };
+
+  const finishItem = () => {
+    if (shots.length === 0) return;
+    onCaptureItem(shots.map(shot => shot.file));
+    shots.forEach(shot => URL.revokeObjectURL(shot.previewUrl));
+    setShots([]);
+    setItemCount(itemCount + 1);
+  };
+
+  const handleDone = () => {
+    finishItem();
+    onClose();
+  };
+
+  return (
+    <motion.div
+      {...dialog.dialogProps}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-stone-950 text-white flex flex-col focus:outline-none"
+    >
+      <h2 id={dialog.titleId} className="sr-only">Camera</h2>
+      <div className="p-4 flex items-center justify-between">
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full" title="Close camera" aria-label="Close camera">
+          <X size={22} />
+        </button>
+        <div className="text-center">
+          <div className="font-bold">Item {itemCount + 1}</div>
+          <div className="text-xs text-stone-400">
+            {shots.length}/{MAX_PHOTOS_PER_ITEM} shots{itemCount > 0 && ` · ${itemCount} queued`}
+          </div>
+        </div>
+        <button
+          onClick={handleDone}
+          className="px-4 py-2 rounded-full bg-white text-stone-900 text-sm font-bold flex items-center gap-1 hover:bg-stone-200 transition-all"
+        >
+          <Check size={16} />
+          Done
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center">
+        {error ? (
+          <div className="max-w-xs text-center space-y-4 px-4">
+            <CameraOff size={40} className="mx-auto text-stone-500" />
+            <p className="text-stone-300">{error}</p>
+            <button
+              onClick={onChooseFiles}
+              className="bg-emerald-600 px-6 py-2.5 rounded-full font-bold hover:bg-emerald-700 transition-all"
+            >
+              Choose photos instead
+            </button>
+          </div>
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              playsInline
+              muted
+              className={`max-h-full max-w-full ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+            />
+            {!isReady && <Loader2 size={40} className="absolute animate-spin text-stone-500" />}
+            <AnimatePresence>
+              {isFlashing && (
+                <motion.div
+                  initial={{ opacity: 0.8 }}
+                  animate={{ opacity: 0 }}
+                  exit={{ opacity: 0 }}
+                  className="absolute inset-0 bg-white pointer-events-none"
+                />
+              )}
+            </AnimatePresence>
+          </>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex gap-2 overflow-x-auto min-h-16">
+          {shots.map((shot, i) => (
+            <div key={shot.previewUrl} className="relative shrink-0">
+              <img src={shot.previewUrl} alt={`Shot ${i + 1}`} className="w-16 h-16 rounded-xl object-cover border border-white/20" />
+              <button
+                onClick={() => removeShot(i)}
+                className="absolute -top-1.5 -right-1.5 bg-stone-900 border border-white/20 rounded-full p-0.5 hover:bg-red-600 transition-all"
+                title="Remove shot"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          {shots.length === 0 && (
+            <p className="text-sm text-stone-500 self-center">
+              Take one or more shots of the item — front, back, labels — then move on to the next.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex-1 flex gap-2">
+            <button
+              onClick={() => removeShot(shots.length - 1)}
+              disabled={shots.length === 0}
+              className="p-3 rounded-full hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Retake last shot"
+            >
+              <RotateCcw size={22} />
+            </button>
+            {canFlip && (
+              <button
+                onClick={() => setFacingMode(facingMode === 'environment' ? 'user' : 'environment')}
+                className="p-3 rounded-full hover:bg-white/10"
+                title="Switch camera"
+              >
+                <SwitchCamera size={22} />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={takeShot}
+            disabled={!isReady || isFull}
+            className="w-18 h-18 rounded-full border-4 border-white flex items-center justify-center disabled:opacity-30 active:scale-95 transition-all"
+            title={isFull ? `An item can have at most ${MAX_PHOTOS_PER_ITEM} photos` : "Take photo"}
+            aria-label="Take photo"
+          >
+            <span className="w-14 h-14 rounded-full bg-white" />
+          </button>
+          <div className="flex-1 flex justify-end">
+            <button
+              onClick={finishItem}
+              disabled={shots.length === 0}
+              className="px-4 py-3 rounded-full bg-emerald-600 font-bold flex items-center gap-1 hover:bg-emerald-700 disabled:opacity-30 disabled:hover:bg-emerald-600 transition-all"
+            >
+              Next item
+              <ArrowRight size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { X, Check, Edit2, Merge, Plus, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { Category } from '../types';
+import * as categoriesApi from '../services/categoriesApi';
+import { MAX_CATEGORY_LENGTH } from '../lib/itemForm';
+
+interface CategoryManagerModalProps {
+  categories: Category[];
+  // Renames and merges touch items too, so the caller reloads both
+  onChanged: (message: string) => Promise<void>;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-3 py-1.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none text-sm";
+
+const itemCount = (count: number) => `${count} item${count === 1 ? '' : 's'}`;
+
+export default function CategoryManagerModal({ categories, onChanged, onError, onClose }: CategoryManagerModalProps) {
+  const dialog = useDialog(onClose);
+  const [renaming, setRenaming] = useState<{ name: string; draft: string } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<string>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await onChanged(await action());
+    } catch (error) {
+      console.error(error);
+      onError(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggle = (name: string) =>
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      await categoriesApi.createCategory(name);
+      setNewName('');
+      return `Added "${name}"`;
+    }, "Failed to add the category");
+  };
+
+  const rename = () => {
+    if (!renaming) return;
+    const to = renaming.draft.trim();
+    if (!to || to === renaming.name) {
+      setRenaming(null);
+      return;
+    }
+    run(async () => {
+      const category = await categoriesApi.renameCategory(renaming.name, to);
+      setRenaming(null);
+      setSelected(prev => prev.filter(n => n !== renaming.name));
+      return `Renamed "${renaming.name}" to "${category.name}" on ${itemCount(category.itemCount)}`;
+    }, "Failed to rename the category");
+  };
+
+  const merge = () => {
+    const into = mergeTarget.trim() || selected[0];
+    run(async () => {
+      const category = await categoriesApi.mergeCategories(selected, into);
+      setSelected([]);
+      setMergeTarget('');
+      return `Merged ${selected.length} categories into "${category.name}"`;
+    }, "Failed to merge the categories");
+  };
+
+  const remove = (category: Category) => run(async () => {
+    await categoriesApi.deleteCategory(category.name);
+    setSelected(prev => prev.filter(n => n !== category.name));
+    return `Deleted "${category.name}"`;
+  }, "Failed to delete the category");
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Categories</h2>
+            <p className="text-sm text-stone-500">Renaming or merging updates every item in the category.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto">
+          <div className="flex gap-2 mb-2">
+            <input
+              type="text"
+              value={newName}
+              placeholder="New category"
+              maxLength={MAX_CATEGORY_LENGTH}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && add()}
+              className={inputClassName}
+            />
+            <button
+              onClick={add}
+              disabled={isWorking || !newName.trim()}
+              className="p-2 rounded-xl text-stone-500 hover:bg-stone-100 disabled:opacity-30"
+              title="Add category"
+              aria-label="Add category"
+            >
+              <Plus size={18} />
+            </button>
+          </div>
+
+          {categories.length === 0 ? (
+            <p className="py-12 text-center text-stone-400 text-sm">No categories yet. They are added as items are saved.</p>
+          ) : (
+            <ul className="divide-y divide-stone-100">
+              {categories.map(category => (
+                <li key={category.name} className="py-2 flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(category.name)}
+                    onChange={() => toggle(category.name)}
+                    className="w-4 h-4 accent-emerald-600 cursor-pointer"
+                    aria-label={`Select ${category.name}`}
+                  />
+                  {renaming?.name === category.name ? (
+                    <>
+                      <input
+                        autoFocus
+                        type="text"
+                        value={renaming.draft}
+                        maxLength={MAX_CATEGORY_LENGTH}
+                        onChange={(e) => setRenaming({ ...renaming, draft: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') rename();
+                          if (e.key === 'Escape') {
+                            // Cancels the rename without closing the dialog
+                            e.preventDefault();
+                            setRenaming(null);
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                      <button
+                        onClick={rename}
+                        disabled={isWorking}
+                        className="p-2 text-stone-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all disabled:opacity-40"
+                        title="Save name"
+                        aria-label="Save name"
+                      >
+                        <Check size={18} />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-bold truncate">{category.name}</div>
+                        <div className="text-xs text-stone-500">{itemCount(category.itemCount)}</div>
+                      </div>
+                      <button
+                        onClick={() => setRenaming({ name: category.name, draft: category.name })}
+                        disabled={isWorking}
+                        className="p-2 text-stone-400 hover:text-stone-900 hover:bg-stone-100 rounded-lg transition-all disabled:opacity-40"
+                        title="Rename"
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                      <button
+                        onClick={() => remove(category)}
+                        disabled={isWorking || category.itemCount > 0}
+                        className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-stone-400"
+                        title={category.itemCount > 0 ? "Still in use; merge it into another category instead" : "Delete"}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {selected.length > 1 && (
+          <div className="p-6 bg-stone-50 space-y-3">
+            <p className="text-sm text-stone-600">Merge {selected.length} categories into one:</p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                list="category-merge-targets"
+                value={mergeTarget}
+                placeholder={selected[0]}
+                maxLength={MAX_CATEGORY_LENGTH}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                className={inputClassName}
+              />
+              <datalist id="category-merge-targets">
+                {selected.map(name => <option key={name} value={name} />)}
+              </datalist>
+              <button
+                onClick={merge}
+                disabled={isWorking}
+                className="px-6 py-2 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all disabled:opacity-40 flex items-center gap-2 shrink-0"
+              >
+                <Merge size={16} />
+                Merge
+              </button>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+
+interface CategoryPickerProps {
+  value: string;
+  categories: string[];
+  onChange: (category: string) => void;
+  className?: string;
+  id?: string; // for a label to point at, whichever control is showing
+}
+
+const NEW_CATEGORY = '__new__';
+
+/** Picks from the category taxonomy, with a way out to type a new one. */
+export default function CategoryPicker({ value, categories, onChange, className = '', id }: CategoryPickerProps) {
+  const [isTyping, setIsTyping] = useState(false);
+  // Shown under the taxonomy's own spelling, which is how the server will store it
+  const match = categories.find(category => category.toLowerCase() === value.trim().toLowerCase());
+
+  if (isTyping) {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          autoFocus
+          id={id}
+          type="text"
+          value={value}
+          placeholder="New category"
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Escape') return;
+            // Back to the list, leaving the dialog open
+            e.preventDefault();
+            setIsTyping(false);
+          }}
+          className={className}
+        />
+        <button
+          onClick={() => setIsTyping(false)}
+          className="p-1 text-stone-400 hover:text-stone-900 rounded-full"
+          title="Back to the list"
+          aria-label="Back to the list"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      id={id}
+      value={match ?? value}
+      onChange={(e) => {
+        if (e.target.value === NEW_CATEGORY) {
+          setIsTyping(true);
+          onChange('');
+        } else {
+          onChange(e.target.value);
+        }
+      }}
+      className={className}
+    >
+      <option value="">Uncategorized</option>
+      {/* e.g. a category the AI suggested; it joins the taxonomy when the item is saved */}
+      {value && !match && <option value={value}>{value} (new)</option>}
+      {categories.map(category => <option key={category} value={category}>{category}</option>)}
+      <option value={NEW_CATEGORY}>New category…</option>
+    </select>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useId, useState } from 'react';
+import { X, Edit2, Plus, Trash2, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { Collection, CostBasisRule, ExportFormatId, Settings } from '../types';
+import * as collectionsApi from '../services/collectionsApi';
+import { COMMON_CURRENCIES, formatMoney } from '../lib/currency';
+import { EXPORT_FORMATS } from '../lib/export';
+import { generateId } from '../lib/id';
+import {
+  COST_BASIS_RULE_LABELS,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_EXPORT_SETTINGS,
+  MAX_COLLECTION_NAME_LENGTH,
+  MAX_DESCRIPTION_FOOTER_LENGTH
+} from '../lib/collections';
+import { FieldError, inputClassName, labelClassName } from './ItemDetailsFields';
+
+interface CollectionsModalProps {
+  collections: Collection[];
+  settings: Settings;
+  // The caller reloads the collections and reports the change
+  onChanged: (message: string) => Promise<void>;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+type Draft = collectionsApi.CollectionFields & { isNew: boolean };
+
+const newDraft = (currency: string): Draft => ({
+  id: generateId(),
+  name: '',
+  currency,
+  costBasisRule: { kind: 'manual' },
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  createdAt: Date.now(),
+  isNew: true
+});
+
+const itemCount = (count: number) => `${count} item${count === 1 ? '' : 's'}`;
+
+const describeRule = (rule: CostBasisRule, currency: string) => {
+  switch (rule.kind) {
+    case 'fixed':
+      return `Cost basis ${formatMoney(rule.amount, currency)} each`;
+    case 'percent':
+      return `Cost basis ${rule.percent}% of the estimate`;
+    default:
+      return "Cost basis entered by hand";
+  }
+};
+
+const draftErrors = (draft: Draft) => {
+  const errors: { name?: string; rule?: string } = {};
+  if (!draft.name.trim()) errors.name = "Give the collection a name";
+  const rule = draft.costBasisRule;
+  if (rule.kind === 'fixed' && !(rule.amount >= 0)) errors.rule = "Enter an amount of zero or more";
+  if (rule.kind === 'percent' && !(rule.percent >= 0 && rule.percent <= 100)) errors.rule = "Enter a percentage from 0 to 100";
+  return errors;
+};
+
+/** Lists the collections and edits one at a time: its name, currency, cost-basis rule and export defaults. */
+export default function CollectionsModal({ collections, settings, onChanged, onError, onClose }: CollectionsModalProps) {
+  const dialog = useDialog(onClose);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const idPrefix = useId();
+  const fieldId = (name: string) => `${idPrefix}-${name}`;
+  const errors = draft ? draftErrors(draft) : {};
+  const currencyOptions = [...new Set([...COMMON_CURRENCIES, ...Object.keys(settings.exchangeRates), draft?.currency ?? settings.homeCurrency])].sort();
+
+  const run = async (action: () => Promise<string>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await onChanged(await action());
+    } catch (error) {
+      console.error(error);
+      onError(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const setRuleKind = (kind: CostBasisRule['kind']) => {
+    if (!draft) return;
+    const costBasisRule: CostBasisRule = kind === 'fixed' ? { kind, amount: 0 } : kind === 'percent' ? { kind, percent: 30 } : { kind };
+    setDraft({ ...draft, costBasisRule });
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || Object.keys(errors).length > 0) return;
+    const { isNew, ...fields } = draft;
+    const collection = { ...fields, name: fields.name.trim() };
+    run(async () => {
+      const saved = isNew ? await collectionsApi.createCollection(collection) : await collectionsApi.updateCollection(collection);
+      setDraft(null);
+      return isNew ? `Added "${saved.name}"` : `Saved "${saved.name}"`;
+    }, "Failed to save the collection");
+  };
+
+  const remove = (collection: Collection) => {
+    if (!window.confirm(`Delete the collection "${collection.name}"?`)) return;
+    run(async () => {
+      await collectionsApi.deleteCollection(collection.id);
+      return `Deleted "${collection.name}"`;
+    }, "Failed to delete the collection");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Collections</h2>
+            <p className="text-sm text-stone-500">Each collection keeps its own items, currency and export defaults.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto">
+          {draft ? (
+            <form onSubmit={save} className="space-y-4">
+              <div className="space-y-1">
+                <label htmlFor={fieldId('name')} className={labelClassName}>Name</label>
+                <input
+                  id={fieldId('name')}
+                  autoFocus
+                  type="text"
+                  value={draft.name}
+                  maxLength={MAX_COLLECTION_NAME_LENGTH}
+                  placeholder="e.g. Estate sale, Vintage cameras"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className={inputClassName}
+                />
+                <FieldError message={errors.name} />
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('currency')} className={labelClassName}>Currency</label>
+                <select
+                  id={fieldId('currency')}
+                  value={draft.currency}
+                  disabled={draft.id === DEFAULT_COLLECTION_ID}
+                  onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                  className={`${inputClassName} disabled:opacity-60`}
+                >
+                  {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+                <p className="text-xs text-stone-400">
+                  {draft.id === DEFAULT_COLLECTION_ID
+                    ? "It uses the home currency, which is changed in Settings."
+                    : "New items are priced in it, and the collection's totals are shown in it."}
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('cost-basis')} className={labelClassName}>Cost Basis for New Items</label>
+                <div className="flex gap-3">
+                  <select
+                    id={fieldId('cost-basis')}
+                    value={draft.costBasisRule.kind}
+                    onChange={(e) => setRuleKind(e.target.value as CostBasisRule['kind'])}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(COST_BASIS_RULE_LABELS) as CostBasisRule['kind'][]).map(kind => (
+                      <option key={kind} value={kind}>{COST_BASIS_RULE_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  {draft.costBasisRule.kind === 'fixed' && (
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={draft.costBasisRule.amount}
+                      onChange={(e) => setDraft({ ...draft, costBasisRule: { kind: 'fixed', amount: Number(e.target.value) } })}
+                      className={`${inputClassName} w-32`}
+                      aria-label={`Cost basis in ${draft.currency}`}
+                    />
+                  )}
+                  {draft.costBasisRule.kind === 'percent' && (
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="any"
+                      value={draft.costBasisRule.percent}
+                      onChange={(e) => setDraft({ ...draft, costBasisRule: { kind: 'percent', percent: Number(e.target.value) } })}
+                      className={`${inputClassName} w-32`}
+                      aria-label="Cost basis as a percentage of the estimate"
+                    />
+                  )}
+                </div>
+                <FieldError message={errors.rule} />
+                <p className="text-xs text-stone-400">Filled in when an item is added; items that already have a cost basis keep it.</p>
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('format')} className={labelClassName}>Export Format</label>
+                <select
+                  id={fieldId('format')}
+                  value={draft.exportSettings.format}
+                  onChange={(e) => setDraft({ ...draft, exportSettings: { ...draft.exportSettings, format: e.target.value as ExportFormatId } })}
+                  className={inputClassName}
+                >
+                  {Object.values(EXPORT_FORMATS).map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+                </select>
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('footer')} className={labelClassName}>Description Footer</label>
+                <textarea
+                  id={fieldId('footer')}
+                  rows={3}
+                  value={draft.exportSettings.descriptionFooter}
+                  maxLength={MAX_DESCRIPTION_FOOTER_LENGTH}
+                  placeholder="Added to the end of every exported description, e.g. shipping or returns terms"
+                  onChange={(e) => setDraft({ ...draft, exportSettings: { ...draft.exportSettings, descriptionFooter: e.target.value } })}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-sm font-medium hover:bg-stone-100 transition-all">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isWorking || Object.keys(errors).length > 0}
+                  className="px-6 py-2 bg-stone-900 text-white rounded-xl text-sm font-bold hover:bg-stone-800 transition-all disabled:opacity-40 flex items-center gap-2"
+                >
+                  {isWorking && <Loader2 size={14} className="animate-spin" />}
+                  {draft.isNew ? 'Add Collection' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <ul className="divide-y divide-stone-100">
+                {collections.map(collection => {
+                  const isDefault = collection.id === DEFAULT_COLLECTION_ID;
+                  return (
+                    <li key={collection.id} className="py-3 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-bold truncate">
+                          {collection.name}
+                          <span className="ml-2 text-xs font-medium text-stone-400">{collection.currency}</span>
+                        </div>
+                        <div className="text-xs text-stone-500">
+                          {itemCount(collection.itemCount)} · {describeRule(collection.costBasisRule, collection.currency)} · {EXPORT_FORMATS[collection.exportSettings.format].label}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setDraft({ ...collection, isNew: false })}
+                        disabled={isWorking}
+                        className="p-2 text-stone-400 hover:text-stone-900 hover:bg-stone-100 rounded-lg transition-all disabled:opacity-40"
+                        title="Edit"
+                        aria-label={`Edit ${collection.name}`}
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                      <button
+                        onClick={() => remove(collection)}
+                        disabled={isWorking || isDefault || collection.itemCount > 0}
+                        className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-stone-400"
+                        title={isDefault ? "The default collection can't be deleted" : collection.itemCount > 0 ? "Move its items to another collection first" : "Delete"}
+                        aria-label={`Delete ${collection.name}`}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <button
+                onClick={() => setDraft(newDraft(settings.homeCurrency))}
+                className="mt-2 text-sm font-medium text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+              >
+                <Plus size={14} />
+                New collection
+              </button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
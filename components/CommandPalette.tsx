@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { SHORTCUT_HELP, formatShortcut } from '../lib/shortcuts';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Extra words it should be found by
+  keywords?: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+// Every word typed has to appear somewhere in the label or keywords
+const matches = (command: PaletteCommand, search: string) => {
+  const haystack = `${command.label} ${command.keywords ?? ''}`.toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+const kbdClassName = "px-1.5 py-0.5 rounded-md bg-stone-100 border border-stone-200 text-[10px] font-mono text-stone-500 whitespace-nowrap";
+
+/** Runs any app command by name, and lists the keyboard shortcuts. */
+export default function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const dialog = useDialog(onClose);
+  const [search, setSearch] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const results = commands.filter(command => matches(command, search));
+  const active = Math.min(activeIndex, results.length - 1);
+  const listId = `${dialog.titleId}-commands`;
+  const optionId = (index: number) => `${listId}-${index}`;
+
+  const run = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const next = (active + step + results.length) % results.length;
+      setActiveIndex(next);
+      document.getElementById(optionId(next))?.scrollIntoView({ block: 'nearest' });
+    } else if (e.key === 'Enter' && results[active]) {
+      e.preventDefault();
+      run(results[active]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center bg-stone-900/60 backdrop-blur-sm p-4 pt-[15vh]">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: -20, opacity: 0 }}
+        className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[70vh] focus:outline-none"
+      >
+        <h2 id={dialog.titleId} className="sr-only">Command palette</h2>
+        <div className="p-4 border-b border-stone-100 flex items-center gap-3">
+          <Search size={18} className="text-stone-400 shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={search}
+            placeholder="Type a command…"
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-expanded
+            aria-controls={listId}
+            aria-activedescendant={results[active] ? optionId(active) : undefined}
+            aria-autocomplete="list"
+            aria-label="Command"
+            className="flex-1 bg-transparent focus:outline-none"
+          />
+        </div>
+
+        <div className="overflow-y-auto">
+          <ul id={listId} role="listbox" aria-label="Commands" className="p-2">
+            {results.map((command, index) => (
+              <li
+                key={command.id}
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === active}
+                onClick={() => run(command)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={`px-4 py-2.5 rounded-xl flex items-center justify-between gap-3 text-sm cursor-pointer ${
+                  index === active ? 'bg-emerald-50 text-emerald-900' : 'text-stone-700'
+                }`}
+              >
+                <span className="truncate">{command.label}</span>
+                {command.shortcut && <kbd className={kbdClassName}>{formatShortcut(command.shortcut)}</kbd>}
+              </li>
+            ))}
+          </ul>
+          {results.length === 0 && <p className="px-6 py-8 text-center text-sm text-stone-400">No commands match "{search}"</p>}
+
+          {!search && (
+            <div className="px-6 py-4 border-t border-stone-100 space-y-4">
+              {SHORTCUT_HELP.map(group => (
+                <section key={group.title}>
+                  <h3 className="text-xs font-bold text-stone-400 uppercase mb-2">{group.title}</h3>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+                    {group.shortcuts.map(({ keys, description }) => (
+                      <React.Fragment key={description}>
+                        <dt className="flex gap-1">
+                          {keys.map(key => <kbd key={key} className={kbdClassName}>{formatShortcut(key)}</kbd>)}
+                        </dt>
+                        <dd className="text-stone-600">{description}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { FileSpreadsheet, AlertCircle, Copy, Loader2 } from 'lucide-react';
+import { InventoryItem } from '../types';
+import { parseCsv } from '../lib/csv';
+import { formatMoney } from '../lib/currency';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportRows, guessMapping } from '../lib/csvImport';
+
+interface CsvImportPanelProps {
+  inventory: InventoryItem[];
+  homeCurrency: string; // for rows without a currency column
+  onImport: (items: InventoryItem[]) => Promise<void>;
+}
+
+export default function CsvImportPanel({ inventory, homeCurrency, onImport }: CsvImportPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Lines the user has opted in or out of, overriding the default (duplicates off, the rest on)
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [parseError, setParseError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    setFileName(file.name);
+    setOverrides({});
+    if (rows.length < 2) {
+      setParseError("The file needs a header row and at least one item row.");
+      setHeaders([]);
+      setDataRows([]);
+      return;
+    }
+    setParseError('');
+    setHeaders(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping(guessMapping(rows[0]));
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const rows = mapping.item_name === undefined ? [] : buildImportRows(dataRows, mapping, inventory, homeCurrency);
+  const isIncluded = (line: number, hasErrors: boolean, isDuplicate: boolean) =>
+    !hasErrors && (overrides[line] ?? !isDuplicate);
+  const selected = rows.filter(row => isIncluded(row.line, row.errors.length > 0, !!row.duplicateOf));
+  const duplicateCount = rows.filter(row => row.duplicateOf).length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(selected.map(row => row.item));
+      setHeaders([]);
+      setDataRows([]);
+      setFileName('');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="flex items-center gap-3 p-4 rounded-2xl border-2 border-dashed border-stone-200 hover:border-emerald-500 cursor-pointer transition-all">
+        <FileSpreadsheet className="text-stone-400" size={24} />
+        <div className="text-sm">
+          <div className="font-bold">{fileName || 'Choose a CSV file'}</div>
+          <div className="text-stone-500">Export your spreadsheet as CSV with a header row.</div>
+        </div>
+        <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+      </label>
+
+      {parseError && (
+        <p className="text-sm text-red-600 flex items-center gap-2"><AlertCircle size={16} /> {parseError}</p>
+      )}
+
+      {headers.length > 0 && (
+        <>
+          <div>
+            <h3 className="text-sm font-bold mb-3">Match your columns</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="space-y-1">
+                  <span className="text-xs font-bold text-stone-400 uppercase">{label}{required && ' *'}</span>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setColumn(field, e.target.value)}
+                    className="w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                  >
+                    <option value="">— Don't import —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {mapping.item_name === undefined ? (
+            <p className="text-sm text-stone-500">Choose the column that holds item names to preview the import.</p>
+          ) : (
+            <div>
+              <h3 className="text-sm font-bold mb-1">Preview</h3>
+              <p className="text-xs text-stone-500 mb-3">
+                {selected.length} of {rows.length} rows selected{duplicateCount > 0 && ` · ${duplicateCount} look like duplicates and are unticked`}
+              </p>
+              <ul className="divide-y divide-stone-100 border border-stone-200 rounded-2xl max-h-72 overflow-y-auto">
+                {rows.map(row => {
+                  const hasErrors = row.errors.length > 0;
+                  return (
+                    <li key={row.line} className={`p-3 flex items-start gap-3 text-sm ${hasErrors ? 'bg-red-50/50' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={isIncluded(row.line, hasErrors, !!row.duplicateOf)}
+                        disabled={hasErrors}
+                        onChange={(e) => setOverrides({ ...overrides, [row.line]: e.target.checked })}
+                        className="mt-1 accent-emerald-600"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">
+                          {row.item.item_name || <span className="text-stone-400">Untitled</span>}
+                          <span className="text-stone-400 font-normal"> · line {row.line}</span>
+                        </div>
+                        <div className="text-xs text-stone-500">
+                          {row.item.category || 'Uncategorized'} · {formatMoney(row.item.estimated_value, row.item.currency)}
+                        </div>
+                        {row.duplicateOf && (
+                          <div className="text-xs text-amber-700 flex items-center gap-1 mt-1">
+                            <Copy size={12} />
+                            {row.duplicateOf.source === 'inventory'
+                              ? `Already in inventory as "${row.duplicateOf.name}"`
+                              : `Repeats an earlier row in this file`}
+                          </div>
+                        )}
+                        {row.errors.map((error, i) => (
+                          <div key={i} className="text-xs text-red-600 flex items-center gap-1 mt-1">
+                            <AlertCircle size={12} /> {error}
+                          </div>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={selected.length === 0 || isImporting}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-stone-900"
+          >
+            {isImporting && <Loader2 size={18} className="animate-spin" />}
+            Import {selected.length} item{selected.length === 1 ? '' : 's'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
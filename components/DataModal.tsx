@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { X, Download, Upload, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem } from '../types';
+import { BACKUP_URL, RestoreMode, restoreBackup } from '../services/backupApi';
+import CsvImportPanel from './CsvImportPanel';
+
+interface DataModalProps {
+  inventory: InventoryItem[];
+  homeCurrency: string;
+  onImportCsv: (items: InventoryItem[]) => Promise<void>;
+  onRestored: (restored: number, skipped: number) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+type Tab = 'backup' | 'import';
+
+export default function DataModal({ inventory, homeCurrency, onImportCsv, onRestored, onError, onClose }: DataModalProps) {
+  const dialog = useDialog(onClose);
+  const [tab, setTab] = useState<Tab>('backup');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const replacePrompt = `Replace all ${inventory.length} items with the contents of ${file.name}? `
+      + "The trash is emptied too, so anything in it is deleted for good. This can't be undone.";
+    if (restoreMode === 'replace' && !window.confirm(replacePrompt)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const { restored, skipped } = await restoreBackup(file, restoreMode);
+      onRestored(restored, skipped);
+    } catch (error) {
+      console.error(error);
+      onError(error instanceof Error ? error.message : "Restore failed");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <h2 id={dialog.titleId} className="sr-only">Backup, restore and import</h2>
+          <div className="flex gap-2">
+            {([['backup', 'Backup & Restore'], ['import', 'Import CSV']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={`px-4 py-1.5 rounded-full text-sm font-bold transition-all ${
+                  tab === id ? 'bg-stone-900 text-white' : 'text-stone-500 hover:bg-stone-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {tab === 'backup' ? (
+            <div className="space-y-8">
+              <section className="space-y-3">
+                <h3 className="font-bold">Download a backup</h3>
+                <p className="text-sm text-stone-500">
+                  A zip with every item and its photos. Keep it somewhere safe, or use it to move your inventory to another machine.
+                </p>
+                <a
+                  href={BACKUP_URL}
+                  download
+                  className="inline-flex items-center gap-2 bg-stone-900 text-white px-5 py-2.5 rounded-full font-bold hover:bg-stone-800 transition-all"
+                >
+                  <Download size={18} />
+                  Download backup
+                </a>
+              </section>
+
+              <section className="space-y-3">
+                <h3 className="font-bold">Restore from a backup</h3>
+                <p className="text-sm text-stone-500">
+                  Accepts backup zips from any version of ResaleReady, as well as the JSON inventory older versions kept in the browser.
+                </p>
+                <div className="flex gap-4 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} className="accent-emerald-600" />
+                    Add missing items
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} className="accent-emerald-600" />
+                    Replace everything, emptying the trash
+                  </label>
+                </div>
+                <label className={`inline-flex items-center gap-2 border border-stone-200 px-5 py-2.5 rounded-full font-bold transition-all ${
+                  isRestoring ? 'opacity-50 pointer-events-none' : 'hover:bg-stone-100 cursor-pointer'
+                }`}>
+                  {isRestoring ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+                  {isRestoring ? 'Restoring...' : 'Choose backup file'}
+                  <input type="file" accept=".zip,.json,application/zip,application/json" onChange={handleRestore} className="hidden" />
+                </label>
+              </section>
+            </div>
+          ) : (
+            <CsvImportPanel inventory={inventory} homeCurrency={homeCurrency} onImport={onImportCsv} />
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
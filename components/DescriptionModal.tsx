@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { X, Loader2, Sparkles, Check } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { DescriptionOptions, InventoryItem } from '../types';
+import { generateDescriptions } from '../services/analysisApi';
+import {
+  DEFAULT_DESCRIPTION_OPTIONS,
+  DESCRIPTION_LENGTHS,
+  DESCRIPTION_LENGTH_LABELS,
+  DESCRIPTION_PLATFORMS,
+  DESCRIPTION_TONES,
+  DESCRIPTION_TONE_LABELS,
+  parseKeywords
+} from '../lib/descriptions';
+
+interface DescriptionModalProps {
+  item: InventoryItem;
+  onUse: (description: string) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+const labelClassName = "text-xs font-bold text-stone-400 uppercase";
+
+const pillClassName = (active: boolean) =>
+  `flex-1 px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+    active ? 'bg-stone-900 text-white' : 'bg-stone-50 border border-stone-200 text-stone-600 hover:bg-stone-100'
+  }`;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export default function DescriptionModal({ item, onUse, onClose }: DescriptionModalProps) {
+  const dialog = useDialog(onClose);
+  const [options, setOptions] = useState<DescriptionOptions>(DEFAULT_DESCRIPTION_OPTIONS);
+  const [keywordText, setKeywordText] = useState('');
+  const [variants, setVariants] = useState<string[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<DescriptionOptions>) => setOptions({ ...options, ...patch });
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await generateDescriptions(item.id, { ...options, keywords: parseKeywords(keywordText) });
+      setVariants(result.variants);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Couldn't write new descriptions");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-5xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Rewrite Description</h2>
+            <p className="text-sm text-stone-500">{item.item_name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 space-y-6 overflow-y-auto">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <span className={labelClassName}>Tone</span>
+              <div className="flex gap-2">
+                {DESCRIPTION_TONES.map(tone => (
+                  <button key={tone} onClick={() => update({ tone })} className={pillClassName(options.tone === tone)}>
+                    {DESCRIPTION_TONE_LABELS[tone]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <span className={labelClassName}>Length</span>
+              <div className="flex gap-2">
+                {DESCRIPTION_LENGTHS.map(length => (
+                  <button key={length} onClick={() => update({ length })} className={pillClassName(options.length === length)}>
+                    {DESCRIPTION_LENGTH_LABELS[length]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="space-y-1">
+              <span className={labelClassName}>Platform</span>
+              <input
+                list="description-platforms"
+                value={options.platform}
+                placeholder="Any"
+                onChange={(e) => update({ platform: e.target.value })}
+                className={inputClassName}
+              />
+              <datalist id="description-platforms">
+                {DESCRIPTION_PLATFORMS.map(platform => <option key={platform} value={platform} />)}
+              </datalist>
+            </label>
+            <label className="space-y-1">
+              <span className={labelClassName}>Keywords</span>
+              <input
+                value={keywordText}
+                placeholder="e.g. mid-century, gift idea"
+                onChange={(e) => setKeywordText(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className={labelClassName}>Current</span>
+            <p className="text-sm text-stone-600 bg-stone-50 rounded-xl px-4 py-3">
+              {item.suggested_description || <span className="text-stone-400">No description yet.</span>}
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {variants.length > 0 && (
+            <div className="grid md:grid-cols-3 gap-4">
+              {variants.map((variant, index) => (
+                <div key={index} className="flex flex-col border border-stone-200 rounded-2xl p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={labelClassName}>Variant {index + 1}</span>
+                    <span className="text-xs text-stone-400">{wordCount(variant)} words</span>
+                  </div>
+                  <p className="text-sm text-stone-700 flex-1 whitespace-pre-line">{variant}</p>
+                  <button
+                    onClick={() => onUse(variant)}
+                    className="mt-4 py-2 rounded-xl font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Check size={16} />
+                    Use This
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-stone-50 flex gap-3">
+          <button
+            onClick={generate}
+            disabled={isGenerating}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all disabled:opacity-60 flex items-center justify-center gap-2"
+          >
+            {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Sparkles size={18} />}
+            {variants.length > 0 ? 'Generate Again' : 'Generate Variants'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem, ItemStatus, Settings } from '../types';
+import {
+  STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  formatPercent,
+  isSoldStatus,
+  itemMargin,
+  itemProfit,
+  withStatus
+} from '../lib/lifecycle';
+import { formatMoney } from '../lib/currency';
+import { processPhoto } from '../lib/imagePipeline';
+import { MAX_PHOTOS_PER_ITEM } from '../lib/photos';
+import { hasErrors, validateItem } from '../lib/itemForm';
+import PhotoGallery from './PhotoGallery';
+import ItemChangeLog from './ItemChangeLog';
+import PriceHistoryPanel from './PriceHistoryPanel';
+import ItemDetailsFields, { FieldError, inputClassName, labelClassName, parseOptionalAmount } from './ItemDetailsFields';
+
+interface EditItemModalProps {
+  item: InventoryItem;
+  originalStatus: ItemStatus;
+  categories: string[];
+  locations: string[]; // storage locations already in use, offered as suggestions
+  settings: Settings;
+  onChange: (item: InventoryItem) => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+interface MoneyFieldProps {
+  label: string;
+  value: number | null;
+  error?: string;
+  onChange: (value: number | null) => void; // null when the field is cleared
+}
+
+const MoneyField = ({ label, value, error, onChange }: MoneyFieldProps) => {
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className={labelClassName}>{label}</label>
+      <input
+        id={id}
+        type="number"
+        min={0}
+        step="0.01"
+        value={value ?? ''}
+        onChange={(e) => onChange(parseOptionalAmount(e.target.value))}
+        className={inputClassName}
+      />
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+export default function EditItemModal({ item, originalStatus, categories, locations, settings, onChange, onSave, onClose }: EditItemModalProps) {
+  const dialog = useDialog(onClose);
+  const statusOptions = [originalStatus, ...STATUS_TRANSITIONS[originalStatus]];
+  const profit = itemProfit(item);
+  const errors = validateItem(item);
+  const isInvalid = hasErrors(errors);
+  const money = (label: string) => `${label} (${item.currency})`;
+  const [photoError, setPhotoError] = useState<string>();
+  const idPrefix = useId();
+  const fieldId = (name: string) => `${idPrefix}-${name}`;
+
+  const readPhotos = async (files: File[]) => {
+    setPhotoError(undefined);
+    try {
+      return await Promise.all(files.map(processPhoto));
+    } catch (error) {
+      setPhotoError(error instanceof Error ? error.message : "Couldn't read that photo");
+      return null;
+    }
+  };
+
+  const addPhotos = async (files: File[]) => {
+    const added = await readPhotos(files);
+    if (added) onChange({ ...item, photos: [...item.photos, ...added].slice(0, MAX_PHOTOS_PER_ITEM) });
+  };
+
+  const replacePhoto = async (index: number, file: File) => {
+    const [photo] = (await readPhotos([file])) ?? [];
+    if (photo) onChange({ ...item, photos: item.photos.map((existing, i) => i === index ? photo : existing) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <h2 id={dialog.titleId} className="text-xl font-bold">Edit Item</h2>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <PhotoGallery
+            photos={item.photos}
+            alt={item.item_name}
+            onReorder={(order) => onChange({ ...item, photos: order.map(index => item.photos[index]) })}
+            onAdd={addPhotos}
+            onReplace={replacePhoto}
+          />
+          <FieldError message={photoError} />
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <label htmlFor={fieldId('status')} className={labelClassName}>Status</label>
+              <select
+                id={fieldId('status')}
+                value={item.status}
+                onChange={(e) => onChange(withStatus(item, e.target.value as ItemStatus))}
+                className={inputClassName}
+              >
+                {statusOptions.map(status => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('quantity')} className={labelClassName}>Quantity</label>
+              <input
+                id={fieldId('quantity')}
+                type="number"
+                min={1}
+                step={1}
+                value={item.quantity}
+                onChange={(e) => onChange({ ...item, quantity: parseInt(e.target.value, 10) || 0 })}
+                className={inputClassName}
+                title="Identical units in this lot; prices are per unit"
+              />
+              <FieldError message={errors.quantity} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClassName}>Added</p>
+              <p className="px-4 py-2 text-stone-500">{new Date(item.createdAt).toLocaleDateString()}</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label htmlFor={fieldId('sku')} className={labelClassName}>SKU</label>
+              <input
+                id={fieldId('sku')}
+                type="text"
+                value={item.sku}
+                onChange={(e) => onChange({ ...item, sku: e.target.value })}
+                placeholder="Assigned on save"
+                className={`${inputClassName} font-mono`}
+              />
+              <FieldError message={errors.sku} />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('location')} className={labelClassName}>Location</label>
+              <input
+                id={fieldId('location')}
+                type="text"
+                list={fieldId('locations')}
+                value={item.location}
+                onChange={(e) => onChange({ ...item, location: e.target.value })}
+                placeholder="e.g. Bin 12, Garage shelf B"
+                className={inputClassName}
+              />
+              <datalist id={fieldId('locations')}>
+                {locations.map(location => <option key={location} value={location} />)}
+              </datalist>
+              <FieldError message={errors.location} />
+            </div>
+          </div>
+
+          <ItemDetailsFields
+            item={item}
+            errors={errors}
+            categories={categories}
+            onChange={(patch) => onChange({ ...item, ...patch })}
+          />
+
+          <div className="pt-2 border-t border-stone-100">
+            <h3 className="text-sm font-bold mb-3">Costs & Sale</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <MoneyField
+                label={money("Cost Basis")}
+                value={item.costBasis}
+                error={errors.costBasis}
+                onChange={(costBasis) => onChange({ ...item, costBasis: costBasis ?? 0 })}
+              />
+              {isSoldStatus(item.status) && (
+                <MoneyField
+                  label={money("Sale Price")}
+                  value={item.salePrice}
+                  error={errors.salePrice}
+                  onChange={(salePrice) => onChange({ ...item, salePrice })}
+                />
+              )}
+              <MoneyField
+                label={money("Platform Fees")}
+                value={item.platformFees}
+                error={errors.platformFees}
+                onChange={(platformFees) => onChange({ ...item, platformFees: platformFees ?? 0 })}
+              />
+              <MoneyField
+                label={money("Shipping")}
+                value={item.shippingCost}
+                error={errors.shippingCost}
+                onChange={(shippingCost) => onChange({ ...item, shippingCost: shippingCost ?? 0 })}
+              />
+            </div>
+            {profit !== null && (
+              <div className="mt-4 flex justify-between text-sm bg-stone-50 rounded-xl px-4 py-3">
+                <span className="text-stone-500">Profit</span>
+                <span className={`font-mono font-bold ${profit < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {formatMoney(profit, item.currency)} ({formatPercent(itemMargin(item))})
+                </span>
+              </div>
+            )}
+          </div>
+
+          <PriceHistoryPanel item={item} settings={settings} onChange={onChange} />
+
+          <ItemChangeLog itemId={item.id} currency={item.currency} />
+        </div>
+        <div className="p-6 bg-stone-50 space-y-2">
+          {isInvalid && <p className="text-xs text-red-600">Fix the fields marked in red before saving.</p>}
+          <button
+            onClick={onSave}
+            disabled={isInvalid}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all disabled:opacity-50 disabled:hover:bg-stone-900"
+          >
+            Save Changes
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
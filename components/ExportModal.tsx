@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { X, Download, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem } from '../types';
+import { EXPORT_FORMATS, ExportFormatId, ExportIssue, exportFileName, prepareExport } from '../lib/export';
+import { downloadFile } from '../lib/files';
+import { withDescriptionFooter } from '../lib/collections';
+
+interface ExportModalProps {
+  items: InventoryItem[];
+  // The collection's export defaults
+  defaultFormat: ExportFormatId;
+  descriptionFooter: string;
+  onExported: (count: number) => void;
+  onClose: () => void;
+}
+
+export default function ExportModal({ items, defaultFormat, descriptionFooter, onExported, onClose }: ExportModalProps) {
+  const dialog = useDialog(onClose);
+  const [formatId, setFormatId] = useState<ExportFormatId>(defaultFormat);
+  const format = EXPORT_FORMATS[formatId];
+  const context = { imageBaseUrl: window.location.origin };
+  const { ready, issues, blockedCount } = prepareExport(format, withDescriptionFooter(items, descriptionFooter), context);
+
+  const issuesByItem = new Map<string, ExportIssue[]>();
+  issues.forEach(issue => issuesByItem.set(issue.itemId, [...(issuesByItem.get(issue.itemId) ?? []), issue]));
+
+  const handleDownload = () => {
+    downloadFile(exportFileName(format), format.serialize(ready, context), format.mimeType);
+    onExported(ready.length);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Export Listings</h2>
+            <p className="text-xs text-stone-500">
+              {items.length} item{items.length === 1 ? '' : 's'} selected
+              {descriptionFooter.trim() && ' · descriptions end with the collection footer'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {Object.values(EXPORT_FORMATS).map(candidate => (
+              <button
+                key={candidate.id}
+                onClick={() => setFormatId(candidate.id)}
+                className={`text-left p-4 rounded-2xl border transition-all ${
+                  candidate.id === formatId ? 'border-emerald-500 ring-2 ring-emerald-500/20 bg-emerald-50/50' : 'border-stone-200 hover:bg-stone-50'
+                }`}
+              >
+                <div className="font-bold text-sm">{candidate.label}</div>
+                <div className="text-xs text-stone-500 mt-1">{candidate.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4 text-sm">
+            <span className="flex items-center gap-1 text-emerald-700 font-medium">
+              <CheckCircle2 size={16} /> {ready.length} ready
+            </span>
+            {blockedCount > 0 && (
+              <span className="flex items-center gap-1 text-red-600 font-medium">
+                <AlertCircle size={16} /> {blockedCount} will be skipped
+              </span>
+            )}
+            {format.titleLimit && (
+              <span className="text-stone-400 ml-auto">Titles up to {format.titleLimit} characters</span>
+            )}
+          </div>
+
+          {issuesByItem.size > 0 && (
+            <ul className="divide-y divide-stone-100 border border-stone-200 rounded-2xl">
+              {items.filter(item => issuesByItem.has(item.id)).map(item => (
+                <li key={item.id} className="p-4">
+                  <div className="font-bold text-sm mb-1">{item.item_name || 'Untitled item'}</div>
+                  <ul className="space-y-1">
+                    {issuesByItem.get(item.id)!.map((issue, i) => (
+                      <li
+                        key={i}
+                        className={`text-xs flex items-start gap-1.5 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+                      >
+                        {issue.severity === 'error' ? <AlertCircle size={14} className="shrink-0" /> : <AlertTriangle size={14} className="shrink-0" />}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 bg-stone-50 flex gap-3">
+          <button
+            onClick={handleDownload}
+            disabled={ready.length === 0}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-stone-900"
+          >
+            <Download size={18} />
+            Download {ready.length} listing{ready.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
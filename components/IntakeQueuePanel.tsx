@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import {
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  RotateCcw,
+  X,
+  ChevronDown,
+  ChevronUp,
+  CloudOff
+} from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { IntakeJob, IntakeStatus } from '../types';
+
+interface IntakeQueuePanelProps {
+  jobs: IntakeJob[];
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+  onReview: () => void;
+}
+
+const STATUS_LABELS: Record<IntakeStatus, string> = {
+  queued: 'Waiting',
+  reading: 'Reading photos',
+  analyzing: 'Analyzing',
+  offline: 'Saved offline, waiting for a connection',
+  ready: 'Ready for review',
+  failed: 'Failed'
+};
+
+const StatusIcon = ({ status }: { status: IntakeStatus }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock size={16} className="text-stone-400" />;
+    case 'reading':
+    case 'analyzing':
+      return <Loader2 size={16} className="animate-spin text-emerald-600" />;
+    case 'offline':
+      return <CloudOff size={16} className="text-amber-600" />;
+    case 'ready':
+      return <CheckCircle2 size={16} className="text-emerald-600" />;
+    case 'failed':
+      return <AlertCircle size={16} className="text-red-600" />;
+  }
+};
+
+export default function IntakeQueuePanel({ jobs, onRetry, onRetryFailed, onRemove, onReview }: IntakeQueuePanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  const readyCount = jobs.filter(job => job.status === 'ready').length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const offlineCount = jobs.filter(job => job.status === 'offline').length;
+  const pendingCount = jobs.length - readyCount - failedCount - offlineCount;
+  const settledCount = readyCount + failedCount;
+
+  return (
+    <AnimatePresence>
+      {jobs.length > 0 && (
+        <motion.div
+          initial={{ y: 100, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 100, opacity: 0 }}
+          className="fixed bottom-6 left-6 z-40 w-[calc(100%-3rem)] sm:w-96 bg-white rounded-3xl border border-stone-200 shadow-2xl overflow-hidden"
+        >
+          <div className="p-4 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <h3 className="font-bold">Intake Queue</h3>
+              <p className="text-xs text-stone-500">
+                {pendingCount > 0 ? `${pendingCount} analyzing · ` : ''}{readyCount} ready
+                {offlineCount > 0 ? ` · ${offlineCount} waiting for a connection` : ''}
+                {failedCount > 0 ? ` · ${failedCount} failed` : ''}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {readyCount > 0 && (
+                <button
+                  onClick={onReview}
+                  className="bg-emerald-600 text-white px-4 py-2 rounded-full text-sm font-bold hover:bg-emerald-700 transition-all"
+                >
+                  Review ({readyCount})
+                </button>
+              )}
+              <button
+                onClick={() => setIsCollapsed(!isCollapsed)}
+                className="p-2 text-stone-400 hover:text-stone-900 hover:bg-stone-100 rounded-full transition-all"
+                title={isCollapsed ? "Expand queue" : "Collapse queue"}
+              >
+                {isCollapsed ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+              </button>
+            </div>
+          </div>
+
+          <div className="h-1 bg-stone-100">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${(settledCount / jobs.length) * 100}%` }}
+            />
+          </div>
+
+          {!isCollapsed && (
+            <>
+              <ul className="max-h-72 overflow-y-auto divide-y divide-stone-100">
+                {jobs.map(job => (
+                  <li key={job.id} className="px-4 py-3 flex items-center gap-3">
+                    {job.photos[0] ? (
+                      <img src={job.photos[0].thumbnail} alt={job.fileName} className="w-10 h-10 rounded-lg object-cover border border-stone-200" />
+                    ) : (
+                      <div className="w-10 h-10 rounded-lg bg-stone-100 border border-stone-200" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">{job.result?.item_name || job.fileName}</div>
+                      <div className={`text-xs flex items-center gap-1 ${job.status === 'failed' ? 'text-red-600' : 'text-stone-500'}`}>
+                        <StatusIcon status={job.status} />
+                        <span className="truncate">{job.status === 'failed' && job.error ? job.error : STATUS_LABELS[job.status]}</span>
+                      </div>
+                    </div>
+                    {job.status === 'failed' && (
+                      <button
+                        onClick={() => onRetry(job.id)}
+                        className="p-2 text-stone-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                        title="Retry"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRemove(job.id)}
+                      className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                      title="Remove from queue"
+                    >
+                      <X size={16} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {failedCount > 1 && (
+                <div className="p-3 bg-stone-50 border-t border-stone-100">
+                  <button
+                    onClick={onRetryFailed}
+                    className="w-full py-2 rounded-xl text-sm font-bold text-stone-600 hover:bg-stone-200 transition-all flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw size={14} />
+                    Retry all failed
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { SlidersHorizontal, Bookmark, BookmarkPlus, X } from 'lucide-react';
+import { InventoryItem, InventoryQuery, SavedView } from '../types';
+import { ITEM_STATUSES, STATUS_LABELS } from '../lib/lifecycle';
+import { DEFAULT_QUERY, countActiveFilters, isSameQuery } from '../lib/search';
+
+interface InventoryFiltersProps {
+  query: InventoryQuery;
+  inventory: InventoryItem[];
+  savedViews: SavedView[];
+  homeCurrency: string;
+  onChange: (query: InventoryQuery) => void;
+  onSaveView: (name: string) => Promise<void>;
+  onDeleteView: (view: SavedView) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+const labelClassName = "text-xs font-bold text-stone-400 uppercase";
+
+const pillClassName = (active: boolean) =>
+  `px-4 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+    active ? 'bg-stone-900 text-white' : 'bg-white border border-stone-200 text-stone-600 hover:bg-stone-100'
+  }`;
+
+const parseAmountInput = (value: string) => value === '' ? null : Number(value);
+
+export default function InventoryFilters({
+  query,
+  inventory,
+  savedViews,
+  homeCurrency,
+  onChange,
+  onSaveView,
+  onDeleteView
+}: InventoryFiltersProps) {
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [viewName, setViewName] = useState<string | null>(null);
+
+  const activeFilters = countActiveFilters(query);
+  const isDefault = isSameQuery(query, DEFAULT_QUERY);
+  const categories = [...new Set(inventory.map(item => item.category).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  const update = (patch: Partial<InventoryQuery>) => onChange({ ...query, ...patch });
+
+  const saveView = async () => {
+    const name = viewName?.trim();
+    if (!name) return;
+    await onSaveView(name);
+    setViewName(null);
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center gap-2 overflow-x-auto">
+        {(['all', ...ITEM_STATUSES] as const).map(status => {
+          const count = status === 'all' ? inventory.length : inventory.filter(item => item.status === status).length;
+          return (
+            <button key={status} onClick={() => update({ status })} className={pillClassName(query.status === status)}>
+              {status === 'all' ? 'All' : STATUS_LABELS[status]} <span className="opacity-60">{count}</span>
+            </button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-2">
+          {!isDefault && (
+            <button
+              onClick={() => onChange(DEFAULT_QUERY)}
+              className="px-3 py-1.5 rounded-full text-sm font-medium text-stone-500 hover:bg-stone-100 whitespace-nowrap transition-all"
+            >
+              Clear
+            </button>
+          )}
+          <button onClick={() => setIsPanelOpen(!isPanelOpen)} className={`${pillClassName(isPanelOpen)} flex items-center gap-2`}>
+            <SlidersHorizontal size={14} />
+            Filters
+            {activeFilters > 0 && (
+              <span className="bg-emerald-600 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">{activeFilters}</span>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {isPanelOpen && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 bg-stone-100/60 p-4 rounded-2xl">
+          <label className="space-y-1 col-span-2 md:col-span-1">
+            <span className={labelClassName}>Category</span>
+            <select value={query.category} onChange={(e) => update({ category: e.target.value })} className={inputClassName}>
+              <option value="">Any category</option>
+              {categories.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className={labelClassName}>Min Value ({homeCurrency})</span>
+            <input
+              type="number"
+              min={0}
+              value={query.minValue ?? ''}
+              onChange={(e) => update({ minValue: parseAmountInput(e.target.value) })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className={labelClassName}>Max Value ({homeCurrency})</span>
+            <input
+              type="number"
+              min={0}
+              value={query.maxValue ?? ''}
+              onChange={(e) => update({ maxValue: parseAmountInput(e.target.value) })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className={labelClassName}>Added From</span>
+            <input
+              type="date"
+              value={query.addedAfter ?? ''}
+              onChange={(e) => update({ addedAfter: e.target.value || null })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className={labelClassName}>Added To</span>
+            <input
+              type="date"
+              value={query.addedBefore ?? ''}
+              onChange={(e) => update({ addedBefore: e.target.value || null })}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      )}
+
+      {(savedViews.length > 0 || !isDefault) && (
+        <div className="flex items-center gap-2 overflow-x-auto">
+          <Bookmark size={14} className="text-stone-400 shrink-0" />
+          {savedViews.map(view => {
+            const isActive = isSameQuery(query, view.query);
+            return (
+              <span
+                key={view.id}
+                className={`flex items-center rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+                  isActive ? 'bg-emerald-100 text-emerald-800' : 'bg-white border border-stone-200 text-stone-600'
+                }`}
+              >
+                <button onClick={() => onChange(view.query)} className="pl-3 pr-1 py-1">{view.name}</button>
+                <button
+                  onClick={() => onDeleteView(view)}
+                  className="p-1 mr-1 rounded-full text-stone-400 hover:text-red-600"
+                  title={`Delete "${view.name}"`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            );
+          })}
+          {viewName === null ? (
+            !isDefault && !savedViews.some(view => isSameQuery(query, view.query)) && (
+              <button
+                onClick={() => setViewName('')}
+                className="px-3 py-1 rounded-full text-sm font-medium text-emerald-700 hover:bg-emerald-50 flex items-center gap-1 whitespace-nowrap"
+              >
+                <BookmarkPlus size={14} />
+                Save view
+              </button>
+            )
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveView();
+              }}
+              className="flex items-center gap-1"
+            >
+              <input
+                autoFocus
+                type="text"
+                value={viewName}
+                placeholder="View name"
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setViewName(null)}
+                className="px-3 py-1 border border-stone-200 rounded-full text-sm focus:outline-none focus:border-emerald-500"
+              />
+              <button
+                type="submit"
+                disabled={!viewName.trim()}
+                className="px-3 py-1 rounded-full text-sm font-bold bg-stone-900 text-white disabled:opacity-40"
+              >
+                Save
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
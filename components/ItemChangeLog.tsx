@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { ItemChange } from '../types';
+import * as inventoryApi from '../services/inventoryApi';
+import { TRACKED_FIELD_LABELS } from '../lib/changeLog';
+import { formatMoney } from '../lib/currency';
+
+interface ItemChangeLogProps {
+  itemId: string;
+  currency: string;
+}
+
+const describeValue = (change: ItemChange, value: ItemChange['from'], currency: string) => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'number') return formatMoney(value, currency);
+  return change.field === 'suggested_description' ? `"${value.length > 60 ? `${value.slice(0, 60)}…` : value}"` : value;
+};
+
+export default function ItemChangeLog({ itemId, currency }: ItemChangeLogProps) {
+  const [changes, setChanges] = useState<ItemChange[] | null>(null);
+
+  useEffect(() => {
+    inventoryApi.fetchItemHistory(itemId)
+      .then(setChanges)
+      .catch(error => {
+        console.error(error);
+        setChanges([]);
+      });
+  }, [itemId]);
+
+  if (!changes || changes.length === 0) return null;
+
+  return (
+    <div className="pt-2 border-t border-stone-100">
+      <h3 className="text-sm font-bold mb-3 flex items-center gap-2">
+        <History size={14} />
+        Change Log
+      </h3>
+      <ul className="space-y-2 text-sm max-h-48 overflow-y-auto">
+        {changes.map(change => {
+          // A currency change is logged on its own, so show amounts from the same save in the old currency
+          const sameSaveCurrency = changes.find(other => other.changedAt === change.changedAt && other.field === 'currency');
+          const fromCurrency = typeof sameSaveCurrency?.from === 'string' ? sameSaveCurrency.from : currency;
+          const toCurrency = typeof sameSaveCurrency?.to === 'string' ? sameSaveCurrency.to : currency;
+          return (
+            <li key={change.id} className="flex gap-3">
+              <span className="text-xs text-stone-400 whitespace-nowrap pt-0.5">{new Date(change.changedAt).toLocaleDateString()}</span>
+              <span className="text-stone-600">
+                <span className="font-medium text-stone-900">{TRACKED_FIELD_LABELS[change.field]}</span>{' '}
+                {describeValue(change, change.from, fromCurrency)} → {describeValue(change, change.to, toCurrency)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useId, useState } from 'react';
+import { AlertTriangle, Plus, X } from 'lucide-react';
+import { AIResponse, ConditionGrade, ConfidenceField, IdentifierType } from '../types';
+import {
+  CONDITION_GRADES,
+  CONDITION_GRADE_LABELS,
+  IDENTIFIER_LABELS,
+  IDENTIFIER_TYPES,
+  fieldConfidence,
+  isLowConfidence
+} from '../lib/analysis';
+import { COMMON_CURRENCIES, isCurrencyCode } from '../lib/currency';
+import { ItemDetails, ItemFieldErrors } from '../lib/itemForm';
+import CategoryPicker from './CategoryPicker';
+
+interface ItemDetailsFieldsProps {
+  item: ItemDetails;
+  errors: ItemFieldErrors;
+  categories: string[];
+  // From the analysis, when reviewing one; unsure fields are flagged for a closer look
+  confidence?: AIResponse['confidence'];
+  onChange: (patch: Partial<ItemDetails>) => void;
+}
+
+export const inputClassName = "w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+export const labelClassName = "text-xs font-bold text-stone-400 uppercase";
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+export const parseOptionalAmount = (value: string) => value === '' ? null : parseFloat(value);
+
+export const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-red-600">{message}</p> : null;
+
+/** The descriptive fields of an item, shared by the review panel and the item editor. */
+export default function ItemDetailsFields({ item, errors, categories, confidence, onChange }: ItemDetailsFieldsProps) {
+  const [identifierType, setIdentifierType] = useState<IdentifierType>('upc');
+  const [identifierValue, setIdentifierValue] = useState('');
+  const idPrefix = useId();
+  const fieldId = (name: string) => `${idPrefix}-${name}`;
+  const currencyOptions = [...new Set([...COMMON_CURRENCIES, item.currency])].filter(isCurrencyCode).sort();
+
+  const isUnsure = (field: ConfidenceField) => !!confidence && isLowConfidence({ confidence }, field);
+
+  const fieldClassName = (field?: ConfidenceField) =>
+    `space-y-1 rounded-xl transition-all ${field && isUnsure(field) ? 'bg-amber-50 ring-1 ring-amber-200 p-2 -m-2' : ''}`;
+
+  // Labels a field, flagging it when the model wasn't sure about it
+  const FieldLabel = ({ field, htmlFor, children }: { field?: ConfidenceField; htmlFor: string; children: React.ReactNode }) => (
+    <div className="flex items-center gap-2">
+      <label htmlFor={htmlFor} className={labelClassName}>{children}</label>
+      {field && confidence && isUnsure(field) && (
+        <span
+          className="text-[10px] font-bold text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded-full flex items-center gap-1"
+          title={`The AI is only ${percent(fieldConfidence({ confidence }, field))} sure about this. Please check it.`}
+        >
+          <AlertTriangle size={10} />
+          Check
+        </span>
+      )}
+    </div>
+  );
+
+  const addIdentifier = () => {
+    const value = identifierValue.trim();
+    if (!value) return;
+    onChange({ identifiers: [...item.identifiers, { type: identifierType, value }] });
+    setIdentifierValue('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={fieldClassName('item_name')}>
+        <FieldLabel field="item_name" htmlFor={fieldId('name')}>Name</FieldLabel>
+        <input
+          id={fieldId('name')}
+          type="text"
+          value={item.item_name}
+          onChange={(e) => onChange({ item_name: e.target.value })}
+          className={`${inputClassName} font-bold`}
+        />
+        <FieldError message={errors.item_name} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className={`col-span-2 ${fieldClassName('estimated_value')}`}>
+          <FieldLabel field="estimated_value" htmlFor={fieldId('value')}>Est. Value</FieldLabel>
+          <input
+            id={fieldId('value')}
+            type="number"
+            min={0}
+            step="0.01"
+            value={item.estimated_value}
+            onChange={(e) => onChange({ estimated_value: parseFloat(e.target.value) || 0 })}
+            className={`${inputClassName} font-mono`}
+          />
+          <FieldError message={errors.estimated_value} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={fieldId('currency')} className={labelClassName}>Currency</label>
+          <select
+            id={fieldId('currency')}
+            value={item.currency}
+            onChange={(e) => onChange({ currency: e.target.value })}
+            className={inputClassName}
+          >
+            {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <FieldError message={errors.currency} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label htmlFor={fieldId('low')} className={labelClassName}>Low Estimate</label>
+          <input
+            id={fieldId('low')}
+            type="number"
+            min={0}
+            step="0.01"
+            value={item.price_low ?? ''}
+            onChange={(e) => onChange({ price_low: parseOptionalAmount(e.target.value) })}
+            className={`${inputClassName} font-mono`}
+            title="Low end of the likely price"
+          />
+          <FieldError message={errors.price_low} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={fieldId('high')} className={labelClassName}>High Estimate</label>
+          <input
+            id={fieldId('high')}
+            type="number"
+            min={0}
+            step="0.01"
+            value={item.price_high ?? ''}
+            onChange={(e) => onChange({ price_high: parseOptionalAmount(e.target.value) })}
+            className={`${inputClassName} font-mono`}
+            title="High end of the likely price"
+          />
+          <FieldError message={errors.price_high} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className={fieldClassName('brand')}>
+          <FieldLabel field="brand" htmlFor={fieldId('brand')}>Brand</FieldLabel>
+          <input
+            id={fieldId('brand')}
+            type="text"
+            value={item.brand}
+            placeholder="Unknown"
+            onChange={(e) => onChange({ brand: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className={fieldClassName('model')}>
+          <FieldLabel field="model" htmlFor={fieldId('model')}>Model</FieldLabel>
+          <input
+            id={fieldId('model')}
+            type="text"
+            value={item.model}
+            placeholder="Unknown"
+            onChange={(e) => onChange({ model: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className={fieldClassName('category')}>
+          <FieldLabel field="category" htmlFor={fieldId('category')}>Category</FieldLabel>
+          <CategoryPicker
+            id={fieldId('category')}
+            value={item.category}
+            categories={categories}
+            onChange={(category) => onChange({ category })}
+            className={inputClassName}
+          />
+          <FieldError message={errors.category} />
+        </div>
+        <div className={fieldClassName('condition_grade')}>
+          <FieldLabel field="condition_grade" htmlFor={fieldId('condition')}>Condition</FieldLabel>
+          <select
+            id={fieldId('condition')}
+            value={item.condition_grade ?? ''}
+            onChange={(e) => onChange({ condition_grade: (e.target.value || null) as ConditionGrade | null })}
+            className={inputClassName}
+          >
+            <option value="">Not graded</option>
+            {CONDITION_GRADES.map(grade => (
+              <option key={grade} value={grade}>{CONDITION_GRADE_LABELS[grade]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <FieldLabel htmlFor={fieldId('identifier')}>Identifiers</FieldLabel>
+        {item.identifiers.length > 0 && (
+          <div className="flex flex-wrap gap-2 pb-1">
+            {item.identifiers.map((identifier, i) => (
+              <span key={i} className="text-xs bg-stone-100 rounded-full pl-3 pr-1 py-1 flex items-center gap-1">
+                <span className="font-bold text-stone-500">{IDENTIFIER_LABELS[identifier.type]}</span>
+                <span className="font-mono">{identifier.value}</span>
+                <button
+                  onClick={() => onChange({ identifiers: item.identifiers.filter((_, j) => j !== i) })}
+                  className="p-0.5 text-stone-400 hover:text-red-600 rounded-full"
+                  title="Remove identifier"
+                  aria-label={`Remove ${IDENTIFIER_LABELS[identifier.type]} ${identifier.value}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <select
+            value={identifierType}
+            onChange={(e) => setIdentifierType(e.target.value as IdentifierType)}
+            className={`${inputClassName} w-32`}
+            aria-label="Identifier type"
+          >
+            {IDENTIFIER_TYPES.map(type => <option key={type} value={type}>{IDENTIFIER_LABELS[type]}</option>)}
+          </select>
+          <input
+            id={fieldId('identifier')}
+            type="text"
+            value={identifierValue}
+            placeholder="Add a barcode, ISBN or serial"
+            onChange={(e) => setIdentifierValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              e.preventDefault();
+              addIdentifier();
+            }}
+            className={`${inputClassName} font-mono`}
+          />
+          <button
+            onClick={addIdentifier}
+            disabled={!identifierValue.trim()}
+            className="p-2 rounded-xl text-stone-500 hover:bg-stone-100 disabled:opacity-30"
+            title="Add identifier"
+            aria-label="Add identifier"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+        <FieldError message={errors.identifiers} />
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor={fieldId('notes')} className={labelClassName}>Condition Notes</label>
+        <textarea
+          id={fieldId('notes')}
+          value={item.condition_notes}
+          onChange={(e) => onChange({ condition_notes: e.target.value })}
+          className={inputClassName}
+          rows={2}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor={fieldId('description')} className={labelClassName}>Sales Description</label>
+        <textarea
+          id={fieldId('description')}
+          value={item.suggested_description}
+          onChange={(e) => onChange({ suggested_description: e.target.value })}
+          className={inputClassName}
+          rows={4}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, CameraOff, Search } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem } from '../types';
+import { useCameraStream } from '../hooks/useCameraStream';
+import { findItemByCode } from '../lib/labels';
+
+interface ItemLookupModalProps {
+  inventory: InventoryItem[];
+  onFound: (item: InventoryItem) => void;
+  onClose: () => void;
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types; Chromium and Safari ship it
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetector;
+
+const barcodeDetectorApi = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// How often the camera frame is checked for a code
+const SCAN_INTERVAL_MS = 250;
+
+interface QrScannerProps {
+  onCode: (code: string) => void;
+}
+
+function QrScanner({ onCode }: QrScannerProps) {
+  const { videoRef, isReady, error } = useCameraStream('environment');
+  // Read through a ref so a new callback doesn't restart the scan loop
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
+
+  useEffect(() => {
+    const Detector = barcodeDetectorApi();
+    if (!isReady || !Detector) return;
+    const detector = new Detector({ formats: ['qr_code'] });
+    let isBusy = false;
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      if (isBusy || !video) return;
+      isBusy = true;
+      try {
+        const [code] = await detector.detect(video);
+        if (code) onCodeRef.current(code.rawValue);
+      } catch (cause) {
+        console.warn("QR detection failed", cause);
+      } finally {
+        isBusy = false;
+      }
+    }, SCAN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isReady]);
+
+  if (error) {
+    return (
+      <div className="aspect-video flex flex-col items-center justify-center gap-3 bg-stone-100 rounded-2xl text-center p-6">
+        <CameraOff size={32} className="text-stone-400" />
+        <p className="text-sm text-stone-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-video bg-stone-950 rounded-2xl overflow-hidden flex items-center justify-center">
+      <video ref={videoRef} playsInline muted className="w-full h-full object-cover" />
+      {!isReady && <Loader2 size={32} className="absolute animate-spin text-stone-500" />}
+      <div className="absolute inset-[20%] border-2 border-white/70 rounded-2xl pointer-events-none" />
+    </div>
+  );
+}
+
+/**
+ * Finds an item from its label: scans the QR code with the camera where the
+ * browser can read them, or takes a typed SKU or id.
+ */
+export default function ItemLookupModal({ inventory, onFound, onClose }: ItemLookupModalProps) {
+  const dialog = useDialog(onClose);
+  const [code, setCode] = useState('');
+  const [notFound, setNotFound] = useState('');
+  const canScan = !!barcodeDetectorApi();
+
+  const lookUp = (value: string) => {
+    const item = findItemByCode(inventory, value);
+    if (item) onFound(item);
+    else setNotFound(value.trim());
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) lookUp(code);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Find by Label</h2>
+            <p className="text-xs text-stone-500">
+              {canScan ? "Point the camera at an item's QR label, or type its SKU." : "Type the SKU printed on the label."}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {canScan ? (
+            <QrScanner onCode={lookUp} />
+          ) : (
+            <p className="text-sm text-stone-500 bg-stone-50 rounded-2xl p-4">
+              This browser can't read QR codes from the camera. Enter the SKU printed on the label instead.
+            </p>
+          )}
+
+          <form onSubmit={submit} className="flex gap-2">
+            <input
+              autoFocus={!canScan}
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setNotFound('');
+              }}
+              placeholder="SKU, e.g. RR-00042"
+              aria-label="SKU or item id"
+              className="flex-1 px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+            />
+            <button
+              type="submit"
+              disabled={!code.trim()}
+              className="px-4 py-2 bg-stone-900 text-white rounded-xl font-bold flex items-center gap-2 hover:bg-stone-800 disabled:opacity-40 transition-all"
+            >
+              <Search size={16} />
+              Find
+            </button>
+          </form>
+          {notFound && <p className="text-sm text-red-600">No item has the code "{notFound}". It may be in the trash.</p>}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
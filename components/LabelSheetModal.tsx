@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem } from '../types';
+import { DEFAULT_LABEL_LAYOUT_ID, LABEL_LAYOUTS, buildLabelSheet, labelsPerSheet, sheetCount } from '../lib/labels';
+
+interface LabelSheetModalProps {
+  items: InventoryItem[];
+  onClose: () => void;
+}
+
+export default function LabelSheetModal({ items, onClose }: LabelSheetModalProps) {
+  const dialog = useDialog(onClose);
+  const [layoutId, setLayoutId] = useState(DEFAULT_LABEL_LAYOUT_ID);
+  const [skip, setSkip] = useState(0);
+  const previewRef = useRef<HTMLIFrameElement | null>(null);
+
+  const layout = LABEL_LAYOUTS.find(candidate => candidate.id === layoutId)!;
+  const sheets = sheetCount(layout, items.length, skip);
+  const html = buildLabelSheet(items, layout, skip);
+
+  const chooseLayout = (id: string) => {
+    setLayoutId(id);
+    setSkip(0);
+  };
+
+  // The preview already holds the finished sheets, so printing it prints exactly what's shown
+  const print = () => previewRef.current?.contentWindow?.print();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-4xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Print Labels</h2>
+            <p className="text-xs text-stone-500">
+              {items.length} label{items.length === 1 ? '' : 's'} on {sheets} sheet{sheets === 1 ? '' : 's'}; each QR code opens its item when scanned in the app
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 grid md:grid-cols-[16rem_1fr] gap-6 overflow-y-auto">
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {LABEL_LAYOUTS.map(candidate => (
+                <button
+                  key={candidate.id}
+                  onClick={() => chooseLayout(candidate.id)}
+                  className={`w-full text-left p-3 rounded-2xl border transition-all ${
+                    candidate.id === layoutId ? 'border-emerald-500 ring-2 ring-emerald-500/20 bg-emerald-50/50' : 'border-stone-200 hover:bg-stone-50'
+                  }`}
+                >
+                  <div className="font-bold text-sm">{candidate.name}</div>
+                  <div className="text-xs text-stone-500">{candidate.description}</div>
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-bold">Start at</h3>
+              <p className="text-xs text-stone-500 mb-2">Pick the first free label to reuse a partly used sheet.</p>
+              <div
+                className="grid gap-1 p-2 bg-stone-100 rounded-xl"
+                style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))` }}
+              >
+                {Array.from({ length: labelsPerSheet(layout) }, (_, position) => (
+                  <button
+                    key={position}
+                    onClick={() => setSkip(position)}
+                    className={`h-4 rounded-sm transition-all ${
+                      position < skip ? 'bg-stone-300' : position === skip ? 'bg-emerald-500' : 'bg-white hover:bg-emerald-100'
+                    }`}
+                    title={`Row ${Math.floor(position / layout.columns) + 1}, column ${position % layout.columns + 1}`}
+                    aria-label={`Start at label ${position + 1}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <iframe
+            ref={previewRef}
+            srcDoc={html}
+            title="Label sheet preview"
+            className="w-full h-[60vh] rounded-2xl border border-stone-200 bg-stone-200"
+          />
+        </div>
+
+        <div className="p-6 bg-stone-50">
+          <button
+            onClick={print}
+            disabled={items.length === 0}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-stone-900"
+          >
+            <Printer size={18} />
+            Print {items.length} label{items.length === 1 ? '' : 's'}
+          </button>
+          <p className="text-xs text-stone-400 text-center mt-2">Print at 100% scale ("Actual size") so labels line up with the sheet.</p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
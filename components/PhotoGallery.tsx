@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, RefreshCw, Star, Trash2 } from 'lucide-react';
+import { ItemPhoto } from '../types';
+import { MAX_PHOTOS_PER_ITEM, makeCover, movePhoto } from '../lib/photos';
+
+interface PhotoGalleryProps {
+  photos: ItemPhoto[];
+  alt: string;
+  badge?: string;
+  // Receives the new order as indexes into `photos`; dropped indexes are removed photos.
+  onReorder?: (order: number[]) => void;
+  onAdd?: (files: File[]) => void;
+  onReplace?: (index: number, file: File) => void;
+}
+
+export default function PhotoGallery({ photos, alt, badge, onReorder, onAdd, onReplace }: PhotoGalleryProps) {
+  const [selected, setSelected] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const current = Math.min(selected, photos.length - 1);
+  const indexes = photos.map((_, i) => i);
+  const canAdd = onAdd && photos.length < MAX_PHOTOS_PER_ITEM;
+
+  const reorder = (order: number[], nextSelected: number) => {
+    onReorder?.(order);
+    setSelected(Math.max(0, nextSelected));
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (files.length > 0) onAdd?.(files.slice(0, MAX_PHOTOS_PER_ITEM - photos.length));
+  };
+
+  const handleReplacement = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onReplace?.(current, file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative group">
+        {photos.length > 0 ? (
+          <img
+            src={photos[current].src}
+            alt={alt}
+            className="w-full aspect-video object-cover rounded-2xl border border-stone-200"
+          />
+        ) : (
+          <div className="w-full aspect-video rounded-2xl border-2 border-dashed border-stone-200 flex items-center justify-center text-stone-400 text-sm">
+            No photos yet
+          </div>
+        )}
+        {badge && (
+          <div className="absolute top-4 right-4 bg-emerald-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow-lg">
+            {badge}
+          </div>
+        )}
+        {current === 0 && photos.length > 1 && (
+          <div className="absolute top-4 left-4 bg-stone-900/80 text-white px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1">
+            <Star size={12} /> Cover
+          </div>
+        )}
+        {(onReorder || onReplace) && photos.length > 0 && (
+          <div className="absolute bottom-3 right-3 flex gap-1">
+            {onReplace && (
+              <>
+                <button
+                  onClick={() => replaceInputRef.current?.click()}
+                  className="p-2 bg-white/90 rounded-full shadow hover:bg-white"
+                  title="Replace photo"
+                >
+                  <RefreshCw size={16} />
+                </button>
+                <input type="file" ref={replaceInputRef} onChange={handleReplacement} className="hidden" accept="image/*,.heic,.heif" />
+              </>
+            )}
+            {onReorder && current > 0 && (
+              <button
+                onClick={() => reorder(makeCover(indexes, current), 0)}
+                className="p-2 bg-white/90 rounded-full shadow hover:bg-white"
+                title="Make cover photo"
+              >
+                <Star size={16} />
+              </button>
+            )}
+            {onReorder && (
+              <>
+                <button
+                  onClick={() => reorder(movePhoto(indexes, current, current - 1), current - 1)}
+                  disabled={current === 0}
+                  className="p-2 bg-white/90 rounded-full shadow hover:bg-white disabled:opacity-40"
+                  title="Move earlier"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <button
+                  onClick={() => reorder(movePhoto(indexes, current, current + 1), current + 1)}
+                  disabled={current === photos.length - 1}
+                  className="p-2 bg-white/90 rounded-full shadow hover:bg-white disabled:opacity-40"
+                  title="Move later"
+                >
+                  <ChevronRight size={16} />
+                </button>
+                <button
+                  onClick={() => reorder(indexes.filter(i => i !== current), current - 1)}
+                  className="p-2 bg-white/90 rounded-full shadow hover:bg-white text-red-600"
+                  title="Remove photo"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {(photos.length > 1 || canAdd) && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {photos.map((photo, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`shrink-0 w-14 h-14 rounded-xl overflow-hidden border-2 transition-all ${
+                i === current ? 'border-emerald-500' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+            >
+              <img src={photo.thumbnail} alt={`${alt} photo ${i + 1}`} className="w-full h-full object-cover" />
+            </button>
+          ))}
+          {canAdd && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="shrink-0 w-14 h-14 rounded-xl border-2 border-dashed border-stone-200 text-stone-400 hover:text-emerald-600 hover:border-emerald-500 flex items-center justify-center transition-all"
+                title="Add photos"
+              >
+                <ImagePlus size={20} />
+              </button>
+              <input type="file" ref={fileInputRef} onChange={handleFiles} className="hidden" accept="image/*,.heic,.heif" multiple />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
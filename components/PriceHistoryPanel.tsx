@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useId, useState } from 'react';
+import { Clock, ExternalLink, Plus, Trash2, TrendingUp } from 'lucide-react';
+import { InventoryItem, PriceEntry, Settings } from '../types';
+import { COMMON_CURRENCIES, formatMoney, isCurrencyCode } from '../lib/currency';
+import {
+  PRICE_ENTRY_LABELS,
+  createPriceEntry,
+  isPriceStale,
+  priceAgeDays,
+  suggestListPrice
+} from '../lib/priceHistory';
+import { FieldError, inputClassName, labelClassName } from './ItemDetailsFields';
+
+interface PriceHistoryPanelProps {
+  item: InventoryItem;
+  settings: Settings;
+  onChange: (item: InventoryItem) => void;
+}
+
+const ENTRY_STYLES: Record<PriceEntry['kind'], string> = {
+  estimate: 'bg-violet-100 text-violet-700',
+  revision: 'bg-stone-100 text-stone-600',
+  comp: 'bg-emerald-100 text-emerald-700'
+};
+
+const today = () => new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+
+interface CompDraft {
+  amount: string;
+  currency: string;
+  soldOn: string;
+  source: string;
+  url: string;
+  notes: string;
+}
+
+const emptyComp = (currency: string): CompDraft => ({ amount: '', currency, soldOn: today(), source: '', url: '', notes: '' });
+
+const compErrors = (draft: CompDraft) => {
+  const errors: Partial<Record<keyof CompDraft, string>> = {};
+  const amount = Number(draft.amount);
+  if (draft.amount.trim() === '' || !Number.isFinite(amount) || amount < 0) errors.amount = "Enter what it sold for";
+  if (!isCurrencyCode(draft.currency)) errors.currency = "Use a three-letter code";
+  if (!draft.soldOn) errors.soldOn = "Pick the sale date";
+  if (draft.url.trim() && !/^https?:\/\//i.test(draft.url.trim())) errors.url = "Paste a full http(s) link";
+  return errors;
+};
+
+/** An item's dated estimates and sold comps, the list price the comps suggest, and a form to log a comp. */
+export default function PriceHistoryPanel({ item, settings, onChange }: PriceHistoryPanelProps) {
+  const [draft, setDraft] = useState<CompDraft | null>(null);
+  const idPrefix = useId();
+  const fieldId = (name: string) => `${idPrefix}-${name}`;
+  const suggestion = suggestListPrice(item, settings);
+  const ageDays = priceAgeDays(item);
+  const isStale = isPriceStale(item, settings);
+  const entries = [...item.priceHistory].sort((a, b) => b.date - a.date);
+  const errors = draft ? compErrors(draft) : {};
+  const currencyOptions = [...new Set([...COMMON_CURRENCIES, ...Object.keys(settings.exchangeRates), item.currency])].sort();
+
+  const addComp = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || Object.keys(errors).length > 0) return;
+    const comp = createPriceEntry({
+      kind: 'comp',
+      amount: Number(draft.amount),
+      currency: draft.currency,
+      date: new Date(`${draft.soldOn}T12:00`).getTime(),
+      source: draft.source.trim(),
+      url: draft.url.trim(),
+      notes: draft.notes.trim()
+    });
+    onChange({ ...item, priceHistory: [...item.priceHistory, comp] });
+    setDraft(null);
+  };
+
+  const removeEntry = (id: string) =>
+    onChange({ ...item, priceHistory: item.priceHistory.filter(entry => entry.id !== id) });
+
+  return (
+    <div className="pt-2 border-t border-stone-100 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-bold flex items-center gap-2">
+          <TrendingUp size={14} />
+          Price History
+        </h3>
+        <span
+          className={`text-xs flex items-center gap-1 ${isStale ? 'text-amber-700 font-bold' : 'text-stone-400'}`}
+          title={isStale ? `Older than the ${settings.stalePriceDays} days set under Settings` : undefined}
+        >
+          <Clock size={12} />
+          {ageDays === 0 ? 'Priced today' : `Priced ${ageDays} day${ageDays === 1 ? '' : 's'} ago`}
+          {isStale && ' · due a re-check'}
+        </span>
+      </div>
+
+      {suggestion && (
+        <div className="flex items-center justify-between gap-3 bg-emerald-50 rounded-xl px-4 py-3 text-sm">
+          <div>
+            <div>
+              Suggested list price <span className="font-mono font-bold">{formatMoney(suggestion.amount, item.currency)}</span>
+            </div>
+            <div className="text-xs text-stone-500">
+              Median of {suggestion.compCount} sold comp{suggestion.compCount === 1 ? '' : 's'}
+              {suggestion.compCount > 1 && `, ${formatMoney(suggestion.low, item.currency)}–${formatMoney(suggestion.high, item.currency)}`}
+              {suggestion.skippedCount > 0 && `; ${suggestion.skippedCount} left out for lack of an exchange rate`}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange({ ...item, estimated_value: suggestion.amount })}
+            disabled={suggestion.amount === item.estimated_value}
+            className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-40 disabled:hover:bg-emerald-600 transition-all whitespace-nowrap"
+          >
+            Use as estimate
+          </button>
+        </div>
+      )}
+
+      {entries.length > 0 ? (
+        <ul className="space-y-2 text-sm max-h-56 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start gap-3">
+              <span className="text-xs text-stone-400 whitespace-nowrap pt-0.5 w-20">{new Date(entry.date).toLocaleDateString()}</span>
+              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full whitespace-nowrap ${ENTRY_STYLES[entry.kind]}`}>
+                {PRICE_ENTRY_LABELS[entry.kind]}
+              </span>
+              <div className="flex-1 min-w-0">
+                <span className="font-mono font-bold">{formatMoney(entry.amount, entry.currency)}</span>
+                {entry.source && <span className="text-stone-600"> on {entry.source}</span>}
+                {entry.url && (
+                  <a href={entry.url} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1 text-emerald-600 hover:text-emerald-700 align-middle" title={entry.url}>
+                    <ExternalLink size={12} />
+                  </a>
+                )}
+                {entry.notes && <div className="text-xs text-stone-500">{entry.notes}</div>}
+              </div>
+              {entry.kind === 'comp' && (
+                <button
+                  type="button"
+                  onClick={() => removeEntry(entry.id)}
+                  className="p-1 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                  title="Remove comp"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-stone-400">No prices recorded yet. Log what similar items sold for to get a suggested list price.</p>
+      )}
+
+      {draft ? (
+        <form onSubmit={addComp} className="space-y-3 bg-stone-50 rounded-xl p-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label htmlFor={fieldId('sold-for')} className={labelClassName}>Sold For</label>
+              <input
+                id={fieldId('sold-for')}
+                autoFocus
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.amount}
+                onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.amount} />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('currency')} className={labelClassName}>Currency</label>
+              <select id={fieldId('currency')} value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} className={inputClassName}>
+                {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('sold-on')} className={labelClassName}>Sold On</label>
+              <input
+                id={fieldId('sold-on')}
+                type="date"
+                value={draft.soldOn}
+                max={today()}
+                onChange={(e) => setDraft({ ...draft, soldOn: e.target.value })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.soldOn} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label htmlFor={fieldId('source')} className={labelClassName}>Source</label>
+              <input
+                id={fieldId('source')}
+                type="text"
+                value={draft.source}
+                placeholder="e.g. eBay, local auction"
+                onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('link')} className={labelClassName}>Link</label>
+              <input
+                id={fieldId('link')}
+                type="url"
+                value={draft.url}
+                placeholder="https://"
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.url} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor={fieldId('notes')} className={labelClassName}>Notes</label>
+            <input
+              id={fieldId('notes')}
+              type="text"
+              value={draft.notes}
+              placeholder="Condition, what was included…"
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-sm font-medium hover:bg-stone-200 transition-all">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={Object.keys(errors).length > 0}
+              className="px-4 py-2 rounded-xl bg-stone-900 text-white text-sm font-bold hover:bg-stone-800 disabled:opacity-40 transition-all"
+            >
+              Add Comp
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft(emptyComp(item.currency))}
+          className="text-sm font-medium text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+        >
+          <Plus size={14} />
+          Add sold comp
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { InventoryItem, Settings } from '../types';
+import { Report, ReportBar, REPORT_WEEKS, buildReport } from '../lib/reports';
+import { formatMoney } from '../lib/currency';
+import { CONDITION_GRADE_LABELS } from '../lib/analysis';
+import { STATUS_LABELS } from '../lib/lifecycle';
+import { coverThumbnail } from '../lib/photos';
+
+interface ReportsDashboardProps {
+  inventory: InventoryItem[];
+  settings: Settings;
+  onClose: () => void;
+}
+
+const cardClassName = "bg-white p-6 rounded-3xl border border-stone-200 shadow-sm print:shadow-none";
+// Charts are small enough to keep whole on one printed page
+const chartClassName = `${cardClassName} break-inside-avoid`;
+const headingClassName = "text-sm font-bold text-stone-900 mb-4";
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Horizontal bars, scaled to the largest; `measure` picks what the bar length shows
+const BarList = ({ bars, currency, measure }: { bars: ReportBar[]; currency: string; measure: 'value' | 'count' }) => {
+  const max = Math.max(...bars.map(bar => bar[measure]), 0);
+  if (bars.every(bar => bar.count === 0)) return <p className="text-sm text-stone-400">Nothing to show yet.</p>;
+  return (
+    <ul className="space-y-2">
+      {bars.map(bar => (
+        <li key={bar.label} className="grid grid-cols-[8rem_1fr_auto] items-center gap-3 text-sm">
+          <span className="truncate text-stone-600" title={bar.label}>{bar.label}</span>
+          <div className="h-3 bg-stone-100 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 rounded-full" style={{ width: max > 0 ? `${(bar[measure] / max) * 100}%` : 0 }} />
+          </div>
+          <span className="font-mono text-xs text-stone-500 text-right whitespace-nowrap">
+            {measure === 'value'
+              ? `${formatMoney(bar.value, currency)} · ${bar.count}`
+              : `${bar.count} · ${formatMoney(bar.value, currency)}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const WeeklyChart = ({ weeks, currency }: { weeks: ReportBar[]; currency: string }) => {
+  const max = Math.max(...weeks.map(week => week.count), 1);
+  return (
+    <div className="flex items-end gap-2 h-40">
+      {weeks.map(week => (
+        <div key={week.label} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${plural(week.count, 'item')} worth ${formatMoney(week.value, currency)} added the week of ${week.label}`}>
+          <span className="text-[10px] font-mono text-stone-500">{week.count || ''}</span>
+          <div className="w-full bg-emerald-500 rounded-t-lg" style={{ height: `${(week.count / max) * 100}%` }} />
+          <span className="text-[10px] text-stone-400 whitespace-nowrap">{week.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatCard = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="bg-white p-4 rounded-2xl border border-stone-200 shadow-sm flex flex-col break-inside-avoid">
+    <span className="text-xs font-semibold text-stone-400 uppercase tracking-wider">{label}</span>
+    <span className="text-2xl font-bold">{value}</span>
+    {detail && <span className="text-xs text-stone-400">{detail}</span>}
+  </div>
+);
+
+const ItemTable = ({ rows, currency }: { rows: Report['heldItems']; currency: string }) => (
+  <table className="w-full text-left text-sm">
+    <thead>
+      <tr className="text-xs font-bold text-stone-400 uppercase tracking-widest">
+        <th className="py-2 pr-4">Item</th>
+        <th className="py-2 pr-4">Category</th>
+        <th className="py-2 pr-4">Condition</th>
+        <th className="py-2 pr-4">Status</th>
+        <th className="py-2 pr-4">Added</th>
+        <th className="py-2 text-right">Value</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-stone-100">
+      {rows.map(({ item, value }) => (
+        <tr key={item.id} className="break-inside-avoid">
+          <td className="py-2 pr-4">
+            <div className="flex items-center gap-3">
+              <img src={coverThumbnail(item)} alt={item.item_name} className="w-8 h-8 rounded-lg object-cover border border-stone-200" />
+              <div>
+                <div className="font-bold">
+                  {item.item_name}
+                  {item.quantity > 1 && <span className="ml-1 text-xs font-medium text-stone-500">×{item.quantity}</span>}
+                </div>
+                {(item.brand || item.model) && <div className="text-xs text-stone-500">{[item.brand, item.model].filter(Boolean).join(' ')}</div>}
+              </div>
+            </div>
+          </td>
+          <td className="py-2 pr-4 text-stone-600">{item.category || 'Uncategorized'}</td>
+          <td className="py-2 pr-4 text-stone-600">{item.condition_grade ? CONDITION_GRADE_LABELS[item.condition_grade] : '—'}</td>
+          <td className="py-2 pr-4 text-stone-600">{STATUS_LABELS[item.status]}</td>
+          <td className="py-2 pr-4 text-stone-500 whitespace-nowrap">{new Date(item.createdAt).toLocaleDateString()}</td>
+          <td className="py-2 text-right font-mono font-bold text-emerald-600 whitespace-nowrap">
+            {formatMoney(value, currency)}
+            {item.currency !== currency && (
+              <div className="text-xs font-normal text-stone-400">{formatMoney(item.estimated_value * item.quantity, item.currency)}</div>
+            )}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/** Value and stock reports across the whole inventory, laid out to print as a summary. */
+export default function ReportsDashboard({ inventory, settings, onClose }: ReportsDashboardProps) {
+  // The full list runs to pages, so it is only printed when asked for
+  const [includeItemList, setIncludeItemList] = useState(false);
+  const report = buildReport(inventory, settings);
+  const { currency, summary } = report;
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 py-8 md:px-8 space-y-6 print:p-0 print:max-w-none">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Inventory Report</h2>
+          <p className="text-sm text-stone-500">
+            Generated {new Date(report.generatedAt).toLocaleString()} · values are estimates in {currency}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 print:hidden">
+          <label className="flex items-center gap-2 text-sm text-stone-600 mr-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeItemList}
+              onChange={(e) => setIncludeItemList(e.target.checked)}
+              className="w-4 h-4 accent-emerald-600"
+            />
+            Include every item
+          </label>
+          <button
+            onClick={onClose}
+            className="bg-white border border-stone-200 text-stone-700 px-4 py-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-100 transition-all active:scale-95 shadow-sm"
+          >
+            <ArrowLeft size={18} />
+            Inventory
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="bg-stone-900 text-white px-4 py-2 rounded-full font-medium flex items-center gap-2 hover:bg-stone-800 transition-all active:scale-95 shadow-sm"
+            title="Print, or choose Save as PDF in the print dialog"
+          >
+            <Printer size={18} />
+            Print / PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Items on Hand" value={String(report.heldCount)} detail={`of ${plural(summary.totalItems, 'item')} in total`} />
+        <StatCard label="Estimated Value" value={formatMoney(report.heldValue, currency)} detail="unsold stock" />
+        <StatCard
+          label="Average Age"
+          value={report.averageAgeDays === null ? '—' : plural(Math.round(report.averageAgeDays), 'day')}
+          detail="since added"
+        />
+        <StatCard label="Revenue" value={formatMoney(summary.revenue, currency)} detail={`${summary.soldCount} sold`} />
+      </div>
+
+      {report.unconvertedCount > 0 && (
+        <p className="text-sm text-amber-700">
+          {plural(report.unconvertedCount, 'item')} in a currency without an exchange rate {report.unconvertedCount === 1 ? 'is' : 'are'} left out of these figures.
+        </p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6 print:grid-cols-2">
+        <section className={chartClassName}>
+          <h3 className={headingClassName}>Value by Category</h3>
+          <BarList bars={report.valueByCategory} currency={currency} measure="value" />
+        </section>
+        <section className={chartClassName}>
+          <h3 className={headingClassName}>Items Added per Week</h3>
+          {report.addedPerWeek.every(week => week.count === 0)
+            ? <p className="text-sm text-stone-400">Nothing added in the last {REPORT_WEEKS} weeks.</p>
+            : <WeeklyChart weeks={report.addedPerWeek} currency={currency} />}
+        </section>
+        <section className={chartClassName}>
+          <h3 className={headingClassName}>Age of Unsold Stock</h3>
+          <BarList bars={report.aging} currency={currency} measure="count" />
+        </section>
+        <section className={chartClassName}>
+          <h3 className={headingClassName}>Price Distribution</h3>
+          <BarList bars={report.priceDistribution} currency={currency} measure="count" />
+        </section>
+      </div>
+
+      <section className={cardClassName}>
+        <h3 className={headingClassName}>Most Valuable Items</h3>
+        {report.topItems.length === 0
+          ? <p className="text-sm text-stone-400">No unsold items.</p>
+          : <ItemTable rows={report.topItems} currency={currency} />}
+      </section>
+
+      {includeItemList && report.heldItems.length > 0 && (
+        <section className={`${cardClassName} break-before-page`}>
+          <h3 className={headingClassName}>
+            All Items on Hand · {plural(report.heldCount, 'item')} · {formatMoney(report.heldValue, currency)}
+          </h3>
+          <ItemTable rows={report.heldItems} currency={currency} />
+        </section>
+      )}
+    </main>
+  );
+}
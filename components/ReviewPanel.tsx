@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Check, X, ChevronLeft, ChevronRight, Copy, Merge, Plus, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { AIResponse, InventoryItem, ItemPhoto } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../lib/analysis';
+import { hasErrors, validateItemDetails } from '../lib/itemForm';
+import { DUPLICATE_REASON_LABELS, DuplicateMatch } from '../lib/duplicates';
+import { formatMoney } from '../lib/currency';
+import { coverThumbnail } from '../lib/photos';
+import PhotoGallery from './PhotoGallery';
+import ItemDetailsFields from './ItemDetailsFields';
+
+interface ReviewPanelProps {
+  item: AIResponse & { photos: ItemPhoto[] };
+  position: number;
+  total: number;
+  /** Set when the analysis is for an item already in inventory, which approving updates. */
+  isReanalysis?: boolean;
+  categories: string[];
+  // Inventory items this might be another scan of
+  duplicates: DuplicateMatch[];
+  /** Set while approving, merging or adding is saving; those buttons and Discard wait for it. */
+  isSaving?: boolean;
+  onChange: (patch: Partial<AIResponse>) => void;
+  onReorderPhotos: (order: number[]) => void;
+  onAddPhotos: (files: File[]) => void;
+  onApprove: () => void;
+  onMergeInto: (item: InventoryItem) => void;
+  onAddAsQuantity: (item: InventoryItem) => void;
+  onDiscard: () => void;
+  onCopyDescription: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+export default function ReviewPanel({
+  item,
+  position,
+  total,
+  isReanalysis = false,
+  categories,
+  duplicates,
+  isSaving = false,
+  onChange,
+  onReorderPhotos,
+  onAddPhotos,
+  onApprove,
+  onMergeInto,
+  onAddAsQuantity,
+  onDiscard,
+  onCopyDescription,
+  onPrevious,
+  onNext,
+  onClose
+}: ReviewPanelProps) {
+  const dialog = useDialog(onClose);
+  const errors = validateItemDetails(item);
+  const isInvalid = hasErrors(errors);
+  const hasPrevious = position > 0;
+  const hasNext = position < total - 1;
+
+  const approve = () => {
+    if (!isInvalid && !isSaving) onApprove();
+  };
+  const discard = () => {
+    if (!isSaving) onDiscard();
+  };
+  const previous = () => {
+    if (hasPrevious) onPrevious();
+  };
+  const next = () => {
+    if (hasNext) onNext();
+  };
+
+  // Only while this panel is on top, so a dialog opened over it keeps its keys
+  useShortcuts(
+    { a: approve, d: discard, c: onCopyDescription, j: next, arrowright: next, k: previous, arrowleft: previous },
+    dialog.isTopmost
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="bg-white w-full max-w-lg rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Review AI Analysis</h2>
+            <p className="text-xs text-stone-500">
+              {total > 1 && `Item ${position + 1} of ${total} · `}
+              <span className={item.confidence.overall < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-700 font-bold' : ''}>
+                {percent(item.confidence.overall)} confident
+              </span>
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            {total > 1 && (
+              <>
+                <button
+                  onClick={onPrevious}
+                  disabled={!hasPrevious}
+                  className="p-2 hover:bg-stone-100 rounded-full disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Previous item (K or ←)"
+                  aria-label="Previous item"
+                  aria-keyshortcuts="K ArrowLeft"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                <button
+                  onClick={onNext}
+                  disabled={!hasNext}
+                  className="p-2 hover:bg-stone-100 rounded-full disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Next item (J or →)"
+                  aria-label="Next item"
+                  aria-keyshortcuts="J ArrowRight"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="space-y-2">
+            <PhotoGallery
+              photos={item.photos}
+              alt={item.item_name || 'Review'}
+              badge={isReanalysis ? "Re-analyzed" : "AI Identified"}
+              onReorder={onReorderPhotos}
+              onAdd={onAddPhotos}
+            />
+            <p className="text-xs text-stone-400">
+              Add more angles — labels, model plates, any wear — and the item is re-analyzed from all of its photos.
+            </p>
+          </div>
+
+          {duplicates.length > 0 && (
+            <div className="rounded-2xl bg-amber-50 border border-amber-200 p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-bold text-amber-800">
+                <Copy size={16} />
+                This may already be in your inventory
+              </div>
+              <ul className="space-y-2">
+                {duplicates.map(({ item: match, reasons }) => (
+                  <li key={match.id} className="flex items-center gap-3 bg-white rounded-xl p-2">
+                    <img
+                      src={coverThumbnail(match)}
+                      alt={match.item_name}
+                      className="w-10 h-10 rounded-lg object-cover border border-stone-200"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold truncate">
+                        {match.item_name}
+                        {match.quantity > 1 && <span className="ml-1 text-xs font-medium text-stone-500">×{match.quantity}</span>}
+                      </div>
+                      <div className="text-xs text-stone-500 truncate">
+                        {formatMoney(match.estimated_value, match.currency)} · {reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onMergeInto(match)}
+                      disabled={isSaving}
+                      className="p-2 text-stone-500 hover:text-emerald-700 hover:bg-emerald-50 rounded-lg transition-all disabled:opacity-40"
+                      title="Same item: add these photos and any missing details to it"
+                      aria-label={`Merge into ${match.item_name}`}
+                    >
+                      <Merge size={16} />
+                    </button>
+                    <button
+                      onClick={() => onAddAsQuantity(match)}
+                      disabled={isSaving}
+                      className="px-2 py-1.5 text-xs font-bold text-stone-500 hover:text-emerald-700 hover:bg-emerald-50 rounded-lg transition-all flex items-center gap-0.5 disabled:opacity-40"
+                      title="Another identical unit: add one to its quantity"
+                      aria-label={`Add one to the quantity of ${match.item_name}`}
+                    >
+                      <Plus size={14} />
+                      Qty
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-amber-700">Or save it as a separate item below.</p>
+            </div>
+          )}
+
+          <ItemDetailsFields
+            item={item}
+            errors={errors}
+            categories={categories}
+            confidence={item.confidence}
+            onChange={onChange}
+          />
+        </div>
+
+        {isInvalid && (
+          <p className="px-6 pt-3 text-xs text-red-600 bg-stone-50 border-t border-stone-100">
+            Fix the fields marked in red before approving.
+          </p>
+        )}
+        <div className={`p-6 bg-stone-50 flex gap-3 ${isInvalid ? '' : 'border-t border-stone-100'}`}>
+          <button
+            onClick={discard}
+            disabled={isSaving}
+            className="flex-1 px-6 py-3 rounded-2xl font-bold text-stone-600 hover:bg-stone-200 transition-all disabled:opacity-50"
+            title="Discard (D)"
+            aria-keyshortcuts="D"
+          >
+            Discard
+          </button>
+          <button
+            onClick={approve}
+            disabled={isInvalid || isSaving}
+            title="Approve (A)"
+            aria-keyshortcuts="A"
+            className="flex-[2] px-6 py-3 rounded-2xl font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-100 flex items-center justify-center gap-2 disabled:opacity-50 disabled:hover:bg-emerald-600"
+          >
+            {isSaving ? <Loader2 size={20} className="animate-spin" /> : <Check size={20} />}
+            {isReanalysis ? 'Approve & Update' : duplicates.length > 0 ? 'Save Separately' : 'Approve & Save'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
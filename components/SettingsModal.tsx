@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useId, useState } from 'react';
+import { X, Plus, Trash2, AlertCircle, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem, Settings } from '../types';
+import { COMMON_CURRENCIES, isCurrencyCode, rebaseRates } from '../lib/currency';
+
+interface SettingsModalProps {
+  settings: Settings;
+  inventory: InventoryItem[];
+  onSave: (settings: Settings) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+
+export default function SettingsModal({ settings, inventory, onSave, onClose }: SettingsModalProps) {
+  const dialog = useDialog(onClose);
+  const [draft, setDraft] = useState(settings);
+  const [newCode, setNewCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const idPrefix = useId();
+  const fieldId = (name: string) => `${idPrefix}-${name}`;
+
+  const home = draft.homeCurrency;
+  const rateCodes = Object.keys(draft.exchangeRates).filter(code => code !== home).sort();
+  const usedCodes = [...new Set(inventory.map(item => item.currency))];
+  const missingCodes = usedCodes.filter(code => code !== home && !draft.exchangeRates[code]);
+  const currencyOptions = [...new Set([...COMMON_CURRENCIES, ...Object.keys(draft.exchangeRates), home])].sort();
+  const invalidRates = rateCodes.filter(code => !(draft.exchangeRates[code] > 0));
+
+  const changeHomeCurrency = (code: string) => {
+    const rebased = rebaseRates(draft.exchangeRates, code);
+    if (!rebased && rateCodes.length > 0 &&
+      !window.confirm(`There's no exchange rate for ${code} yet, so the existing rates can't be converted and will be cleared. Continue?`)) {
+      return;
+    }
+    setDraft({ ...draft, homeCurrency: code, exchangeRates: rebased ?? { [code]: 1 } });
+  };
+
+  const setRate = (code: string, rate: number) => {
+    setDraft({ ...draft, exchangeRates: { ...draft.exchangeRates, [code]: rate } });
+  };
+
+  const removeRate = (code: string) => {
+    const { [code]: _removed, ...rest } = draft.exchangeRates;
+    setDraft({ ...draft, exchangeRates: rest });
+  };
+
+  const addRate = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (!isCurrencyCode(normalized) || normalized === home || draft.exchangeRates[normalized]) return;
+    setRate(normalized, 1);
+    setNewCode('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-md rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <h2 id={dialog.titleId} className="text-xl font-bold">Settings</h2>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label htmlFor={fieldId('home-currency')} className="text-xs font-bold text-stone-400 uppercase">Home Currency</label>
+              <select id={fieldId('home-currency')} value={home} onChange={(e) => changeHomeCurrency(e.target.value)} className={inputClassName}>
+                {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('target-market')} className="text-xs font-bold text-stone-400 uppercase">Target Market</label>
+              <input
+                id={fieldId('target-market')}
+                type="text"
+                value={draft.targetMarket}
+                placeholder="e.g. United Kingdom"
+                onChange={(e) => setDraft({ ...draft, targetMarket: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-stone-500">
+            New photos are priced in {home} for buyers in {draft.targetMarket || 'your market'}, and totals are reported in {home}.
+            Collections you add keep their own currency.
+          </p>
+
+          <div className="space-y-1">
+            <label htmlFor={fieldId('stale-days')} className="text-xs font-bold text-stone-400 uppercase">Flag Prices Older Than</label>
+            <div className="flex items-center gap-3">
+              <input
+                id={fieldId('stale-days')}
+                type="number"
+                min={0}
+                step={1}
+                value={draft.stalePriceDays}
+                onChange={(e) => setDraft({ ...draft, stalePriceDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className={`${inputClassName} w-28`}
+              />
+              <span className="text-sm text-stone-500">days</span>
+            </div>
+            <p className="text-xs text-stone-500">
+              {draft.stalePriceDays > 0
+                ? `Unsold items whose estimate hasn't changed in ${draft.stalePriceDays} days are marked for a re-check.`
+                : 'Stale-price flags are off.'}
+            </p>
+          </div>
+
+          <section className="space-y-3">
+            <div>
+              <h3 className="text-sm font-bold">Exchange Rates</h3>
+              <p className="text-xs text-stone-500">Used to add up items priced in other currencies. Update them as often as you like.</p>
+            </div>
+            {rateCodes.length === 0 && (
+              <p className="text-sm text-stone-400">No other currencies yet.</p>
+            )}
+            {rateCodes.map(code => (
+              <div key={code} className="flex items-center gap-3 text-sm">
+                <span className="w-16 font-mono text-stone-500">1 {code} =</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft.exchangeRates[code] || ''}
+                  onChange={(e) => setRate(code, parseFloat(e.target.value) || 0)}
+                  className={`${inputClassName} flex-1`}
+                />
+                <span className="font-mono text-stone-500">{home}</span>
+                <button
+                  onClick={() => removeRate(code)}
+                  className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                  title={`Remove ${code}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            {missingCodes.length > 0 && (
+              <div className="text-xs text-amber-700 bg-amber-50 rounded-xl p-3 flex items-start gap-2">
+                <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                <div>
+                  Some items are priced in currencies without a rate and are left out of totals:{' '}
+                  {missingCodes.map(code => (
+                    <button key={code} onClick={() => addRate(code)} className="font-bold underline mr-2">Add {code}</button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newCode}
+                maxLength={3}
+                placeholder="Currency code, e.g. EUR"
+                onChange={(e) => setNewCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => e.key === 'Enter' && addRate(newCode)}
+                className={inputClassName}
+              />
+              <button
+                onClick={() => addRate(newCode)}
+                disabled={!isCurrencyCode(newCode) || newCode === home || !!draft.exchangeRates[newCode]}
+                className="px-4 rounded-xl border border-stone-200 font-bold text-sm flex items-center gap-1 hover:bg-stone-100 disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+              >
+                <Plus size={16} />
+                Add
+              </button>
+            </div>
+          </section>
+        </div>
+
+        <div className="p-6 bg-stone-50 flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || invalidRates.length > 0}
+            className="w-full py-3 bg-stone-900 text-white rounded-2xl font-bold hover:bg-stone-800 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-stone-900"
+          >
+            {isSaving && <Loader2 size={18} className="animate-spin" />}
+            {invalidRates.length > 0 ? `Enter a rate for ${invalidRates.join(', ')}` : 'Save Settings'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
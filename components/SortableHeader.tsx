@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { InventoryQuery, SortKey } from '../types';
+
+interface SortableHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  sort: InventoryQuery['sort'];
+  onSort: (sort: InventoryQuery['sort']) => void;
+  className?: string;
+}
+
+// Numbers and dates are most useful biggest/newest first; text reads best A–Z.
+const FIRST_DIRECTION: Record<SortKey, 'asc' | 'desc'> = {
+  item_name: 'asc',
+  category: 'asc',
+  status: 'asc',
+  value: 'desc',
+  createdAt: 'desc'
+};
+
+export default function SortableHeader({ label, sortKey, sort, onSort, className = '' }: SortableHeaderProps) {
+  const isActive = sort?.key === sortKey;
+  const first = FIRST_DIRECTION[sortKey];
+
+  // Cycles through first direction → reverse → back to the default order
+  const cycle = () => {
+    if (!isActive) onSort({ key: sortKey, direction: first });
+    else if (sort.direction === first) onSort({ key: sortKey, direction: first === 'asc' ? 'desc' : 'asc' });
+    else onSort(null);
+  };
+
+  const Icon = !isActive ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      className={`px-6 py-4 text-xs font-bold uppercase tracking-widest ${isActive ? 'text-stone-700' : 'text-stone-400'} ${className}`}
+      aria-sort={isActive ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button onClick={cycle} className="inline-flex items-center gap-1 uppercase tracking-widest hover:text-stone-700 transition-all">
+        {label}
+        <Icon size={12} className={isActive ? '' : 'opacity-40'} />
+      </button>
+    </th>
+  );
+}
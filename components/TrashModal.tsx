@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useDialog } from '../hooks/useDialog';
+import { InventoryItem, TrashedItem } from '../types';
+import * as inventoryApi from '../services/inventoryApi';
+import { coverThumbnail } from '../lib/photos';
+import { formatMoney } from '../lib/currency';
+
+interface TrashModalProps {
+  onRestored: (items: InventoryItem[]) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export default function TrashModal({ onRestored, onError, onClose }: TrashModalProps) {
+  const dialog = useDialog(onClose);
+  const [items, setItems] = useState<TrashedItem[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    inventoryApi.fetchTrash()
+      .then(setItems)
+      .catch(error => {
+        console.error(error);
+        onError("Couldn't load the trash");
+        setItems([]);
+      });
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(error);
+      onError(failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const drop = (ids: string[]) => setItems(prev => prev?.filter(item => !ids.includes(item.id)) ?? null);
+
+  const restore = (ids: string[]) => run(async () => {
+    const restored = await inventoryApi.restoreItems(ids);
+    drop(restored.map(item => item.id));
+    onRestored(restored);
+  }, "Failed to restore items");
+
+  const purge = (ids: string[]) => {
+    const message = ids.length === 1
+      ? "Delete this item for good? Its photos and history are removed and it can't be undone."
+      : `Delete all ${ids.length} items in the trash for good? Their photos and history are removed and it can't be undone.`;
+    if (!window.confirm(message)) return;
+    run(async () => {
+      await inventoryApi.purgeItems(ids);
+      drop(ids);
+    }, "Failed to delete items");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 backdrop-blur-sm p-4">
+      <motion.div
+        {...dialog.dialogProps}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="p-6 border-bottom border-stone-100 flex items-center justify-between">
+          <div>
+            <h2 id={dialog.titleId} className="text-xl font-bold">Trash</h2>
+            <p className="text-sm text-stone-500">Deleted items stay here until you restore or purge them.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto">
+          {items === null ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="animate-spin text-emerald-600" size={32} />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-12 text-center text-stone-400 text-sm">The trash is empty.</p>
+          ) : (
+            <ul className="divide-y divide-stone-100">
+              {items.map(item => (
+                <li key={item.id} className="py-3 flex items-center gap-3">
+                  <img
+                    src={coverThumbnail(item)}
+                    alt={item.item_name}
+                    className="w-10 h-10 rounded-xl object-cover border border-stone-200"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold truncate">{item.item_name}</div>
+                    <div className="text-xs text-stone-500">
+                      {formatMoney(item.estimated_value, item.currency)} · deleted {new Date(item.deletedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => restore([item.id])}
+                    disabled={isWorking}
+                    className="p-2 text-stone-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all disabled:opacity-40"
+                    title="Restore"
+                  >
+                    <RotateCcw size={18} />
+                  </button>
+                  <button
+                    onClick={() => purge([item.id])}
+                    disabled={isWorking}
+                    className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all disabled:opacity-40"
+                    title="Delete forever"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {items && items.length > 0 && (
+          <div className="p-6 bg-stone-50 flex gap-3">
+            <button
+              onClick={() => restore(items.map(item => item.id))}
+              disabled={isWorking}
+              className="flex-1 py-3 rounded-2xl font-bold text-stone-700 hover:bg-stone-200 transition-all disabled:opacity-40"
+            >
+              Restore All
+            </button>
+            <button
+              onClick={() => purge(items.map(item => item.id))}
+              disabled={isWorking}
+              className="flex-1 py-3 bg-red-600 text-white rounded-2xl font-bold hover:bg-red-700 transition-all disabled:opacity-40"
+            >
+              Empty Trash
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useRef } from 'react';
+
+export type FacingMode = 'environment' | 'user';
+
+const describeCameraError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return "Camera access was blocked. Allow it in your browser's site settings and try again.";
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return "No camera was found on this device.";
+    case 'NotReadableError':
+      return "The camera is in use by another app.";
+    default:
+      return "Couldn't start the camera.";
+  }
+};
+
+export const isCameraSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Streams the device camera into a <video> element while the component is
+ * mounted, and releases it (turning the camera light off) on unmount or when
+ * the facing mode changes.
+ */
+export function useCameraStream(facingMode: FacingMode) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState('');
+  const [canFlip, setCanFlip] = useState(false);
+
+  useEffect(() => {
+    if (!isCameraSupported()) {
+      setError("This browser can't access the camera. Camera capture needs HTTPS or localhost.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError('');
+
+    (async () => {
+      try {
+        const media = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1440 } },
+          audio: false
+        });
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          await video.play();
+        }
+        setIsReady(true);
+        // Device labels and counts are only reliable once permission has been granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanFlip(devices.filter(device => device.kind === 'videoinput').length > 1);
+      } catch (cause) {
+        console.error(cause);
+        if (!cancelled) setError(describeCameraError(cause));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode]);
+
+  /** Grabs the current frame at the camera's full resolution as a JPEG file. */
+  const capture = (): Promise<File | null> => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return Promise.resolve(null);
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return new Promise(resolve => canvas.toBlob(
+      blob => resolve(blob && new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' })),
+      'image/jpeg',
+      0.92
+    ));
+  };
+
+  return { videoRef, isReady, error, canFlip, capture };
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useId, useRef } from 'react';
+
+// Open dialogs, innermost last; only that one takes Escape and keeps focus
+const openDialogs: HTMLElement[] = [];
+
+/** Whether any dialog is open, i.e. page-level shortcuts are covered. */
+export const isDialogOpen = () => openDialogs.length > 0;
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+const focusableIn = (container: HTMLElement) =>
+  [...container.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(element => element.getClientRects().length > 0);
+
+/**
+ * Makes an element behave as a modal dialog: focus moves into it when it opens
+ * (unless a field inside already took it with autoFocus), Tab and Shift+Tab
+ * cycle within it, Escape calls `onClose`, and focus goes back to wherever it
+ * was once the dialog closes. Spread the returned props onto the dialog
+ * element and give its heading `id={titleId}`.
+ */
+export function useDialog(onClose: () => void) {
+  const ref = useRef<HTMLElement | null>(null);
+  const titleId = useId();
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const returnFocusTo = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    openDialogs.push(dialog);
+    if (!dialog.contains(document.activeElement)) dialog.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (openDialogs[openDialogs.length - 1] !== dialog) return;
+      // Fields that use Escape themselves (e.g. to cancel an inline rename) mark it handled
+      if (e.key === 'Escape' && !e.defaultPrevented) {
+        e.preventDefault();
+        onCloseRef.current();
+      } else if (e.key === 'Tab') {
+        const focusable = focusableIn(dialog);
+        if (focusable.length === 0) {
+          e.preventDefault();
+          return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const active = document.activeElement;
+        if (e.shiftKey && (active === first || active === dialog)) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (active === last || !dialog.contains(active))) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      openDialogs.splice(openDialogs.indexOf(dialog), 1);
+      // Unless a dialog opened in its place has already taken focus
+      const active = document.activeElement;
+      const isFocusUnclaimed = !active || active === document.body || dialog.contains(active);
+      if (isFocusUnclaimed && returnFocusTo?.isConnected) returnFocusTo.focus();
+    };
+  }, []);
+
+  return {
+    titleId,
+    /** Whether this is the innermost open dialog, so its own shortcuts apply. */
+    isTopmost: () => openDialogs[openDialogs.length - 1] === ref.current,
+    dialogProps: {
+      ref,
+      role: 'dialog',
+      'aria-modal': true,
+      'aria-labelledby': titleId,
+      tabIndex: -1
+    }
+  };
+}
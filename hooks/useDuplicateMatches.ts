@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { IntakeJob, InventoryItem, ItemPhoto } from '../types';
+import { DuplicateMatch, findDuplicates } from '../lib/duplicates';
+import { hashDistance, photoHash } from '../lib/imageHash';
+
+const hashAll = async (photos: ItemPhoto[]) =>
+  (await Promise.all(photos.map(photo => photoHash(photo.thumbnail)))).filter((hash): hash is string => hash !== null);
+
+// Each item is compared by its cover photo only, which keeps a large inventory cheap to check
+const coverPhotoDistances = async (photos: ItemPhoto[], inventory: InventoryItem[]) => {
+  const distances = new Map<string, number>();
+  const incoming = await hashAll(photos);
+  if (incoming.length === 0) return distances;
+  await Promise.all(inventory.map(async item => {
+    const [cover] = await hashAll(item.photos.slice(0, 1));
+    if (cover) distances.set(item.id, Math.min(...incoming.map(hash => hashDistance(hash, cover))));
+  }));
+  return distances;
+};
+
+/**
+ * Inventory items that the analysis under review might duplicate. Name and
+ * identifier matches show straight away; photo matches join them once the
+ * photos have been hashed. Re-analyses of an existing item are never checked.
+ */
+export function useDuplicateMatches(job: IntakeJob | undefined, inventory: InventoryItem[]) {
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+
+  useEffect(() => {
+    const result = job?.result;
+    if (!result || job.itemId) {
+      setMatches([]);
+      return;
+    }
+    let isCurrent = true;
+    setMatches(findDuplicates(result, inventory, new Map()));
+    coverPhotoDistances(job.photos, inventory)
+      .then(distances => {
+        if (isCurrent) setMatches(findDuplicates(result, inventory, distances));
+      })
+      .catch(error => console.error("Failed to compare photos", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [job?.id, job?.result, job?.photos, inventory]);
+
+  return matches;
+}
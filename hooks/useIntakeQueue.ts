@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { AIResponse, IntakeJob, InventoryItem } from '../types';
+import { processPhoto } from '../lib/imagePipeline';
+import { generateId } from '../lib/id';
+import { MAX_PHOTOS_PER_ITEM } from '../lib/photos';
+import { NetworkError } from '../services/http';
+import { deletePendingJob, loadPendingJobs, savePendingJob } from '../services/offlineStore';
+import { useOnlineStatus } from './useOnlineStatus';
+
+// Enough to keep the pipeline busy without tripping the API's rate limits.
+export const MAX_CONCURRENT_ANALYSES = 3;
+
+type Analyzer = (base64Images: string[]) => Promise<AIResponse | null>;
+
+const describeFiles = (files: File[]) =>
+  files.length > 1 ? `${files[0].name} +${files.length - 1} more` : files[0].name;
+
+// Only these change what is worth keeping on the device; status moves alone don't need a rewrite
+const hasStoredChanges = (previous: IntakeJob | undefined, job: IntakeJob) =>
+  !previous || previous.files !== job.files || previous.photos !== job.photos || previous.result !== job.result;
+
+/**
+ * Photos waiting to be analyzed, and analyses waiting for review. Every job is
+ * kept in IndexedDB until it is removed, so captures survive a reload, and
+ * jobs that hit a dead connection wait as `offline` until it comes back.
+ */
+export function useIntakeQueue(analyze: Analyzer, concurrency = MAX_CONCURRENT_ANALYSES) {
+  const [jobs, setJobs] = useState<IntakeJob[]>([]);
+  const activeIds = useRef(new Set<string>());
+  const analyzeRef = useRef(analyze);
+  analyzeRef.current = analyze;
+  const storedJobs = useRef(new Map<string, IntakeJob>());
+  const isOnline = useOnlineStatus();
+
+  const updateJob = (id: string, patch: Partial<IntakeJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const runJob = async (job: IntakeJob) => {
+    let patch: Partial<IntakeJob>;
+    try {
+      const photos = [...job.photos];
+      if (job.files.length > 0) {
+        updateJob(job.id, { status: 'reading' });
+        for (const file of job.files) {
+          photos.push(await processPhoto(file));
+        }
+      }
+      if (!navigator.onLine) {
+        patch = { status: 'offline', photos, files: [] };
+      } else {
+        updateJob(job.id, { status: 'analyzing', photos, files: [] });
+        const result = await analyzeRef.current(photos.map(photo => photo.src));
+        if (!result) throw new Error("No analysis returned");
+        patch = { status: 'ready', result };
+      }
+    } catch (error) {
+      console.error(error);
+      patch = error instanceof NetworkError || !navigator.onLine
+        ? { status: 'offline' }
+        : { status: 'failed', error: error instanceof Error ? error.message : "Analysis failed" };
+    }
+    // Free the slot before the state update so the scheduler sees it.
+    activeIds.current.delete(job.id);
+    updateJob(job.id, patch);
+  };
+
+  // Worker pool: whenever the queue changes, start queued jobs until every slot is busy.
+  useEffect(() => {
+    const freeSlots = concurrency - activeIds.current.size;
+    if (freeSlots <= 0) return;
+    jobs
+      .filter(job => job.status === 'queued' && !activeIds.current.has(job.id))
+      .slice(0, freeSlots)
+      .forEach(job => {
+        activeIds.current.add(job.id);
+        runJob(job);
+      });
+  }, [jobs, concurrency]);
+
+  // Pick up whatever was still in the queue when the app was last closed
+  useEffect(() => {
+    loadPendingJobs()
+      .then(saved => {
+        const restored = saved.map((job): IntakeJob => ({ ...job, status: job.result ? 'ready' : 'queued' }));
+        setJobs(prev => [...restored.filter(job => !prev.some(existing => existing.id === job.id)), ...prev]);
+      })
+      .catch(error => console.error("Failed to load saved intake jobs", error));
+  }, []);
+
+  useEffect(() => {
+    const current = new Map(jobs.map(job => [job.id, job]));
+    for (const job of jobs) {
+      if (hasStoredChanges(storedJobs.current.get(job.id), job)) {
+        savePendingJob(job).catch(error => console.error("Failed to save intake job", error));
+      }
+    }
+    for (const id of storedJobs.current.keys()) {
+      if (!current.has(id)) deletePendingJob(id).catch(error => console.error("Failed to remove intake job", error));
+    }
+    storedJobs.current = current;
+  }, [jobs]);
+
+  // Back online: send everything that was waiting for a connection
+  useEffect(() => {
+    if (!isOnline) return;
+    setJobs(prev => prev.some(job => job.status === 'offline')
+      ? prev.map(job => job.status === 'offline' ? { ...job, status: 'queued' } : job)
+      : prev);
+  }, [isOnline]);
+
+  const createJob = (files: File[]): IntakeJob => ({
+    id: generateId(),
+    files,
+    fileName: describeFiles(files),
+    status: 'queued',
+    photos: [],
+    addedAt: Date.now()
+  });
+
+  /**
+   * Queues photos for analysis: one item per photo, or, with `asOneItem`,
+   * every photo as a different angle of the same item.
+   */
+  const enqueue = (files: File[], { asOneItem = false } = {}) => {
+    const newJobs = asOneItem
+      ? [createJob(files.slice(0, MAX_PHOTOS_PER_ITEM))]
+      : files.map(file => createJob([file]));
+    setJobs(prev => [...prev, ...newJobs]);
+    return newJobs;
+  };
+
+  /**
+   * Queues saved items to be analyzed again from their existing photos. The
+   * results go through review like new photos, but update the original item.
+   */
+  const enqueueReanalysis = (items: InventoryItem[]) => {
+    const newJobs: IntakeJob[] = items
+      .filter(item => item.photos.length > 0)
+      .map(item => ({
+        id: generateId(),
+        itemId: item.id,
+        files: [],
+        fileName: item.item_name,
+        status: 'queued',
+        photos: item.photos,
+        addedAt: Date.now()
+      }));
+    setJobs(prev => [...prev, ...newJobs]);
+    return newJobs;
+  };
+
+  /** Adds more angles to a job and sends it back through analysis with all of its photos. */
+  const addPhotos = (id: string, files: File[]) => {
+    setJobs(prev => prev.map(job => {
+      if (job.id !== id) return job;
+      const room = MAX_PHOTOS_PER_ITEM - job.photos.length;
+      return { ...job, files: [...job.files, ...files].slice(0, room), status: 'queued', error: undefined };
+    }));
+  };
+
+  /** Reorders or removes a job's photos without re-running analysis. */
+  const setPhotoOrder = (id: string, order: number[]) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, photos: order.map(index => job.photos[index]) } : job));
+  };
+
+  const retryJob = (id: string) => {
+    updateJob(id, { status: 'queued', error: undefined });
+  };
+
+  const retryFailed = () => {
+    setJobs(prev => prev.map(job => job.status === 'failed' ? { ...job, status: 'queued', error: undefined } : job));
+  };
+
+  const updateResult = (id: string, patch: Partial<AIResponse>) => {
+    setJobs(prev => prev.map(job => job.id === id && job.result ? { ...job, result: { ...job.result, ...patch } } : job));
+  };
+
+  const removeJob = (id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id));
+  };
+
+  /** Puts a removed job back where it was, e.g. to undo discarding it. */
+  const restoreJob = (job: IntakeJob, index: number) => {
+    setJobs(prev => prev.some(existing => existing.id === job.id) ? prev : [...prev.slice(0, index), job, ...prev.slice(index)]);
+  };
+
+  const readyJobs = jobs.filter(job => job.status === 'ready');
+
+  return { jobs, readyJobs, enqueue, enqueueReanalysis, addPhotos, setPhotoOrder, retryJob, retryFailed, updateResult, removeJob, restoreJob };
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef } from 'react';
+
+/**
+ * Checkbox-style multi-select over an ordered list of ids. Shift-clicking
+ * selects the whole range from the last clicked row, in the order currently
+ * shown, and ids that disappear from `allIds` drop out of the selection.
+ */
+export function useSelection(visibleIds: string[], allIds: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const anchor = useRef<string | null>(null);
+
+  const existing = new Set(allIds);
+  const selectedIds = [...selected].filter(id => existing.has(id));
+  const isSelected = (id: string) => selected.has(id) && existing.has(id);
+
+  const toggle = (id: string, { range = false } = {}) => {
+    const next = new Set(selected);
+    const from = anchor.current ? visibleIds.indexOf(anchor.current) : -1;
+    const to = visibleIds.indexOf(id);
+    if (range && from !== -1 && to !== -1) {
+      // Ranges take on the state of the row that started them
+      const value = selected.has(anchor.current!);
+      for (const rangeId of visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+        if (value) next.add(rangeId);
+        else next.delete(rangeId);
+      }
+    } else {
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      anchor.current = id;
+    }
+    setSelected(next);
+  };
+
+  const selectAll = () => setSelected(new Set([...selected, ...visibleIds]));
+
+  const clear = () => {
+    setSelected(new Set());
+    anchor.current = null;
+  };
+
+  const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(isSelected);
+  const someVisibleSelected = visibleIds.some(isSelected);
+
+  return { selectedIds, isSelected, toggle, selectAll, clear, allVisibleSelected, someVisibleSelected };
+}
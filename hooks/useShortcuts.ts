@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef } from 'react';
+import { isTypingTarget, shortcutFromEvent } from '../lib/shortcuts';
+
+export type Shortcuts = Record<string, () => void>;
+
+/**
+ * Runs the matching handler for key presses anywhere on the page, except
+ * while typing in a field or when `isActive` says the shortcuts don't apply
+ * right now (e.g. a dialog is covering them). A held key fires once, not on
+ * every auto-repeat. Handlers and `isActive` are read fresh on every press,
+ * so they can close over the latest state.
+ */
+export function useShortcuts(shortcuts: Shortcuts, isActive: () => boolean = () => true) {
+  const latest = useRef({ shortcuts, isActive });
+  latest.current = { shortcuts, isActive };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.defaultPrevented || isTypingTarget(e.target)) return;
+      const shortcut = shortcutFromEvent(e);
+      const handler = shortcut && latest.current.shortcuts[shortcut];
+      if (!handler || !latest.current.isActive()) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useRef, useState } from 'react';
+
+/** A change that has already been made, with how to take it back and make it again. */
+export interface Command {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// Enough to walk back a working session without holding on to every old item version
+const MAX_HISTORY = 50;
+
+/**
+ * Undo/redo stacks of commands. A command only moves between the stacks once
+ * its undo or redo has succeeded, so a failed request can simply be retried.
+ */
+export function useUndoHistory() {
+  // Kept in a ref so keyboard handlers and toast actions never act on a stale stack
+  const stacks = useRef<{ past: Command[]; future: Command[] }>({ past: [], future: [] });
+  const isBusy = useRef(false);
+  const [, setVersion] = useState(0);
+  const changed = () => setVersion(version => version + 1);
+
+  const record = (command: Command) => {
+    stacks.current = { past: [...stacks.current.past, command].slice(-MAX_HISTORY), future: [] };
+    changed();
+  };
+
+  const step = async (from: 'past' | 'future', command?: Command) => {
+    const stack = stacks.current[from];
+    const next = stack[stack.length - 1];
+    // An "Undo" on an older toast only applies while its change is still the latest one
+    if (!next || isBusy.current || (command && command !== next)) return null;
+    isBusy.current = true;
+    try {
+      await (from === 'past' ? next.undo() : next.redo());
+      const { past, future } = stacks.current;
+      stacks.current = from === 'past'
+        ? { past: past.slice(0, -1), future: [...future, next] }
+        : { past: [...past, next], future: future.slice(0, -1) };
+      changed();
+      return next;
+    } finally {
+      isBusy.current = false;
+    }
+  };
+
+  /** Undoes the latest command, or only `command` if given and it is the latest. Resolves to what was undone. */
+  const undo = (command?: Command) => step('past', command);
+  const redo = () => step('future');
+
+  const { past, future } = stacks.current;
+  return {
+    record,
+    undo,
+    redo,
+    nextUndo: past[past.length - 1] ?? null,
+    nextRedo: future[future.length - 1] ?? null
+  };
+}
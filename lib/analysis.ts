@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIResponse, ConditionGrade, ConfidenceField, IdentifierType } from '../types';
+
+export const CONDITION_GRADES: ConditionGrade[] = ['new', 'like_new', 'very_good', 'good', 'acceptable', 'for_parts'];
+
+export const CONDITION_GRADE_LABELS: Record<ConditionGrade, string> = {
+  new: 'New',
+  like_new: 'Like New',
+  very_good: 'Very Good',
+  good: 'Good',
+  acceptable: 'Acceptable',
+  for_parts: 'For Parts / Not Working'
+};
+
+export const IDENTIFIER_TYPES: IdentifierType[] = ['upc', 'ean', 'isbn', 'serial', 'model_number'];
+
+export const IDENTIFIER_LABELS: Record<IdentifierType, string> = {
+  upc: 'UPC',
+  ean: 'EAN',
+  isbn: 'ISBN',
+  serial: 'Serial',
+  model_number: 'Model No.'
+};
+
+export const CONFIDENCE_FIELDS: ConfidenceField[] = ['item_name', 'brand', 'model', 'category', 'estimated_value', 'condition_grade'];
+
+// Below this the review panel flags a field for a closer look.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** The model's confidence in one field, falling back to its overall confidence. */
+export const fieldConfidence = (analysis: Pick<AIResponse, 'confidence'>, field: ConfidenceField) =>
+  analysis.confidence.fields[field] ?? analysis.confidence.overall;
+
+export const isLowConfidence = (analysis: Pick<AIResponse, 'confidence'>, field: ConfidenceField) =>
+  fieldConfidence(analysis, field) < LOW_CONFIDENCE_THRESHOLD;
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, ItemChange, TrackedField } from '../types';
+
+export const TRACKED_FIELDS: TrackedField[] = [
+  'estimated_value',
+  'price_low',
+  'price_high',
+  'currency',
+  'salePrice',
+  'suggested_description'
+];
+
+export const TRACKED_FIELD_LABELS: Record<TrackedField, string> = {
+  estimated_value: 'Est. value',
+  price_low: 'Low estimate',
+  price_high: 'High estimate',
+  currency: 'Currency',
+  salePrice: 'Sale price',
+  suggested_description: 'Description'
+};
+
+/** The tracked fields that differ between two versions of an item. */
+export const diffTrackedFields = (before: InventoryItem, after: InventoryItem): Pick<ItemChange, 'field' | 'from' | 'to'>[] =>
+  TRACKED_FIELDS
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, from: before[field], to: after[field] }));
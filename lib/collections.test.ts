@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Collection } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, applyCostBasisRule, collectionSettings, placeInCollection, withDescriptionFooter } from './collections';
+import { DEFAULT_SETTINGS, toHomeCurrency } from './currency';
+import { createDraftItem } from './items';
+
+const settings = { ...DEFAULT_SETTINGS, homeCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1, GBP: 1.25 } };
+
+const collection = (fields: Partial<Collection>): Collection => ({
+  id: 'estate',
+  name: 'Estate sale',
+  currency: 'USD',
+  costBasisRule: { kind: 'manual' },
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  itemCount: 0,
+  createdAt: 0,
+  ...fields
+});
+
+test('new items get their cost basis from the collection\'s rule', () => {
+  const item = createDraftItem({ estimated_value: 33.33 });
+  assert.equal(applyCostBasisRule(item, { kind: 'fixed', amount: 5 }).costBasis, 5);
+  assert.equal(applyCostBasisRule(item, { kind: 'percent', percent: 40 }).costBasis, 13.33);
+  assert.equal(applyCostBasisRule(item, { kind: 'manual' }).costBasis, 0);
+  // A cost basis already entered is kept
+  assert.equal(applyCostBasisRule({ ...item, costBasis: 2 }, { kind: 'fixed', amount: 5 }).costBasis, 2);
+
+  const placed = placeInCollection(item, collection({ costBasisRule: { kind: 'fixed', amount: 1 } }));
+  assert.equal(placed.collectionId, 'estate');
+  assert.equal(placed.costBasis, 1);
+});
+
+test('inside a collection, totals come out in its currency', () => {
+  const euro = collectionSettings(settings, collection({ currency: 'EUR' }));
+  assert.equal(euro.homeCurrency, 'EUR');
+  assert.ok(Math.abs(toHomeCurrency(100, 'GBP', euro)! - 125 / 1.1) < 1e-9);
+
+  assert.equal(collectionSettings(settings, collection({ currency: 'USD' })), settings);
+  // No rate to get to yen, so the home currency stays
+  assert.equal(collectionSettings(settings, collection({ currency: 'JPY' })), settings);
+  assert.equal(collectionSettings(settings, undefined), settings);
+});
+
+test('the description footer goes after a blank line, or on its own', () => {
+  const items = [createDraftItem({ suggested_description: 'A lamp.' }), createDraftItem({ suggested_description: '' })];
+  const exported = withDescriptionFooter(items, '  Ships from Leeds. ');
+  assert.deepEqual(exported.map(item => item.suggested_description), ['A lamp.\n\nShips from Leeds.', 'Ships from Leeds.']);
+  assert.equal(withDescriptionFooter(items, ' '), items);
+});
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Collection, CollectionExportSettings, CostBasisRule, InventoryItem, Settings } from '../types';
+import { rebaseRates } from './currency';
+
+// Holds everything from before collections existed, and anything whose collection is unknown; it can't be deleted
+export const DEFAULT_COLLECTION_ID = 'default';
+
+export const MAX_COLLECTION_NAME_LENGTH = 60;
+export const MAX_DESCRIPTION_FOOTER_LENGTH = 1000;
+
+export const COST_BASIS_RULE_LABELS: Record<CostBasisRule['kind'], string> = {
+  manual: 'Enter by hand',
+  fixed: 'Same amount for every item',
+  percent: 'Share of the estimate'
+};
+
+export const DEFAULT_EXPORT_SETTINGS: CollectionExportSettings = { format: 'ebay', descriptionFooter: '' };
+
+const roundToCent = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Fills in a new item's cost basis by a collection's rule. Items that already have one keep it. */
+export const applyCostBasisRule = (item: InventoryItem, rule: CostBasisRule): InventoryItem => {
+  if (item.costBasis !== 0) return item;
+  switch (rule.kind) {
+    case 'fixed':
+      return { ...item, costBasis: rule.amount };
+    case 'percent':
+      return { ...item, costBasis: roundToCent(item.estimated_value * rule.percent / 100) };
+    default:
+      return item;
+  }
+};
+
+/** Puts a new item into a collection, with its cost basis set by the collection's rule. */
+export const placeInCollection = (item: InventoryItem, collection: Collection) =>
+  applyCostBasisRule({ ...item, collectionId: collection.id }, collection.costBasisRule);
+
+/**
+ * Settings as seen from inside a collection: its currency becomes the home
+ * currency, so totals come out in it. Without an exchange rate to get there
+ * the global home currency is kept.
+ */
+export const collectionSettings = (settings: Settings, collection: Collection | undefined): Settings => {
+  if (!collection || collection.currency === settings.homeCurrency) return settings;
+  const exchangeRates = rebaseRates(settings.exchangeRates, collection.currency);
+  return exchangeRates ? { ...settings, homeCurrency: collection.currency, exchangeRates } : settings;
+};
+
+/** Items as they go into an export file, with the collection's footer added to each description. */
+export const withDescriptionFooter = (items: InventoryItem[], footer: string) => {
+  const trimmed = footer.trim();
+  if (!trimmed) return items;
+  return items.map(item => ({
+    ...item,
+    suggested_description: item.suggested_description ? `${item.suggested_description}\n\n${trimmed}` : trimmed
+  }));
+};
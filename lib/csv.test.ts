@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from './csv';
+
+test('cells with commas, quotes and newlines survive a round trip', () => {
+  const rows = [{ name: 'Lamp, brass', notes: 'Says "Made in USA"\non the base' }, { name: 'Vase', notes: null }];
+  const csv = toCsv(['name', 'notes'], rows);
+  assert.equal(csv, 'name,notes\r\n"Lamp, brass","Says ""Made in USA""\non the base"\r\nVase,');
+  assert.deepEqual(parseCsv(csv), [['name', 'notes'], ['Lamp, brass', 'Says "Made in USA"\non the base'], ['Vase', '']]);
+});
+
+test('a leading BOM, bare newlines and blank trailing lines are tolerated', () => {
+  assert.deepEqual(parseCsv('﻿name,value\nClock,12\n\n,\r\n'), [['name', 'value'], ['Clock', '12']]);
+});
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildImportRows, guessMapping, parseAmount } from './csvImport';
+import { createDraftItem } from './items';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+test('headers are matched to fields by their usual names', () => {
+  assert.deepEqual(guessMapping(['Title', 'Price ($)', 'Qty', 'Custom label', 'Shelf']), {
+    item_name: 0,
+    estimated_value: 1,
+    quantity: 2,
+    sku: 3,
+    location: 4
+  });
+  assert.deepEqual(guessMapping(['Item Name', 'List Price', 'Date Added']), { item_name: 0, estimated_value: 1, createdAt: 2 });
+});
+
+test('spreadsheet amounts are read with their currency symbols and separators', () => {
+  assert.equal(parseAmount('$1,234.50'), 1234.5);
+  assert.equal(parseAmount('€ 12'), 12);
+  assert.equal(parseAmount('n/a'), null);
+});
+
+test('rows become draft items, with errors for cells that cannot be read', () => {
+  const mapping = guessMapping(['Name', 'Value', 'Currency', 'Quantity', 'Status']);
+  const [good, bad] = buildImportRows([
+    ['Desk lamp', '$40', 'eur', '2', 'Listed'],
+    ['', 'lots', 'euro', '1.5', 'gone']
+  ], mapping, [], 'USD', NOW);
+
+  assert.deepEqual(good.errors, []);
+  assert.equal(good.line, 2);
+  assert.equal(good.item.estimated_value, 40);
+  assert.equal(good.item.currency, 'EUR');
+  assert.equal(good.item.quantity, 2);
+  assert.equal(good.item.status, 'listed');
+
+  assert.equal(bad.errors.length, 5);
+  assert.equal(bad.item.currency, 'USD');
+  assert.equal(bad.item.quantity, 1);
+  assert.equal(bad.item.status, 'draft');
+});
+
+test('likely duplicates are flagged against the inventory and earlier rows', () => {
+  const existing = [createDraftItem({ item_name: 'Desk Lamp', category: 'Lighting' })];
+  const rows = buildImportRows([
+    ['desk lamp!', 'lighting'],
+    ['Teapot', 'Kitchen'],
+    ['teapot', 'kitchen']
+  ], { item_name: 0, category: 1 }, existing, 'USD', NOW);
+
+  assert.deepEqual(rows.map(row => row.duplicateOf), [
+    { source: 'inventory', name: 'Desk Lamp' },
+    null,
+    { source: 'file', name: 'Teapot' }
+  ]);
+});
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, ItemStatus } from '../types';
+import { createDraftItem } from './items';
+import { ITEM_STATUSES, withStatus } from './lifecycle';
+import { MAX_LOCATION_LENGTH, MAX_SKU_LENGTH } from './itemForm';
+import { isCurrencyCode } from './currency';
+
+export type ImportField =
+  | 'item_name'
+  | 'category'
+  | 'estimated_value'
+  | 'currency'
+  | 'brand'
+  | 'model'
+  | 'condition_notes'
+  | 'suggested_description'
+  | 'costBasis'
+  | 'quantity'
+  | 'sku'
+  | 'location'
+  | 'status'
+  | 'createdAt';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; synonyms: string[] }[] = [
+  { field: 'item_name', label: 'Item Name', required: true, synonyms: ['name', 'item', 'title', 'item name', 'product'] },
+  { field: 'category', label: 'Category', synonyms: ['category', 'type', 'department'] },
+  { field: 'estimated_value', label: 'Est. Value', synonyms: ['value', 'price', 'estimated value', 'est value', 'estimate', 'list price'] },
+  { field: 'currency', label: 'Currency', synonyms: ['currency', 'currency code'] },
+  { field: 'brand', label: 'Brand', synonyms: ['brand', 'make', 'manufacturer'] },
+  { field: 'model', label: 'Model', synonyms: ['model', 'model name'] },
+  { field: 'condition_notes', label: 'Condition Notes', synonyms: ['condition', 'condition notes', 'notes'] },
+  { field: 'suggested_description', label: 'Description', synonyms: ['description', 'details', 'sales description'] },
+  { field: 'costBasis', label: 'Cost Basis', synonyms: ['cost', 'cost basis', 'paid', 'purchase price'] },
+  { field: 'quantity', label: 'Quantity', synonyms: ['quantity', 'qty', 'units', 'count'] },
+  { field: 'sku', label: 'SKU', synonyms: ['sku', 'custom label', 'stock number', 'item number'] },
+  { field: 'location', label: 'Location', synonyms: ['location', 'bin', 'shelf', 'storage', 'storage location'] },
+  { field: 'status', label: 'Status', synonyms: ['status', 'state'] },
+  { field: 'createdAt', label: 'Date Added', synonyms: ['date', 'date added', 'added', 'created'] }
+];
+
+// Column index for each field; missing fields are not imported
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Pre-fills the mapping by matching spreadsheet headers against known names for each field. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const { field, synonyms } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, i) => !used.has(i) && synonyms.includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+};
+
+/** Reads "$1,234.50"-style spreadsheet amounts. Returns null if the cell isn't a number. */
+export const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[^0-9.\-]/g, '');
+  if (!cleaned) return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const duplicateKey = (item: Pick<InventoryItem, 'item_name' | 'category'>) =>
+  `${normalizeKey(item.item_name)}|${normalizeKey(item.category)}`;
+
+export interface ImportRow {
+  line: number; // 1-based line in the spreadsheet, counting the header
+  item: InventoryItem;
+  errors: string[];
+  duplicateOf: { source: 'inventory' | 'file'; name: string } | null;
+}
+
+/** Maps spreadsheet rows to draft items and flags errors and likely duplicates. */
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: InventoryItem[],
+  defaultCurrency = 'USD',
+  now = Date.now()
+): ImportRow[] => {
+  const existingByKey = new Map(existing.map(item => [duplicateKey(item), item]));
+  const seenInFile = new Map<string, string>();
+
+  return rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const amount = (field: ImportField, label: string) => {
+      const raw = cell(field);
+      if (!raw) return 0;
+      const value = parseAmount(raw);
+      if (value === null || value < 0) {
+        errors.push(`${label} "${raw}" is not a valid amount`);
+        return 0;
+      }
+      return value;
+    };
+
+    const name = cell('item_name');
+    if (!name) errors.push("Item name is empty");
+
+    const dateCell = cell('createdAt');
+    const parsedDate = dateCell ? Date.parse(dateCell) : NaN;
+    if (dateCell && Number.isNaN(parsedDate)) errors.push(`Date "${dateCell}" is not recognised`);
+    const createdAt = Number.isNaN(parsedDate) ? now : parsedDate;
+
+    const quantityCell = cell('quantity');
+    const quantity = quantityCell ? Number(quantityCell) : 1;
+    if (!Number.isInteger(quantity) || quantity < 1) errors.push(`Quantity "${quantityCell}" is not a whole number of at least 1`);
+
+    if (cell('sku').length > MAX_SKU_LENGTH) errors.push(`SKU is longer than ${MAX_SKU_LENGTH} characters`);
+    if (cell('location').length > MAX_LOCATION_LENGTH) errors.push(`Location is longer than ${MAX_LOCATION_LENGTH} characters`);
+
+    const currencyCell = cell('currency').toUpperCase();
+    if (currencyCell && !isCurrencyCode(currencyCell)) errors.push(`Currency "${cell('currency')}" is not a three-letter code like USD`);
+
+    const statusCell = cell('status').toLowerCase() as ItemStatus;
+    if (statusCell && !ITEM_STATUSES.includes(statusCell)) errors.push(`Status "${cell('status')}" is not one of ${ITEM_STATUSES.join(', ')}`);
+
+    const draft = createDraftItem({
+      item_name: name,
+      category: cell('category'),
+      estimated_value: amount('estimated_value', 'Value'),
+      currency: isCurrencyCode(currencyCell) ? currencyCell : defaultCurrency,
+      brand: cell('brand'),
+      model: cell('model'),
+      condition_notes: cell('condition_notes'),
+      suggested_description: cell('suggested_description'),
+      quantity: Number.isInteger(quantity) && quantity >= 1 ? quantity : 1,
+      sku: cell('sku'), // a SKU another item already has is replaced with a fresh one on import
+      location: cell('location')
+    }, createdAt);
+    const item = withStatus(
+      { ...draft, costBasis: amount('costBasis', 'Cost') },
+      ITEM_STATUSES.includes(statusCell) ? statusCell : 'draft',
+      createdAt
+    );
+
+    const key = duplicateKey(item);
+    const existingMatch = existingByKey.get(key);
+    let duplicateOf: ImportRow['duplicateOf'] = null;
+    if (existingMatch) duplicateOf = { source: 'inventory', name: existingMatch.item_name };
+    else if (seenInFile.has(key)) duplicateOf = { source: 'file', name: seenInFile.get(key)! };
+    if (name) seenInFile.set(key, name);
+
+    return { line: index + 2, item, errors, duplicateOf };
+  });
+};
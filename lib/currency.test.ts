@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SETTINGS, rebaseRates, toHomeCurrency } from './currency';
+
+const settings = { ...DEFAULT_SETTINGS, homeCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1, GBP: 1.25 } };
+
+test('amounts convert into the home currency by their rate', () => {
+  assert.equal(toHomeCurrency(20, 'USD', settings), 20);
+  assert.equal(toHomeCurrency(100, 'GBP', settings), 125);
+  assert.equal(toHomeCurrency(5, 'JPY', settings), null);
+});
+
+test('rebasing the rates onto a new home currency keeps every conversion the same', () => {
+  const rates = rebaseRates(settings.exchangeRates, 'EUR')!;
+  assert.equal(rates.EUR, 1);
+  assert.ok(Math.abs(rates.USD - 1 / 1.1) < 1e-9);
+
+  const rebased = { ...settings, homeCurrency: 'EUR', exchangeRates: rates };
+  const inUsd = toHomeCurrency(100, 'GBP', settings)!;
+  const inEur = toHomeCurrency(100, 'GBP', rebased)!;
+  assert.ok(Math.abs(inEur * 1.1 - inUsd) < 1e-9);
+});
+
+test('rates cannot be rebased onto a currency without one', () => {
+  assert.equal(rebaseRates(settings.exchangeRates, 'JPY'), null);
+});
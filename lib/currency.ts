@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Settings } from '../types';
+
+// Offered in pickers; any other ISO 4217 code still works if typed into the rate table.
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'SEK'];
+
+export const DEFAULT_SETTINGS: Settings = {
+  homeCurrency: 'USD',
+  targetMarket: 'United States',
+  exchangeRates: { USD: 1 },
+  stalePriceDays: 90
+};
+
+export const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** Formats an amount in the user's locale, e.g. "$1,234.50", "1.234,50 €" or "£12.00". */
+export const formatMoney = (amount: number, currency: string) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    } catch {
+      // Not a currency Intl knows about; show the bare code rather than failing the render
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(amount);
+};
+
+/** Converts an amount into the home currency, or null when there is no rate for its currency. */
+export const toHomeCurrency = (amount: number, currency: string, settings: Settings) => {
+  if (currency === settings.homeCurrency) return amount;
+  const rate = settings.exchangeRates[currency];
+  return rate ? amount * rate : null;
+};
+
+/** Converts an amount between any two currencies via the home currency, or null when either lacks a rate. */
+export const convertCurrency = (amount: number, from: string, to: string, settings: Settings) => {
+  if (from === to) return amount;
+  const home = toHomeCurrency(amount, from, settings);
+  if (home === null) return null;
+  if (to === settings.homeCurrency) return home;
+  const rate = settings.exchangeRates[to];
+  return rate ? home / rate : null;
+};
+
+/**
+ * Re-expresses a rate table relative to a new home currency, so switching
+ * from USD to EUR keeps every conversion the same. Returns null if the new
+ * home currency has no rate to pivot through.
+ */
+export const rebaseRates = (rates: Record<string, number>, newHome: string) => {
+  const pivot = rates[newHome];
+  if (!pivot) return null;
+  return Object.fromEntries(
+    Object.entries(rates).map(([code, rate]) => [code, code === newHome ? 1 : rate / pivot])
+  );
+};
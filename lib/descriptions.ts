@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DescriptionLength, DescriptionOptions, DescriptionTone } from '../types';
+
+export const DESCRIPTION_TONES: DescriptionTone[] = ['casual', 'professional', 'collector'];
+
+export const DESCRIPTION_TONE_LABELS: Record<DescriptionTone, string> = {
+  casual: 'Casual',
+  professional: 'Professional',
+  collector: 'Collector'
+};
+
+export const DESCRIPTION_LENGTHS: DescriptionLength[] = ['short', 'medium', 'long'];
+
+export const DESCRIPTION_LENGTH_LABELS: Record<DescriptionLength, string> = {
+  short: 'Short',
+  medium: 'Medium',
+  long: 'Long'
+};
+
+// Rough word counts the prompt asks for
+export const DESCRIPTION_LENGTH_WORDS: Record<DescriptionLength, [number, number]> = {
+  short: [25, 50],
+  medium: [60, 120],
+  long: [150, 250]
+};
+
+// Suggestions only; any platform name can be typed in
+export const DESCRIPTION_PLATFORMS = ['eBay', 'Facebook Marketplace', 'Etsy', 'Poshmark', 'Depop', 'Mercari', 'Craigslist'];
+
+export const MAX_DESCRIPTION_VARIANTS = 3;
+
+export const MAX_DESCRIPTION_KEYWORDS = 10;
+
+export const DEFAULT_DESCRIPTION_OPTIONS: DescriptionOptions = {
+  tone: 'casual',
+  length: 'medium',
+  platform: '',
+  keywords: [],
+  variants: MAX_DESCRIPTION_VARIANTS
+};
+
+/** Splits a comma-separated keyword field into distinct keywords. */
+export const parseKeywords = (text: string) =>
+  [...new Set(text.split(',').map(keyword => keyword.trim()).filter(Boolean))];
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIResponse } from '../types';
+import { findDuplicates, mergeIntoItem, nameSimilarity } from './duplicates';
+import { createDraftItem } from './items';
+
+const camera = createDraftItem({
+  item_name: 'Canon AE-1 film camera',
+  category: 'Cameras',
+  identifiers: [{ type: 'serial', value: '1234-567' }]
+});
+const teapot = createDraftItem({ item_name: 'Blue teapot', category: 'Kitchen' });
+const mug = createDraftItem({ item_name: 'Blue mug', category: 'Kitchen' });
+const inventory = [camera, teapot, mug];
+
+test('names are compared by the words they share', () => {
+  assert.equal(nameSimilarity('Blue Teapot', 'teapot, blue'), 1);
+  assert.equal(nameSimilarity('Blue teapot', 'Blue mug'), 0.5);
+  assert.equal(nameSimilarity('', 'Blue mug'), 0);
+});
+
+test('a matching serial finds the item whatever it is called', () => {
+  const scan = createDraftItem({ item_name: 'Vintage SLR', identifiers: [{ type: 'serial', value: '1234 567' }] });
+  const [match] = findDuplicates(scan, inventory, new Map());
+  assert.equal(match.item.id, camera.id);
+  assert.deepEqual(match.reasons, ['identifier']);
+});
+
+test('a looser name match needs the category to agree', () => {
+  const scan = createDraftItem({ item_name: 'Blue teacup', category: 'kitchen' });
+  assert.deepEqual(findDuplicates(scan, inventory, new Map()).map(match => match.item.id).sort(), [teapot.id, mug.id].sort());
+  assert.deepEqual(findDuplicates({ ...scan, category: 'Decor' }, inventory, new Map()), []);
+});
+
+test('close photos count, distant ones do not, and the surest match comes first', () => {
+  const scan = createDraftItem({ item_name: 'Something', category: '' });
+  const matches = findDuplicates(scan, inventory, new Map([[teapot.id, 2], [mug.id, 8], [camera.id, 30]]));
+  assert.deepEqual(matches.map(match => match.item.id), [teapot.id, mug.id]);
+  assert.deepEqual(matches[0].reasons, ['photo']);
+});
+
+test('merging keeps what the item says and only fills its gaps', () => {
+  const analysis: AIResponse = {
+    item_name: 'Canon camera',
+    category: 'Electronics',
+    estimated_value: 90,
+    price_low: 70,
+    price_high: 110,
+    currency: 'USD',
+    brand: 'Canon',
+    model: 'AE-1',
+    identifiers: [{ type: 'serial', value: '1234567' }, { type: 'upc', value: '0123' }],
+    condition_grade: 'good',
+    condition_notes: 'Light wear',
+    suggested_description: 'A classic.',
+    confidence: { overall: 0.9, fields: {} }
+  };
+  const photo = { src: '/images/new.jpg', thumbnail: '/images/new.jpg' };
+  const merged = mergeIntoItem({ ...camera, photos: [{ src: '/images/old.jpg', thumbnail: '/images/old.jpg' }] }, analysis, [photo]);
+
+  assert.equal(merged.item_name, camera.item_name);
+  assert.equal(merged.category, 'Cameras');
+  assert.equal(merged.brand, 'Canon');
+  assert.deepEqual(merged.identifiers.map(identifier => identifier.type), ['serial', 'upc']);
+  assert.deepEqual(merged.photos.map(entry => entry.src), ['/images/old.jpg', '/images/new.jpg']);
+  assert.equal(merged.estimated_value, camera.estimated_value);
+});
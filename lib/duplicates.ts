@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIResponse, InventoryItem, ItemIdentifier, ItemPhoto } from '../types';
+import { ItemDetails } from './itemForm';
+import { MAX_PHOTOS_PER_ITEM } from './photos';
+import { tokenize } from './search';
+
+export type DuplicateReason = 'identifier' | 'photo' | 'name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  identifier: 'Same barcode or serial',
+  photo: 'Similar photo',
+  name: 'Similar name'
+};
+
+// Photo hashes this many bits apart (of 64) or fewer count as the same picture
+export const PHOTO_MATCH_DISTANCE = 10;
+// How alike names must be on their own, and when the category matches too
+const NAME_MATCH = 0.8;
+const NAME_AND_CATEGORY_MATCH = 0.5;
+export const MAX_DUPLICATE_MATCHES = 3;
+
+export interface DuplicateMatch {
+  item: InventoryItem;
+  reasons: DuplicateReason[];
+  score: number; // higher is more certain; only meaningful for ordering
+}
+
+/** Dice coefficient over the words of two names: 1 for the same words, 0 for none in common. */
+export const nameSimilarity = (a: string, b: string) => {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(word => right.has(word)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+const normalizeIdentifier = (value: string) => value.replace(/[\s-]/g, '').toLowerCase();
+
+const isSameIdentifier = (a: ItemIdentifier, b: ItemIdentifier) =>
+  a.type === b.type && normalizeIdentifier(a.value) === normalizeIdentifier(b.value);
+
+/**
+ * Inventory items that look like the same thing as a new analysis, most
+ * likely first. `photoDistances` holds, per item id, the hash distance between
+ * its cover photo and the closest new photo; items missing from it (not hashed
+ * yet, or undecodable) are judged on name and identifiers alone.
+ */
+export const findDuplicates = (
+  candidate: ItemDetails,
+  inventory: InventoryItem[],
+  photoDistances: Map<string, number>
+): DuplicateMatch[] => {
+  const category = candidate.category.trim().toLowerCase();
+  const matches: DuplicateMatch[] = [];
+
+  for (const item of inventory) {
+    const reasons: DuplicateReason[] = [];
+    let score = 0;
+
+    if (candidate.identifiers.some(identifier => item.identifiers.some(own => isSameIdentifier(identifier, own)))) {
+      reasons.push('identifier');
+      score += 2;
+    }
+
+    const distance = photoDistances.get(item.id);
+    if (distance !== undefined && distance <= PHOTO_MATCH_DISTANCE) {
+      reasons.push('photo');
+      score += 1 - distance / (PHOTO_MATCH_DISTANCE + 1);
+    }
+
+    const similarity = nameSimilarity(candidate.item_name, item.item_name);
+    const sameCategory = category !== '' && item.category.trim().toLowerCase() === category;
+    if (similarity >= NAME_MATCH || (sameCategory && similarity >= NAME_AND_CATEGORY_MATCH)) {
+      reasons.push('name');
+      score += similarity;
+    }
+
+    if (reasons.length > 0) matches.push({ item, reasons, score });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, MAX_DUPLICATE_MATCHES);
+};
+
+/**
+ * Folds a new analysis of something already in inventory into that item. What
+ * the item already says wins; the analysis only fills gaps and adds any new
+ * identifiers, and its photos go after the item's own.
+ */
+export const mergeIntoItem = (
+  item: InventoryItem,
+  { confidence: _confidence, ...analysis }: AIResponse,
+  photos: ItemPhoto[]
+): InventoryItem => ({
+  ...item,
+  category: item.category || analysis.category,
+  brand: item.brand || analysis.brand,
+  model: item.model || analysis.model,
+  condition_grade: item.condition_grade ?? analysis.condition_grade,
+  condition_notes: item.condition_notes || analysis.condition_notes,
+  suggested_description: item.suggested_description || analysis.suggested_description,
+  identifiers: [
+    ...item.identifiers,
+    ...analysis.identifiers.filter(identifier => !item.identifiers.some(own => isSameIdentifier(identifier, own)))
+  ],
+  photos: [...item.photos, ...photos].slice(0, MAX_PHOTOS_PER_ITEM)
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface CategoryRule {
+  keywords: string[];
+  ebay: number; // eBay US leaf-or-parent category id
+  etsy: string; // Etsy taxonomy path
+  facebook: string; // Facebook Marketplace category
+}
+
+// First matching rule wins, so keep the more specific keywords near the top.
+const CATEGORY_RULES: CategoryRule[] = [
+  { keywords: ['video game', 'console', 'nintendo', 'playstation', 'xbox'], ebay: 1249, etsy: 'Toys & Games > Games & Puzzles', facebook: 'Electronics' },
+  { keywords: ['book', 'novel', 'comic', 'magazine'], ebay: 267, etsy: 'Books, Movies & Music > Books', facebook: 'Entertainment' },
+  { keywords: ['vinyl', 'record', 'music', 'cd', 'cassette'], ebay: 11233, etsy: 'Books, Movies & Music > Music', facebook: 'Entertainment' },
+  { keywords: ['instrument', 'guitar', 'piano', 'drum'], ebay: 619, etsy: 'Books, Movies & Music > Musical Instruments', facebook: 'Musical Instruments' },
+  { keywords: ['camera', 'photo', 'lens'], ebay: 625, etsy: 'Electronics & Accessories > Cameras', facebook: 'Electronics' },
+  { keywords: ['electronic', 'audio', 'headphone', 'computer', 'phone', 'tech'], ebay: 293, etsy: 'Electronics & Accessories', facebook: 'Electronics' },
+  { keywords: ['jewel', 'ring', 'necklace', 'bracelet', 'watch'], ebay: 281, etsy: 'Jewelry', facebook: 'Clothing & Accessories' },
+  { keywords: ['shoe', 'sneaker', 'boot'], ebay: 63889, etsy: 'Shoes', facebook: 'Clothing & Accessories' },
+  { keywords: ['cloth', 'apparel', 'jacket', 'shirt', 'dress', 'fashion'], ebay: 11450, etsy: 'Clothing', facebook: 'Clothing & Accessories' },
+  { keywords: ['bag', 'purse', 'handbag', 'wallet', 'accessor'], ebay: 169291, etsy: 'Bags & Purses', facebook: 'Clothing & Accessories' },
+  { keywords: ['toy', 'doll', 'lego', 'game', 'puzzle'], ebay: 220, etsy: 'Toys & Games', facebook: 'Toys & Games' },
+  { keywords: ['kitchen', 'cookware', 'dining', 'tableware'], ebay: 20625, etsy: 'Home & Living > Kitchen & Dining', facebook: 'Home Goods' },
+  { keywords: ['furniture', 'chair', 'table', 'desk', 'shelf'], ebay: 3197, etsy: 'Home & Living > Furniture', facebook: 'Furniture' },
+  { keywords: ['decor', 'lamp', 'lighting', 'vase', 'home'], ebay: 10033, etsy: 'Home & Living > Home Decor', facebook: 'Home Goods' },
+  { keywords: ['tool', 'hardware', 'workshop'], ebay: 631, etsy: 'Craft Supplies & Tools > Tools & Equipment', facebook: 'Home Improvement Supplies' },
+  { keywords: ['garden', 'outdoor', 'patio'], ebay: 159912, etsy: 'Home & Living > Outdoor & Gardening', facebook: 'Garden & Outdoor' },
+  { keywords: ['sport', 'fitness', 'bike', 'golf', 'camping'], ebay: 888, etsy: 'Sports & Outdoor Recreation', facebook: 'Sporting Goods' },
+  { keywords: ['art', 'painting', 'print', 'poster'], ebay: 550, etsy: 'Art & Collectibles', facebook: 'Hobbies' },
+  { keywords: ['antique', 'vintage'], ebay: 20081, etsy: 'Art & Collectibles', facebook: 'Antiques & Collectibles' },
+  { keywords: ['collect', 'memorabilia', 'coin', 'stamp', 'card'], ebay: 1, etsy: 'Art & Collectibles > Collectibles', facebook: 'Antiques & Collectibles' },
+  { keywords: ['craft', 'fabric', 'yarn', 'sewing'], ebay: 14339, etsy: 'Craft Supplies & Tools', facebook: 'Arts & Crafts' },
+  { keywords: ['baby', 'kid', 'child'], ebay: 2984, etsy: 'Clothing > Baby & Toddler', facebook: 'Family' },
+  { keywords: ['pet', 'dog', 'cat'], ebay: 1281, etsy: 'Pet Supplies', facebook: 'Pet Supplies' }
+];
+
+export const mapCategory = (category: string, platform: 'ebay' | 'etsy' | 'facebook') => {
+  const normalized = category.toLowerCase();
+  const rule = CATEGORY_RULES.find(candidate => candidate.keywords.some(keyword => normalized.includes(keyword)));
+  return rule ? rule[platform] : null;
+};
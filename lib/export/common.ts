@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../../types';
+import { ExportContext, ExportIssue } from './types';
+
+/** Cuts a title down to `limit` characters, breaking on a word where possible. */
+export const truncateTitle = (title: string, limit: number) => {
+  const trimmed = title.trim();
+  if (trimmed.length <= limit) return trimmed;
+  const cut = trimmed.slice(0, limit);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > limit * 0.6 ? cut.slice(0, lastSpace) : cut).trim();
+};
+
+export const photoUrls = (item: InventoryItem, context: ExportContext) =>
+  item.photos
+    .map(photo => photo.src)
+    .filter(url => url && !url.startsWith('data:'))
+    .map(url => new URL(url, context.imageBaseUrl).toString());
+
+/** Checks shared by every marketplace format. */
+export const validateListing = (item: InventoryItem, context: ExportContext, titleLimit?: number) => {
+  const issues: ExportIssue[] = [];
+  const issue = (field: string, message: string, severity: ExportIssue['severity'] = 'error') =>
+    issues.push({ itemId: item.id, field, message, severity });
+
+  if (!item.item_name.trim()) issue('title', "Title is empty");
+  else if (titleLimit && item.item_name.trim().length > titleLimit) {
+    issue('title', `Title is longer than ${titleLimit} characters and will be shortened to "${truncateTitle(item.item_name, titleLimit)}"`, 'warning');
+  }
+  if (!item.suggested_description.trim()) issue('description', "Description is empty");
+  if (!(item.estimated_value > 0)) issue('price', "Price must be greater than zero");
+  if (photoUrls(item, context).length === 0) issue('photos', "Item has no saved photo");
+
+  return issues;
+};
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConditionGrade, IdentifierType, InventoryItem } from '../../types';
+import { mapCategory } from './categories';
+import { photoUrls, truncateTitle, validateListing } from './common';
+import { toCsv } from '../csv';
+import { ExportFormat } from './types';
+
+const TITLE_LIMIT = 80;
+const MAX_PICTURES = 12;
+
+// The action column header doubles as File Exchange's site/currency declaration.
+const ACTION_COLUMN = '*Action(SiteID=US|Country=US|Currency=USD|Version=1193)';
+
+const COLUMNS = [
+  ACTION_COLUMN,
+  'CustomLabel',
+  '*Category',
+  '*Title',
+  '*ConditionID',
+  '*Description',
+  'C:Brand',
+  'C:Model',
+  'Product:UPC',
+  'Product:EAN',
+  'Product:ISBN',
+  'PicURL',
+  '*Format',
+  '*Duration',
+  '*StartPrice',
+  '*Quantity'
+] as const;
+
+// File Exchange condition ids. The finer used grades (4000–6000) are only valid in
+// book and media categories, so every used grade lists as plain "Used".
+const CONDITION_USED = 3000;
+const CONDITION_IDS: Record<ConditionGrade, number> = {
+  new: 1000,
+  like_new: CONDITION_USED,
+  very_good: CONDITION_USED,
+  good: CONDITION_USED,
+  acceptable: CONDITION_USED,
+  for_parts: 7000
+};
+
+const identifier = (item: InventoryItem, type: IdentifierType) =>
+  item.identifiers.find(entry => entry.type === type)?.value ?? '';
+
+export const ebayFormat: ExportFormat = {
+  id: 'ebay',
+  label: 'eBay File Exchange',
+  description: 'CSV for Seller Hub Reports › Upload (fixed price, good \'til cancelled).',
+  fileExtension: 'csv',
+  mimeType: 'text/csv',
+  titleLimit: TITLE_LIMIT,
+
+  validate(item, context) {
+    const issues = validateListing(item, context, TITLE_LIMIT);
+    if (mapCategory(item.category, 'ebay') === null) {
+      issues.push({ itemId: item.id, field: 'category', message: `No eBay category matches "${item.category || 'Uncategorized'}"`, severity: 'error' });
+    }
+    if (item.currency !== 'USD') {
+      issues.push({ itemId: item.id, field: 'price', message: `Price is in ${item.currency} but eBay US lists in USD`, severity: 'warning' });
+    }
+    return issues;
+  },
+
+  serialize(items, context) {
+    return toCsv(COLUMNS, items.map(item => ({
+      [ACTION_COLUMN]: 'Add',
+      CustomLabel: item.sku || item.id,
+      '*Category': mapCategory(item.category, 'ebay'),
+      '*Title': truncateTitle(item.item_name, TITLE_LIMIT),
+      '*ConditionID': item.condition_grade ? CONDITION_IDS[item.condition_grade] : CONDITION_USED,
+      '*Description': item.suggested_description,
+      'C:Brand': item.brand,
+      'C:Model': item.model,
+      'Product:UPC': identifier(item, 'upc'),
+      'Product:EAN': identifier(item, 'ean'),
+      'Product:ISBN': identifier(item, 'isbn'),
+      PicURL: photoUrls(item, context).slice(0, MAX_PICTURES).join('|'),
+      '*Format': 'FixedPrice',
+      '*Duration': 'GTC',
+      '*StartPrice': item.estimated_value.toFixed(2),
+      '*Quantity': item.quantity
+    })));
+  }
+};
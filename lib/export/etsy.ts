@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../../types';
+import { mapCategory } from './categories';
+import { photoUrls, truncateTitle, validateListing } from './common';
+import { toCsv } from '../csv';
+import { ExportFormat } from './types';
+
+const TITLE_LIMIT = 140;
+const MAX_TAGS = 13;
+const TAG_LIMIT = 20;
+const MAX_IMAGES = 10;
+
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'that', 'this', 'from', 'very']);
+
+const IMAGE_COLUMNS = Array.from({ length: MAX_IMAGES }, (_, i) => `IMAGE${i + 1}`);
+
+const COLUMNS = [
+  'TITLE',
+  'DESCRIPTION',
+  'CATEGORY',
+  'PRICE',
+  'CURRENCY_CODE',
+  'QUANTITY',
+  'TAGS',
+  'SKU',
+  ...IMAGE_COLUMNS
+];
+
+/** Etsy tags: up to 13, 20 characters each, taken from the category and title words. */
+const buildTags = (item: InventoryItem) => {
+  const candidates = [item.category, ...item.item_name.split(/[\s,/]+/)]
+    .map(tag => tag.trim().toLowerCase().replace(/[^a-z0-9 '-]/g, ''))
+    .filter(tag => tag.length > 2 && tag.length <= TAG_LIMIT && !STOP_WORDS.has(tag));
+  return Array.from(new Set(candidates)).slice(0, MAX_TAGS);
+};
+
+export const etsyFormat: ExportFormat = {
+  id: 'etsy',
+  label: 'Etsy',
+  description: 'CSV in the column layout used by Etsy listing import tools.',
+  fileExtension: 'csv',
+  mimeType: 'text/csv',
+  titleLimit: TITLE_LIMIT,
+
+  validate(item, context) {
+    const issues = validateListing(item, context, TITLE_LIMIT);
+    if (mapCategory(item.category, 'etsy') === null) {
+      issues.push({ itemId: item.id, field: 'category', message: `No Etsy category matches "${item.category || 'Uncategorized'}"`, severity: 'error' });
+    }
+    return issues;
+  },
+
+  serialize(items, context) {
+    return toCsv(COLUMNS, items.map(item => {
+      const photos = photoUrls(item, context);
+      const row: Record<string, string | number | null> = {
+        TITLE: truncateTitle(item.item_name, TITLE_LIMIT),
+        DESCRIPTION: item.suggested_description,
+        CATEGORY: mapCategory(item.category, 'etsy'),
+        PRICE: item.estimated_value.toFixed(2),
+        CURRENCY_CODE: item.currency,
+        QUANTITY: item.quantity,
+        TAGS: buildTags(item).join(','),
+        SKU: item.sku || item.id
+      };
+      IMAGE_COLUMNS.forEach((column, i) => { row[column] = photos[i] ?? ''; });
+      return row;
+    }));
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConditionGrade } from '../../types';
+import { mapCategory } from './categories';
+import { truncateTitle, validateListing } from './common';
+import { toCsv } from '../csv';
+import { ExportFormat } from './types';
+
+const TITLE_LIMIT = 100;
+
+const COLUMNS = ['TITLE', 'PRICE', 'CONDITION', 'DESCRIPTION', 'CATEGORY', 'OFFER SHIPPING'] as const;
+
+// Marketplace has four conditions; anything below "good" lists as fair
+const CONDITIONS: Record<ConditionGrade, string> = {
+  new: 'New',
+  like_new: 'Used - Like New',
+  very_good: 'Used - Good',
+  good: 'Used - Good',
+  acceptable: 'Used - Fair',
+  for_parts: 'Used - Fair'
+};
+
+export const facebookFormat: ExportFormat = {
+  id: 'facebook',
+  label: 'Facebook Marketplace',
+  description: 'CSV with the columns of the Marketplace bulk-upload template; photos are added on Facebook.',
+  fileExtension: 'csv',
+  mimeType: 'text/csv',
+  titleLimit: TITLE_LIMIT,
+
+  validate(item, context) {
+    // The template has no photo column, so a missing photo doesn't keep an item out
+    const issues = validateListing(item, context, TITLE_LIMIT).filter(issue => issue.field !== 'photos');
+    if (mapCategory(item.category, 'facebook') === null) {
+      issues.push({ itemId: item.id, field: 'category', message: `No Marketplace category matches "${item.category || 'Uncategorized'}"`, severity: 'error' });
+    }
+    if (item.quantity > 1) {
+      issues.push({ itemId: item.id, field: 'quantity', message: `Quantity is ${item.quantity}, but a Marketplace listing is for a single item`, severity: 'warning' });
+    }
+    return issues;
+  },
+
+  serialize(items) {
+    return toCsv(COLUMNS, items.map(item => ({
+      TITLE: truncateTitle(item.item_name, TITLE_LIMIT),
+      PRICE: Math.round(item.estimated_value), // Marketplace prices are whole amounts
+      CONDITION: item.condition_grade ? CONDITIONS[item.condition_grade] : CONDITIONS.good,
+      DESCRIPTION: item.suggested_description,
+      CATEGORY: mapCategory(item.category, 'facebook'),
+      'OFFER SHIPPING': 'No'
+    })));
+  }
+};
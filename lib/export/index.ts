@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../../types';
+import { ebayFormat } from './ebay';
+import { etsyFormat } from './etsy';
+import { facebookFormat } from './facebook';
+import { jsonFormat } from './json';
+import { ExportContext, ExportFormat, ExportFormatId, ExportIssue } from './types';
+
+export type { ExportContext, ExportFormat, ExportFormatId, ExportIssue } from './types';
+
+export const EXPORT_FORMATS: Record<ExportFormatId, ExportFormat> = {
+  ebay: ebayFormat,
+  etsy: etsyFormat,
+  facebook: facebookFormat,
+  json: jsonFormat
+};
+
+/** Validates every item for a format and splits off the ones that can go into the file. */
+export const prepareExport = (format: ExportFormat, items: InventoryItem[], context: ExportContext) => {
+  const issues: ExportIssue[] = items.flatMap(item => format.validate(item, context));
+  const blocked = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.itemId));
+  const ready = items.filter(item => !blocked.has(item.id));
+  return { ready, issues, blockedCount: blocked.size };
+};
+
+export const exportFileName = (format: ExportFormat, now = new Date()) =>
+  `resale-ready-${format.id}-${now.toISOString().slice(0, 10)}.${format.fileExtension}`;
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { photoUrls } from './common';
+import { ExportFormat } from './types';
+
+export const jsonFormat: ExportFormat = {
+  id: 'json',
+  label: 'Generic JSON',
+  description: 'Every listing field, for other marketplaces or your own scripts.',
+  fileExtension: 'json',
+  mimeType: 'application/json',
+
+  validate(item) {
+    if (item.item_name.trim()) return [];
+    return [{ itemId: item.id, field: 'title', message: "Title is empty", severity: 'error' }];
+  },
+
+  serialize(items, context) {
+    return JSON.stringify(items.map(item => ({
+      id: item.id,
+      sku: item.sku,
+      title: item.item_name,
+      category: item.category,
+      price: item.estimated_value,
+      currency: item.currency,
+      quantity: item.quantity,
+      location: item.location,
+      condition: item.condition_notes,
+      description: item.suggested_description,
+      status: item.status,
+      photos: photoUrls(item, context),
+      createdAt: new Date(item.createdAt).toISOString()
+    })), null, 2);
+  }
+};
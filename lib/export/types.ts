@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ExportFormatId, InventoryItem } from '../../types';
+
+export type { ExportFormatId };
+
+export interface ExportIssue {
+  itemId: string;
+  field: string;
+  message: string;
+  // Errors keep the item out of the file; warnings are informational.
+  severity: 'error' | 'warning';
+}
+
+export interface ExportContext {
+  // Origin that relative photo URLs are resolved against, since marketplaces fetch them.
+  imageBaseUrl: string;
+}
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  fileExtension: 'csv' | 'json';
+  mimeType: string;
+  titleLimit?: number;
+  validate(item: InventoryItem, context: ExportContext): ExportIssue[];
+  serialize(items: InventoryItem[], context: ExportContext): string;
+}
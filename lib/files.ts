@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Some platforms report HEIC photos with an empty type, so fall back to the extension
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|heic|heif|avif)$/i;
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries hands back results in batches and signals the end with an empty one.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) return [await readFileEntry(entry as FileSystemFileEntry)];
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * Flattens a drop payload into files, walking into any dropped folders.
+ * Must be called synchronously from the drop handler: the browser empties
+ * `dataTransfer.items` once the event returns.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
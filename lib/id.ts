@@ -0,0 +1,6 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const generateId = () => Math.random().toString(36).substring(2, 9);
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Hash grid width; the hash has HASH_SIZE² bits
+const HASH_SIZE = 8;
+
+// Photo URLs never change what they point at, so each is hashed once per session
+const hashes = new Map<string, Promise<string | null>>();
+
+const luminance = (data: Uint8ClampedArray, index: number) =>
+  0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+/**
+ * A difference hash of an image: shrunk to a 9×8 grayscale grid, each bit
+ * records whether a pixel is brighter than its right-hand neighbour. Resizing,
+ * recompressing or a slight reshoot of the same thing moves only a few bits,
+ * so near-identical photos end up a small `hashDistance` apart.
+ */
+export const differenceHash = async (src: string) => {
+  const bitmap = await createImageBitmap(await (await fetch(src)).blob());
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_SIZE + 1;
+    canvas.height = HASH_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas is not available");
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+    let hash = '';
+    for (let y = 0; y < HASH_SIZE; y++) {
+      let nibble = 0;
+      for (let x = 0; x < HASH_SIZE; x++) {
+        const index = (y * canvas.width + x) * 4;
+        nibble = (nibble << 1) | (luminance(data, index) > luminance(data, index + 4) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** `differenceHash`, remembered per URL; null for images the browser can't decode. */
+export const photoHash = (src: string) => {
+  let hash = hashes.get(src);
+  if (!hash) {
+    hash = differenceHash(src).catch(error => {
+      console.warn("Couldn't hash photo", error);
+      return null;
+    });
+    hashes.set(src, hash);
+  }
+  return hash;
+};
+
+/** How many bits two hashes differ by: 0 for the same picture, around half the bits for unrelated ones. */
+export const hashDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; bits; bits &= bits - 1) distance++;
+  }
+  return distance;
+};
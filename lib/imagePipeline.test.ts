@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { processPhoto, UnreadablePhotoError } from './imagePipeline';
+
+const HEIC_HEADER = [0x00, 0x00, 0x00, 0x18, ...new TextEncoder().encode('ftypheic')];
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe1];
+
+const originalCreateImageBitmap = globalThis.createImageBitmap;
+
+// Stands in for a browser that can't decode the file, as Chrome and Firefox can't HEIC
+const failDecoding = () => {
+  globalThis.createImageBitmap = async () => {
+    throw new DOMException("The source image could not be decoded.", 'InvalidStateError');
+  };
+};
+
+afterEach(() => {
+  globalThis.createImageBitmap = originalCreateImageBitmap;
+});
+
+test('a photo the browser cannot decode is rejected rather than uploaded as is', async () => {
+  failDecoding();
+  const file = new File([new Uint8Array([...HEIC_HEADER, 1, 2, 3])], 'IMG_0001.HEIC');
+  await assert.rejects(processPhoto(file), (error: Error) => {
+    assert.ok(error instanceof UnreadablePhotoError);
+    assert.match(error.message, /IMG_0001\.HEIC/);
+    assert.match(error.message, /JPEG/);
+    return true;
+  });
+});
+
+test('a damaged JPEG is rejected too', async () => {
+  failDecoding();
+  const file = new File([new Uint8Array([...JPEG_HEADER, 0, 0])], 'broken.jpg', { type: 'image/jpeg' });
+  await assert.rejects(processPhoto(file), UnreadablePhotoError);
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ItemPhoto } from '../types';
+
+// Long-edge sizes in pixels. Listing size is what marketplaces and the model see.
+export const LISTING_MAX_EDGE = 1600;
+export const THUMBNAIL_MAX_EDGE = 320;
+const JPEG_QUALITY = 0.85;
+
+const readBytes = async (file: Blob, length: number) =>
+  new Uint8Array(await file.slice(0, length).arrayBuffer());
+
+const matches = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.slice(start, end));
+
+/**
+ * Works out an image's real type from its first bytes. Browsers leave
+ * `file.type` empty for HEIC on most platforms and trust the extension
+ * otherwise, so the declared type can't be relied on.
+ */
+export const sniffMimeType = async (file: Blob): Promise<string> => {
+  const bytes = await readBytes(file, 16);
+  if (matches(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (matches(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (matches(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) return 'image/heic';
+    if (['mif1', 'msf1', 'heif'].includes(brand)) return 'image/heif';
+  }
+  return file.type || 'application/octet-stream';
+};
+
+/**
+ * A photo this browser can't decode (HEIC outside Safari, or a damaged file).
+ * It can't be resized or stripped of its metadata, so it isn't uploaded as is.
+ */
+export class UnreadablePhotoError extends Error {
+  constructor(fileName: string, mimeType: string) {
+    super(mimeType === 'image/heic' || mimeType === 'image/heif'
+      ? `This browser can't open ${fileName}; save it as a JPEG and add it again`
+      : `${fileName} couldn't be read as an image`);
+    this.name = 'UnreadablePhotoError';
+  }
+}
+
+const render = (bitmap: ImageBitmap, maxEdge: number, mimeType: string) => {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not available");
+  if (mimeType === 'image/jpeg') {
+    // JPEG has no alpha channel; give transparent areas a white background instead of black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(mimeType, JPEG_QUALITY);
+};
+
+/**
+ * Turns a camera photo into a listing-size image and a thumbnail. Decoding
+ * with `imageOrientation: 'from-image'` bakes the EXIF rotation into the
+ * pixels, and re-encoding through a canvas drops every metadata block
+ * (GPS, camera serials, timestamps) along the way. Throws
+ * `UnreadablePhotoError` for photos that can't be decoded.
+ */
+export const processPhoto = async (file: File): Promise<ItemPhoto> => {
+  const sourceType = await sniffMimeType(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    // Sending the original instead would upload it full size with its GPS position
+    console.warn(`Couldn't decode ${file.name}`, error);
+    throw new UnreadablePhotoError(file.name, sourceType);
+  }
+
+  try {
+    // PNG sources are often cut-out product shots, so keep their transparency
+    const listingType = sourceType === 'image/png' ? 'image/png' : 'image/jpeg';
+    return {
+      src: render(bitmap, LISTING_MAX_EDGE, listingType),
+      thumbnail: render(bitmap, THUMBNAIL_MAX_EDGE, 'image/jpeg')
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../types';
+import { isCurrencyCode } from './currency';
+import { isSoldStatus } from './lifecycle';
+
+/** What the review panel and the item editor both edit; an AIResponse is one of these too. */
+export type ItemDetails = Pick<
+  InventoryItem,
+  | 'item_name'
+  | 'category'
+  | 'estimated_value'
+  | 'price_low'
+  | 'price_high'
+  | 'currency'
+  | 'brand'
+  | 'model'
+  | 'identifiers'
+  | 'condition_grade'
+  | 'condition_notes'
+  | 'suggested_description'
+>;
+
+export type ItemFieldErrors = Partial<Record<keyof InventoryItem, string>>;
+
+export const MAX_CATEGORY_LENGTH = 60;
+export const MAX_SKU_LENGTH = 32;
+export const MAX_LOCATION_LENGTH = 80;
+
+const isAmount = (value: number | null) => value === null || (Number.isFinite(value) && value >= 0);
+
+/** Problems with an item's descriptive fields, keyed by field, in words to show next to it. */
+export const validateItemDetails = (item: ItemDetails): ItemFieldErrors => {
+  const errors: ItemFieldErrors = {};
+  if (!item.item_name.trim()) errors.item_name = "Give the item a name";
+  if (item.category.trim().length > MAX_CATEGORY_LENGTH) errors.category = `Keep it under ${MAX_CATEGORY_LENGTH} characters`;
+  if (!isCurrencyCode(item.currency)) errors.currency = "Use a three-letter code like USD";
+  if (!isAmount(item.estimated_value)) errors.estimated_value = "Can't be negative";
+  if (!isAmount(item.price_low)) errors.price_low = "Can't be negative";
+  if (!isAmount(item.price_high)) errors.price_high = "Can't be negative";
+  if (item.price_low !== null && item.price_high !== null && item.price_low > item.price_high) {
+    errors.price_high = "Must be at least the low end";
+  }
+  if (item.identifiers.some(identifier => !identifier.value.trim())) errors.identifiers = "Fill in or remove empty identifiers";
+  return errors;
+};
+
+/** Everything `validateItemDetails` checks, plus the quantity, label fields, costs and sale of a saved item. */
+export const validateItem = (item: InventoryItem): ItemFieldErrors => {
+  const errors = validateItemDetails(item);
+  for (const field of ['costBasis', 'platformFees', 'shippingCost'] as const) {
+    if (!isAmount(item[field])) errors[field] = "Can't be negative";
+  }
+  if (!Number.isInteger(item.quantity) || item.quantity < 1) errors.quantity = "Must be a whole number of at least 1";
+  if (item.sku.trim().length > MAX_SKU_LENGTH) errors.sku = `Keep it under ${MAX_SKU_LENGTH} characters`;
+  if (item.location.trim().length > MAX_LOCATION_LENGTH) errors.location = `Keep it under ${MAX_LOCATION_LENGTH} characters`;
+  if (isSoldStatus(item.status) && item.salePrice === null) errors.salePrice = "Enter what it sold for";
+  else if (!isAmount(item.salePrice)) errors.salePrice = "Can't be negative";
+  return errors;
+};
+
+export const hasErrors = (errors: ItemFieldErrors) => Object.keys(errors).length > 0;
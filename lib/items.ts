@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIResponse, InventoryItem, ItemPhoto } from '../types';
+import { generateId } from './id';
+import { withPriceRecorded } from './priceHistory';
+import { DEFAULT_COLLECTION_ID } from './collections';
+
+/** Builds a fresh draft item with lifecycle defaults, filled in with whatever is already known. */
+export const createDraftItem = (fields: Partial<InventoryItem>, now = Date.now()): InventoryItem => ({
+  id: generateId(),
+  item_name: '',
+  category: '',
+  estimated_value: 0,
+  price_low: null,
+  price_high: null,
+  currency: 'USD',
+  brand: '',
+  model: '',
+  identifiers: [],
+  condition_grade: null,
+  condition_notes: '',
+  suggested_description: '',
+  photos: [],
+  createdAt: now,
+  status: 'draft',
+  statusDates: { draft: now },
+  costBasis: 0,
+  salePrice: null,
+  platformFees: 0,
+  shippingCost: 0,
+  quantity: 1,
+  sku: '',
+  location: '',
+  priceHistory: [],
+  collectionId: DEFAULT_COLLECTION_ID,
+  ...fields
+});
+
+/** Builds a draft item from an approved analysis. Confidence scores are only for review and aren't kept. */
+export const createItemFromAnalysis = (
+  { confidence: _confidence, ...analysis }: AIResponse,
+  photos: ItemPhoto[],
+  now = Date.now()
+): InventoryItem => withPriceRecorded(createDraftItem({ ...analysis, photos }, now), 'estimate', now);
+
+const hasRecordedMoney = (item: InventoryItem) =>
+  item.costBasis !== 0 || item.salePrice !== null || item.platformFees !== 0 || item.shippingCost !== 0;
+
+/**
+ * Updates a saved item from a fresh analysis, keeping its lifecycle and costs.
+ * Costs are recorded in the item's currency, so if the analysis priced it in
+ * another one the existing prices are kept rather than mixing currencies;
+ * otherwise the new estimate joins the price history.
+ */
+export const applyAnalysis = (
+  item: InventoryItem,
+  { confidence: _confidence, ...analysis }: AIResponse,
+  photos: ItemPhoto[]
+): InventoryItem => {
+  const keepPrices = analysis.currency !== item.currency && hasRecordedMoney(item);
+  if (keepPrices) {
+    return {
+      ...item,
+      ...analysis,
+      estimated_value: item.estimated_value,
+      price_low: item.price_low,
+      price_high: item.price_high,
+      currency: item.currency,
+      photos
+    };
+  }
+  return withPriceRecorded({ ...item, ...analysis, photos }, 'estimate');
+};
+
+/** Moves an estimate by a percentage (e.g. -10), rounded to the cent and never below zero. */
+export const adjustPrice = (value: number, percent: number) =>
+  Math.max(0, Math.round(value * (1 + percent / 100) * 100) / 100);
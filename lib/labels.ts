@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../types';
+import { QR_QUIET_ZONE, encodeQrCode, qrCodePath } from './qrCode';
+
+// A sheet of die-cut labels; every length is in millimetres
+export interface LabelLayout {
+  id: string;
+  name: string;
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number; // page edge to the first label
+  marginLeft: number;
+  pitchX: number; // left edge of one label to the next
+  pitchY: number;
+}
+
+const INCH = 25.4;
+const LETTER = { pageWidth: 8.5 * INCH, pageHeight: 11 * INCH };
+const A4 = { pageWidth: 210, pageHeight: 297 };
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160',
+    description: '30 per sheet, 1" × 2⅝", Letter',
+    ...LETTER,
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625 * INCH,
+    labelHeight: INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.1875 * INCH,
+    pitchX: 2.75 * INCH,
+    pitchY: INCH
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163',
+    description: '10 per sheet, 2" × 4", Letter',
+    ...LETTER,
+    columns: 2,
+    rows: 5,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.15625 * INCH,
+    pitchX: 4.125 * INCH,
+    pitchY: 2 * INCH
+  },
+  {
+    id: 'avery-22806',
+    name: 'Avery 22806',
+    description: '12 per sheet, 2" × 2" square, Letter',
+    ...LETTER,
+    columns: 3,
+    rows: 4,
+    labelWidth: 2 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.625 * INCH,
+    marginLeft: 0.625 * INCH,
+    pitchX: 2.625 * INCH,
+    pitchY: (31 / 12) * INCH
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160',
+    description: '21 per sheet, 63.5 × 38.1 mm, A4',
+    ...A4,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    pitchX: 66.04,
+    pitchY: 38.1
+  }
+];
+
+export const DEFAULT_LABEL_LAYOUT_ID = LABEL_LAYOUTS[0].id;
+
+export const labelsPerSheet = (layout: LabelLayout) => layout.columns * layout.rows;
+
+/** How many sheets printing `count` labels takes when the first `skip` positions are already used. */
+export const sheetCount = (layout: LabelLayout, count: number, skip = 0) =>
+  Math.ceil((skip + count) / labelsPerSheet(layout));
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const qrCodeSvg = (text: string) => {
+  const modules = encodeQrCode(text);
+  const size = modules.length + 2 * QR_QUIET_ZONE;
+  return `<svg class="qr" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges" aria-hidden="true"><path d="${qrCodePath(modules)}"/></svg>`;
+};
+
+const labelHtml = (item: InventoryItem) => `
+  <div class="text">
+    <div class="name">${escapeHtml(item.item_name)}</div>
+    ${item.sku ? `<div class="sku">${escapeHtml(item.sku)}</div>` : ''}
+    ${item.location ? `<div class="location">${escapeHtml(item.location)}</div>` : ''}
+  </div>`;
+
+/**
+ * A standalone HTML document printing one label per item: a QR code of the
+ * item's id, which the in-app scanner opens, beside its name, SKU and storage
+ * location. Labels fill the sheet row by row starting `skip` positions in, so
+ * a partly used sheet can go back through the printer.
+ */
+export const buildLabelSheet = (items: InventoryItem[], layout: LabelLayout, skip = 0) => {
+  const perSheet = labelsPerSheet(layout);
+  // Narrow labels put the code beside the text; squarer ones stack them
+  const isStacked = layout.labelWidth / layout.labelHeight < 1.5;
+  const fontSize = Math.min(layout.labelHeight / INCH * 7, 11);
+
+  const sheets = Array.from({ length: sheetCount(layout, items.length, skip) }, (_, sheet) => {
+    const labels = items.flatMap((item, index) => {
+      const position = skip + index;
+      if (Math.floor(position / perSheet) !== sheet) return [];
+      const slot = position % perSheet;
+      const left = layout.marginLeft + (slot % layout.columns) * layout.pitchX;
+      const top = layout.marginTop + Math.floor(slot / layout.columns) * layout.pitchY;
+      return [`<div class="label" style="left:${left}mm;top:${top}mm">${qrCodeSvg(item.id)}${labelHtml(item)}</div>`];
+    });
+    return `<section class="sheet">${labels.join('')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Labels – ${escapeHtml(layout.name)}</title>
+<style>
+  @page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }
+  * { box-sizing: border-box; margin: 0; }
+  body { font-family: system-ui, sans-serif; color: #000; background: #e7e5e4; }
+  .sheet { position: relative; width: ${layout.pageWidth}mm; height: ${layout.pageHeight}mm; background: #fff; overflow: hidden; page-break-after: always; margin: 0 auto 8mm; }
+  .sheet:last-child { page-break-after: auto; }
+  .label { position: absolute; width: ${layout.labelWidth}mm; height: ${layout.labelHeight}mm; padding: 1.5mm; display: flex; flex-direction: ${isStacked ? 'column' : 'row'}; align-items: center; gap: 1mm; overflow: hidden; font-size: ${fontSize}pt; line-height: 1.2; }
+  .qr { flex: none; ${isStacked ? 'height: 60%;' : 'height: 100%;'} aspect-ratio: 1; }
+  .text { min-width: 0; ${isStacked ? 'text-align: center; width: 100%;' : 'flex: 1;'} }
+  .name { font-weight: 600; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; overflow: hidden; }
+  .sku { font-family: ui-monospace, monospace; font-weight: 700; font-size: 1.15em; }
+  .location { color: #444; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  @media screen { .label { outline: 1px dashed #d6d3d1; } }
+  @media print { body { background: none; } .sheet { margin: 0; } }
+</style>
+</head>
+<body>${sheets.join('')}</body>
+</html>`;
+};
+
+/** The item a scanned or typed code refers to: its id, which label QR codes hold, or its SKU. */
+export const findItemByCode = (items: InventoryItem[], code: string) => {
+  const trimmed = code.trim();
+  if (!trimmed) return null;
+  return items.find(item => item.id === trimmed) ??
+    items.find(item => item.sku !== '' && item.sku.toLowerCase() === trimmed.toLowerCase()) ??
+    null;
+};
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, ItemStatus, Settings } from '../types';
+import { toHomeCurrency } from './currency';
+
+export const ITEM_STATUSES: ItemStatus[] = ['draft', 'listed', 'sold', 'shipped', 'donated'];
+
+export const STATUS_LABELS: Record<ItemStatus, string> = {
+  draft: 'Draft',
+  listed: 'Listed',
+  sold: 'Sold',
+  shipped: 'Shipped',
+  donated: 'Donated'
+};
+
+export const STATUS_STYLES: Record<ItemStatus, string> = {
+  draft: 'bg-stone-100 text-stone-800',
+  listed: 'bg-sky-100 text-sky-800',
+  sold: 'bg-emerald-100 text-emerald-800',
+  shipped: 'bg-violet-100 text-violet-800',
+  donated: 'bg-amber-100 text-amber-800'
+};
+
+// Which statuses an item may move to from each status. Backward steps are
+// there to undo a mis-click, e.g. a sale that fell through goes back to listed.
+export const STATUS_TRANSITIONS: Record<ItemStatus, ItemStatus[]> = {
+  draft: ['listed', 'donated'],
+  listed: ['draft', 'sold', 'donated'],
+  sold: ['listed', 'shipped'],
+  shipped: ['sold'],
+  donated: ['draft']
+};
+
+export const isSoldStatus = (status: ItemStatus) => status === 'sold' || status === 'shipped';
+
+// Stock that is still ours to sell; sold and donated items have left
+export const isHeld = (item: InventoryItem) => item.status === 'draft' || item.status === 'listed';
+
+export const canTransition = (from: ItemStatus, to: ItemStatus) =>
+  from === to || STATUS_TRANSITIONS[from].includes(to);
+
+export const withStatus = (item: InventoryItem, status: ItemStatus, at = Date.now()): InventoryItem => {
+  if (item.status === status) return item;
+  return { ...item, status, statusDates: { ...item.statusDates, [status]: at } };
+};
+
+/** Net profit on a sold item, or null while it is unsold. */
+export const itemProfit = (item: InventoryItem) => {
+  if (!isSoldStatus(item.status) || item.salePrice === null) return null;
+  return item.salePrice - item.costBasis - item.platformFees - item.shippingCost;
+};
+
+/** Profit as a fraction of the sale price, or null when there is no sale to measure against. */
+export const itemMargin = (item: InventoryItem) => {
+  const profit = itemProfit(item);
+  if (profit === null || !item.salePrice) return null;
+  return profit / item.salePrice;
+};
+
+/**
+ * Totals across items, converted into the home currency. Items in a
+ * currency with no exchange rate can't be added up honestly, so they are
+ * left out and counted in `unconvertedCount` instead.
+ */
+export const summarizeInventory = (items: InventoryItem[], settings: Settings) => {
+  let estimatedValue = 0;
+  let revenue = 0;
+  let profit = 0;
+  let soldCount = 0;
+  let unconvertedCount = 0;
+
+  for (const item of items) {
+    const convert = (amount: number) => toHomeCurrency(amount, item.currency, settings);
+    if (convert(1) === null) {
+      unconvertedCount++;
+      continue;
+    }
+    const itemNet = itemProfit(item);
+    if (itemNet !== null) {
+      revenue += convert(item.salePrice ?? 0)!;
+      profit += convert(itemNet)!;
+      soldCount++;
+    } else if (item.status !== 'donated') {
+      estimatedValue += convert(item.estimated_value * item.quantity)!;
+    }
+  }
+
+  return {
+    totalItems: items.length,
+    soldCount,
+    estimatedValue,
+    revenue,
+    profit,
+    margin: revenue > 0 ? profit / revenue : null,
+    currency: settings.homeCurrency,
+    unconvertedCount
+  };
+};
+
+export const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
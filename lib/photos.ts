@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem } from '../types';
+
+// Marketplaces top out around here, and more photos only slow analysis down.
+export const MAX_PHOTOS_PER_ITEM = 10;
+
+export const coverThumbnail = (item: Pick<InventoryItem, 'photos'>) => item.photos[0]?.thumbnail ?? '';
+
+/** Moves the entry at `index` to the front, making it the cover. */
+export const makeCover = <T>(photos: T[], index: number) =>
+  [photos[index], ...photos.filter((_, i) => i !== index)];
+
+export const movePhoto = <T>(photos: T[], from: number, to: number) => {
+  if (to < 0 || to >= photos.length) return photos;
+  const next = [...photos];
+  const [photo] = next.splice(from, 1);
+  next.splice(to, 0, photo);
+  return next;
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPriceEntry, isPriceStale, itemComps, lastPricedAt, suggestListPrice, withPriceRecorded } from './priceHistory';
+import { DEFAULT_SETTINGS } from './currency';
+import { createDraftItem } from './items';
+import { withStatus } from './lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+const ADDED = Date.UTC(2024, 0, 1);
+const settings = { ...DEFAULT_SETTINGS, exchangeRates: { USD: 1, GBP: 1.25 }, stalePriceDays: 90 };
+
+const comp = (amount: number, currency: string, date: number) => createPriceEntry({ kind: 'comp', amount, currency }, date);
+
+test('a price is recorded only when it differs from the latest estimate or revision', () => {
+  const item = createDraftItem({ estimated_value: 40 }, ADDED);
+  const estimated = withPriceRecorded(item, 'estimate', ADDED);
+  assert.equal(estimated.priceHistory.length, 1);
+  assert.equal(withPriceRecorded(estimated, 'revision', ADDED + DAY), estimated);
+
+  // A comp at the same amount doesn't count as the current price
+  const withComp = { ...estimated, estimated_value: 45, priceHistory: [...estimated.priceHistory, comp(45, 'USD', ADDED)] };
+  const revised = withPriceRecorded(withComp, 'revision', ADDED + DAY);
+  assert.deepEqual(revised.priceHistory.map(entry => entry.kind), ['estimate', 'comp', 'revision']);
+  assert.equal(lastPricedAt(revised), ADDED + DAY);
+});
+
+test('the suggested price is the median of the comps in the item\'s currency', () => {
+  const item = createDraftItem({
+    currency: 'USD',
+    priceHistory: [comp(30, 'USD', ADDED), comp(40, 'GBP', ADDED + 2 * DAY), comp(20, 'USD', ADDED + DAY), comp(99, 'JPY', ADDED), comp(60, 'USD', ADDED)]
+  }, ADDED);
+
+  assert.deepEqual(suggestListPrice(item, settings), { amount: 40, low: 20, high: 60, compCount: 4, skippedCount: 1 });
+  assert.equal(itemComps(item)[0].currency, 'GBP');
+  assert.equal(suggestListPrice(createDraftItem({}, ADDED), settings), null);
+});
+
+test('unsold items priced longer ago than the setting are stale', () => {
+  const item = createDraftItem({ estimated_value: 10 }, ADDED);
+  assert.equal(isPriceStale(item, settings, ADDED + 90 * DAY), false);
+  assert.equal(isPriceStale(item, settings, ADDED + 91 * DAY), true);
+  assert.equal(isPriceStale(withPriceRecorded({ ...item, estimated_value: 12 }, 'revision', ADDED + 80 * DAY), settings, ADDED + 91 * DAY), false);
+  assert.equal(isPriceStale(withStatus(item, 'sold', ADDED), settings, ADDED + 91 * DAY), false);
+  assert.equal(isPriceStale(item, { ...settings, stalePriceDays: 0 }, ADDED + 1000 * DAY), false);
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, PriceEntry, PriceEntryKind, Settings } from '../types';
+import { generateId } from './id';
+import { convertCurrency } from './currency';
+import { isHeld } from './lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const PRICE_ENTRY_LABELS: Record<PriceEntryKind, string> = {
+  estimate: 'AI estimate',
+  revision: 'Revised',
+  comp: 'Sold comp'
+};
+
+export const createPriceEntry = (
+  fields: Pick<PriceEntry, 'kind' | 'amount' | 'currency'> & Partial<PriceEntry>,
+  now = Date.now()
+): PriceEntry => ({
+  id: generateId(),
+  date: now,
+  source: '',
+  url: '',
+  notes: '',
+  ...fields
+});
+
+/** The sold comps, most recent sale first. */
+export const itemComps = (item: InventoryItem) =>
+  item.priceHistory.filter(entry => entry.kind === 'comp').sort((a, b) => b.date - a.date);
+
+const latestPricing = (item: InventoryItem) => {
+  const pricings = item.priceHistory.filter(entry => entry.kind !== 'comp');
+  return pricings.length > 0 ? pricings[pricings.length - 1] : null;
+};
+
+/** When the estimate was last set: its newest estimate or revision, or failing that when the item was added. */
+export const lastPricedAt = (item: InventoryItem) => latestPricing(item)?.date ?? item.createdAt;
+
+/**
+ * Records the item's current estimate in its history, unless the newest
+ * estimate or revision there already says the same. Analyses record an
+ * 'estimate'; the server records a 'revision' whenever a save changes the price.
+ */
+export const withPriceRecorded = (item: InventoryItem, kind: 'estimate' | 'revision', now = Date.now()): InventoryItem => {
+  const latest = latestPricing(item);
+  if (latest && latest.amount === item.estimated_value && latest.currency === item.currency) return item;
+  const entry = createPriceEntry({ kind, amount: item.estimated_value, currency: item.currency }, now);
+  return { ...item, priceHistory: [...item.priceHistory, entry] };
+};
+
+export interface PriceSuggestion {
+  amount: number; // in the item's currency
+  low: number;
+  high: number;
+  compCount: number;
+  skippedCount: number; // comps in a currency with no exchange rate
+}
+
+const roundToCent = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A list price from the item's sold comps: their median, converted into the
+ * item's currency, along with the range they span. Null until there is a comp
+ * it can convert.
+ */
+export const suggestListPrice = (item: InventoryItem, settings: Settings): PriceSuggestion | null => {
+  const comps = itemComps(item);
+  const amounts = comps
+    .map(comp => convertCurrency(comp.amount, comp.currency, item.currency, settings))
+    .filter((amount): amount is number => amount !== null)
+    .sort((a, b) => a - b);
+  if (amounts.length === 0) return null;
+
+  const middle = Math.floor(amounts.length / 2);
+  const median = amounts.length % 2 === 1 ? amounts[middle] : (amounts[middle - 1] + amounts[middle]) / 2;
+  return {
+    amount: roundToCent(median),
+    low: roundToCent(amounts[0]),
+    high: roundToCent(amounts[amounts.length - 1]),
+    compCount: amounts.length,
+    skippedCount: comps.length - amounts.length
+  };
+};
+
+/** Whole days since the estimate was last set. */
+export const priceAgeDays = (item: InventoryItem, now = Date.now()) => Math.floor((now - lastPricedAt(item)) / DAY);
+
+/** Whether an unsold item's estimate is older than the stale-price age in settings. */
+export const isPriceStale = (item: InventoryItem, settings: Settings, now = Date.now()) =>
+  settings.stalePriceDays > 0 && isHeld(item) && priceAgeDays(item, now) > settings.stalePriceDays;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeQrCode } from './qrCode';
+
+// A minimal reader for version 1 symbols, written from the standard rather than the encoder
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const isFunctionModule = (x: number, y: number) =>
+  x === 6 || y === 6 || (x < 9 && y < 9) || (x >= 13 && y < 9) || (x < 9 && y >= 13);
+
+// The copy of the format information around the top-left finder, most significant bit first
+const readFormat = (modules: boolean[][]) => {
+  const positions = [[0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8], [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0]];
+  return positions.reduce((bits, [x, y]) => (bits << 1) | (modules[y][x] ? 1 : 0), 0) ^ 0x5412;
+};
+
+const readCodewords = (modules: boolean[][], mask: number) => {
+  const bits: number[] = [];
+  for (let right = 20, upward = true; right > 0; right -= 2, upward = !upward) {
+    if (right === 6) right = 5;
+    for (let step = 0; step < 21; step++) {
+      const y = upward ? 20 - step : step;
+      for (const x of [right, right - 1]) {
+        if (!isFunctionModule(x, y)) bits.push(Number(modules[y][x] !== MASKS[mask](x, y)));
+      }
+    }
+  }
+  return Array.from({ length: 26 }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+};
+
+const gfMultiply = (a: number, b: number) => {
+  let product = 0;
+  for (; b > 0; b >>= 1, a = (a << 1) ^ (a & 0x80 ? 0x11d : 0)) if (b & 1) product ^= a;
+  return product & 0xff;
+};
+
+// A valid Reed-Solomon codeword has the generator's roots, 2^0 to 2^(n-1), as roots too
+const syndromes = (codewords: number[], count: number) => {
+  const result: number[] = [];
+  for (let i = 0, root = 1; i < count; i++, root = gfMultiply(root, 2)) {
+    result.push(codewords.reduce((sum, codeword) => gfMultiply(sum, root) ^ codeword, 0));
+  }
+  return result;
+};
+
+test('a SKU encodes as a readable version 1 symbol at level M', () => {
+  const modules = encodeQrCode('RR-00042');
+  assert.equal(modules.length, 21);
+  assert.ok(modules.every(row => row.length === 21));
+  assert.deepEqual(modules[0].slice(0, 7), [true, true, true, true, true, true, true]);
+
+  const format = readFormat(modules);
+  assert.equal(format >> 13, 0b00, "error correction level M");
+  let remainder = format;
+  for (let i = 14; i >= 10; i--) if (remainder & (1 << i)) remainder ^= 0x537 << (i - 10);
+  assert.equal(remainder, 0, "format information checksum");
+
+  const codewords = readCodewords(modules, (format >> 10) & 0b111);
+  assert.deepEqual(syndromes(codewords, 10), new Array(10).fill(0));
+
+  const bits = codewords.slice(0, 16).flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >> (7 - i)) & 1));
+  const read = (from: number, length: number) => bits.slice(from, from + length).reduce((value, bit) => (value << 1) | bit, 0);
+  assert.equal(read(0, 4), 0b0100, "byte mode");
+  const length = read(4, 8);
+  const text = String.fromCharCode(...Array.from({ length }, (_, i) => read(12 + i * 8, 8)));
+  assert.equal(text, 'RR-00042');
+});
+
+test('labels hold up to 213 bytes', () => {
+  assert.equal(encodeQrCode('x'.repeat(213)).length, 57);
+  assert.throws(() => encodeQrCode('x'.repeat(214)), /too long/);
+});
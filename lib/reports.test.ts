@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { REPORT_WEEKS, buildReport, startOfWeek } from './reports';
+import { DEFAULT_SETTINGS } from './currency';
+import { createDraftItem } from './items';
+import { withStatus } from './lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 12, 15, 30).getTime(); // a Wednesday afternoon
+const settings = { ...DEFAULT_SETTINGS, exchangeRates: { USD: 1, GBP: 1.25 } };
+
+const teacups = createDraftItem({ item_name: 'Teacups', category: 'Kitchen', estimated_value: 8, quantity: 6 }, NOW - 10 * DAY);
+const lamp = createDraftItem({ item_name: 'Desk lamp', category: 'Lighting', estimated_value: 80, currency: 'GBP' }, NOW - 100 * DAY);
+const clock = createDraftItem({ item_name: 'Clock', estimated_value: 30, currency: 'JPY' }, NOW - 2 * DAY);
+const sold = withStatus(createDraftItem({ item_name: 'Radio', category: 'Electronics', estimated_value: 500 }, NOW - DAY), 'sold', NOW);
+
+const report = buildReport([teacups, lamp, clock, sold], settings, NOW);
+
+test('weeks start at midnight on Monday', () => {
+  assert.equal(startOfWeek(NOW), new Date(2024, 5, 10).getTime());
+});
+
+test('only unsold items with a rate count towards the held value', () => {
+  assert.equal(report.heldCount, 2);
+  assert.equal(report.heldValue, 8 * 6 + 100);
+  assert.equal(report.unconvertedCount, 1);
+  assert.equal(report.averageAgeDays, 55);
+  assert.deepEqual(report.valueByCategory.map(bar => [bar.label, bar.value]), [['Lighting', 100], ['Kitchen', 48]]);
+});
+
+test('items are banded by age and by the price of one unit', () => {
+  assert.deepEqual(report.aging.map(bar => bar.count), [1, 0, 1, 0, 0]);
+  const bands = report.priceDistribution.filter(bar => bar.count > 0);
+  // The six $8 teacups stay in the lowest band despite being worth $48 together
+  assert.deepEqual(bands.map(bar => bar.value), [48, 100]);
+  assert.equal(report.priceDistribution.indexOf(bands[0]), 0);
+});
+
+test('weekly intake covers the last twelve weeks, sold items included', () => {
+  assert.equal(report.addedPerWeek.length, REPORT_WEEKS);
+  const lastWeek = report.addedPerWeek[REPORT_WEEKS - 1];
+  assert.equal(lastWeek.count, 2);
+  assert.equal(lastWeek.value, 500); // the clock has no rate
+});
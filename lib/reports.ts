@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, Settings } from '../types';
+import { formatMoney, toHomeCurrency } from './currency';
+import { isHeld, summarizeInventory } from './lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REPORT_WEEKS = 12;
+export const TOP_ITEM_COUNT = 10;
+
+// Upper bounds of each age band, in days
+const AGING_BANDS: [string, number][] = [
+  ['Under 30 days', 30],
+  ['1–3 months', 91],
+  ['3–6 months', 182],
+  ['6–12 months', 365],
+  ['Over a year', Infinity]
+];
+
+// Upper bounds of each price band, in the home currency
+const PRICE_BANDS = [10, 25, 50, 100, 250, 500, 1000, Infinity];
+
+export interface ReportBar {
+  label: string;
+  count: number;
+  value: number; // estimated value in the home currency
+}
+
+// An unsold item with its estimate converted into the home currency
+export interface HeldItem {
+  item: InventoryItem;
+  unitValue: number;
+  value: number; // the whole lot
+  ageDays: number;
+}
+
+/** Midnight on the Monday of the week containing `time`, in local time. */
+export const startOfWeek = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return date.getTime();
+};
+
+const addBar = (bars: Map<string, ReportBar>, label: string, value: number) => {
+  const bar = bars.get(label) ?? { label, count: 0, value: 0 };
+  bars.set(label, { ...bar, count: bar.count + 1, value: bar.value + value });
+};
+
+const itemsAddedPerWeek = (items: InventoryItem[], settings: Settings, now: number): ReportBar[] => {
+  const weeks: ReportBar[] = [];
+  const start = new Date(startOfWeek(now));
+  start.setDate(start.getDate() - 7 * (REPORT_WEEKS - 1));
+  for (let i = 0; i < REPORT_WEEKS; i++) {
+    const from = start.getTime();
+    start.setDate(start.getDate() + 7);
+    const added = items.filter(item => item.createdAt >= from && item.createdAt < start.getTime());
+    weeks.push({
+      label: new Date(from).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      count: added.length,
+      value: added.reduce((sum, item) => sum + (toHomeCurrency(item.estimated_value * item.quantity, item.currency, settings) ?? 0), 0)
+    });
+  }
+  return weeks;
+};
+
+const priceBandLabel = (index: number, currency: string) => {
+  const upper = PRICE_BANDS[index];
+  const lower = index === 0 ? 0 : PRICE_BANDS[index - 1];
+  if (upper === Infinity) return `${formatMoney(lower, currency)}+`;
+  return `${formatMoney(lower, currency)}–${formatMoney(upper, currency)}`;
+};
+
+/**
+ * Everything the reporting dashboard shows, in the home currency. Like
+ * `summarizeInventory`, unsold items in a currency with no exchange rate are
+ * left out of the value figures and counted in `unconvertedCount`.
+ */
+export const buildReport = (items: InventoryItem[], settings: Settings, now = Date.now()) => {
+  const currency = settings.homeCurrency;
+  const held: HeldItem[] = [];
+  let unconvertedCount = 0;
+
+  for (const item of items.filter(isHeld)) {
+    const unitValue = toHomeCurrency(item.estimated_value, item.currency, settings);
+    if (unitValue === null) {
+      unconvertedCount++;
+    } else {
+      held.push({ item, unitValue, value: unitValue * item.quantity, ageDays: Math.max(0, Math.floor((now - item.createdAt) / DAY)) });
+    }
+  }
+
+  const byCategory = new Map<string, ReportBar>();
+  const aging = new Map<string, ReportBar>(AGING_BANDS.map(([label]) => [label, { label, count: 0, value: 0 }]));
+  const prices = new Map<string, ReportBar>(
+    PRICE_BANDS.map((_, i) => priceBandLabel(i, currency)).map(label => [label, { label, count: 0, value: 0 }])
+  );
+  for (const { item, unitValue, value, ageDays } of held) {
+    addBar(byCategory, item.category || 'Uncategorized', value);
+    addBar(aging, AGING_BANDS.find(([, maxDays]) => ageDays < maxDays)![0], value);
+    // Banded by what one unit sells for, so a lot of cheap items stays with the cheap items
+    addBar(prices, priceBandLabel(PRICE_BANDS.findIndex(limit => unitValue < limit), currency), value);
+  }
+
+  const heldValue = held.reduce((sum, { value }) => sum + value, 0);
+
+  return {
+    currency,
+    generatedAt: now,
+    summary: summarizeInventory(items, settings),
+    heldCount: held.length,
+    heldValue,
+    averageAgeDays: held.length > 0 ? held.reduce((sum, { ageDays }) => sum + ageDays, 0) / held.length : null,
+    unconvertedCount,
+    valueByCategory: [...byCategory.values()].sort((a, b) => b.value - a.value),
+    addedPerWeek: itemsAddedPerWeek(items, settings, now),
+    aging: [...aging.values()],
+    priceDistribution: [...prices.values()],
+    topItems: [...held].sort((a, b) => b.value - a.value).slice(0, TOP_ITEM_COUNT),
+    // For the printed itemized list, grouped the way an appraiser would read it
+    heldItems: [...held].sort((a, b) =>
+      (a.item.category || 'Uncategorized').localeCompare(b.item.category || 'Uncategorized') ||
+      a.item.item_name.localeCompare(b.item.item_name)
+    )
+  };
+};
+
+export type Report = ReturnType<typeof buildReport>;
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_QUERY, applyQuery, searchScore } from './search';
+import { DEFAULT_SETTINGS } from './currency';
+import { createDraftItem } from './items';
+
+const settings = { ...DEFAULT_SETTINGS, exchangeRates: { USD: 1, GBP: 1.25 } };
+
+const headphones = createDraftItem({ item_name: 'Sony Headphones', category: 'Electronics', estimated_value: 60, suggested_description: 'Over-ear, wireless' }, Date.UTC(2024, 2, 1));
+const lamp = createDraftItem({ item_name: 'Brass desk lamp', category: 'Lighting', estimated_value: 40, currency: 'GBP', suggested_description: 'Pairs well with headphones' }, Date.UTC(2024, 2, 10));
+const radio = createDraftItem({ item_name: 'Café radio', category: 'electronics', estimated_value: 15 }, Date.UTC(2024, 2, 20));
+const items = [headphones, lamp, radio];
+
+test('every word of a search has to match, allowing for typos and accents', () => {
+  assert.ok(searchScore(headphones, 'headphnes') > 0);
+  assert.ok(searchScore(headphones, 'headphon') > 0);
+  assert.ok(searchScore(radio, 'cafe') > 0);
+  assert.equal(searchScore(headphones, 'sony lamp'), 0);
+  // Words under four letters must match exactly
+  assert.equal(searchScore(radio, 'caf radix cat'), 0);
+});
+
+test('name hits rank above description hits', () => {
+  const found = applyQuery(items, { ...DEFAULT_QUERY, search: 'headphones' }, settings);
+  assert.deepEqual(found.map(item => item.id), [headphones.id, lamp.id]);
+});
+
+test('filters compare values in the home currency and categories case-insensitively', () => {
+  const query = { ...DEFAULT_QUERY, category: 'Electronics', minValue: 10 };
+  assert.deepEqual(applyQuery(items, query, settings).map(item => item.id), [radio.id, headphones.id]);
+  // The £40 lamp is worth $50
+  assert.deepEqual(applyQuery(items, { ...DEFAULT_QUERY, minValue: 45, maxValue: 55 }, settings).map(item => item.id), [lamp.id]);
+});
+
+test('date filters include the whole of both end days', () => {
+  const query = { ...DEFAULT_QUERY, addedAfter: '2024-03-01', addedBefore: '2024-03-10' };
+  const found = applyQuery(items, query, settings).map(item => item.id);
+  assert.ok(found.includes(lamp.id));
+  assert.ok(!found.includes(radio.id));
+});
+
+test('a column sort overrides relevance', () => {
+  const sorted = applyQuery(items, { ...DEFAULT_QUERY, sort: { key: 'value', direction: 'desc' } }, settings);
+  assert.deepEqual(sorted.map(item => item.id), [headphones.id, lamp.id, radio.id]);
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, InventoryQuery, Settings, SortKey } from '../types';
+import { toHomeCurrency } from './currency';
+import { ITEM_STATUSES, isSoldStatus } from './lifecycle';
+
+export const DEFAULT_QUERY: InventoryQuery = {
+  search: '',
+  status: 'all',
+  category: '',
+  minValue: null,
+  maxValue: null,
+  addedAfter: null,
+  addedBefore: null,
+  sort: null
+};
+
+// How much a hit in each field counts towards an item's relevance.
+const FIELD_WEIGHTS: [(item: InventoryItem) => string, number][] = [
+  [item => item.item_name, 3],
+  [item => item.brand, 2.5],
+  [item => `${item.model} ${item.identifiers.map(identifier => identifier.value).join(' ')}`, 2],
+  [item => item.category, 2],
+  [item => `${item.sku} ${item.location}`, 2],
+  [item => item.suggested_description, 1],
+  [item => item.condition_notes, 1]
+];
+
+export const tokenize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly; longer ones tolerate a typo or two.
+const allowedTypos = (term: string) => term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+/** 1 for a substring hit, less for a near miss, 0 for no match. */
+const termScore = (term: string, words: string[]) => {
+  let best = 0;
+  const typos = allowedTypos(term);
+  for (const word of words) {
+    if (word.includes(term)) return 1;
+    if (typos === 0) continue;
+    // Compare against the word's same-length prefix too, so "headphon" finds "headphones"
+    const distance = Math.min(editDistance(term, word), editDistance(term, word.slice(0, term.length)));
+    if (distance <= typos) best = Math.max(best, 0.6 - 0.2 * (distance - 1));
+  }
+  return best;
+};
+
+/**
+ * Fuzzy relevance of an item to a search: every word of the search has to
+ * turn up somewhere (allowing for typos), and hits in the name count for
+ * more than hits in the description. Returns 0 when the item doesn't match.
+ */
+export const searchScore = (item: InventoryItem, search: string) => {
+  const terms = tokenize(search);
+  if (terms.length === 0) return 1;
+  const fields = FIELD_WEIGHTS.map(([read, weight]) => [tokenize(read(item)), weight] as const);
+
+  let total = 0;
+  for (const term of terms) {
+    const best = Math.max(...fields.map(([words, weight]) => termScore(term, words) * weight));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+};
+
+/** What the Value column shows: the sale price once sold, otherwise the estimate. */
+export const displayValue = (item: InventoryItem) =>
+  isSoldStatus(item.status) && item.salePrice !== null ? item.salePrice : item.estimated_value;
+
+// Items with no exchange rate are compared at face value rather than dropped from range filters
+const valueInHomeCurrency = (item: InventoryItem, settings: Settings) =>
+  toHomeCurrency(displayValue(item), item.currency, settings) ?? displayValue(item);
+
+const startOfDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARATORS: Record<SortKey, (a: InventoryItem, b: InventoryItem, settings: Settings) => number> = {
+  item_name: (a, b) => a.item_name.localeCompare(b.item_name),
+  category: (a, b) => a.category.localeCompare(b.category),
+  status: (a, b) => ITEM_STATUSES.indexOf(a.status) - ITEM_STATUSES.indexOf(b.status),
+  value: (a, b, settings) => valueInHomeCurrency(a, settings) - valueInHomeCurrency(b, settings),
+  createdAt: (a, b) => a.createdAt - b.createdAt
+};
+
+/** Filters and orders items for the inventory table. */
+export const applyQuery = (items: InventoryItem[], query: InventoryQuery, settings: Settings) => {
+  const afterMs = query.addedAfter ? startOfDay(query.addedAfter) : null;
+  const beforeMs = query.addedBefore ? startOfDay(query.addedBefore) + DAY_MS : null;
+  const category = query.category.toLowerCase();
+
+  const matches = items
+    .filter(item =>
+      (query.status === 'all' || item.status === query.status) &&
+      (!category || item.category.toLowerCase() === category) &&
+      (query.minValue === null || valueInHomeCurrency(item, settings) >= query.minValue) &&
+      (query.maxValue === null || valueInHomeCurrency(item, settings) <= query.maxValue) &&
+      (afterMs === null || item.createdAt >= afterMs) &&
+      (beforeMs === null || item.createdAt < beforeMs)
+    )
+    .map(item => ({ item, score: searchScore(item, query.search) }))
+    .filter(({ score }) => score > 0);
+
+  const { sort } = query;
+  if (sort) {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    matches.sort((a, b) => direction * COMPARATORS[sort.key](a.item, b.item, settings));
+  } else {
+    matches.sort((a, b) => b.score - a.score || b.item.createdAt - a.item.createdAt);
+  }
+  return matches.map(({ item }) => item);
+};
+
+/** How many filters beyond search and status are narrowing the table. */
+export const countActiveFilters = (query: InventoryQuery) =>
+  [query.category, query.minValue, query.maxValue, query.addedAfter, query.addedBefore]
+    .filter(value => value !== null && value !== '').length;
+
+export const isSameQuery = (a: InventoryQuery, b: InventoryQuery) => JSON.stringify(a) === JSON.stringify(b);
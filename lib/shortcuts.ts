@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shortcuts are written as e.g. 'mod+shift+z', 'arrowdown' or '?'; 'mod' is Ctrl, or Cmd on a Mac.
+
+/** Whether a key press belongs to a text field rather than to the app. */
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * The shortcut a key press spells, or null for ones the app never binds (Alt
+ * combinations). Shift is only spelled out for letters and named keys, so
+ * Shift+/ is just '?'.
+ */
+export const shortcutFromEvent = (e: KeyboardEvent): string | null => {
+  if (e.altKey) return null;
+  const key = e.key.toLowerCase();
+  const isSymbol = e.key.length === 1 && key === e.key.toUpperCase();
+  return `${e.ctrlKey || e.metaKey ? 'mod+' : ''}${e.shiftKey && !isSymbol ? 'shift+' : ''}${key}`;
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_NAMES: Record<string, string> = {
+  mod: isMac ? '⌘' : 'Ctrl',
+  shift: 'Shift',
+  escape: 'Esc',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→'
+};
+
+/** A shortcut as shown to people, e.g. 'mod+shift+z' → 'Ctrl+Shift+Z'. */
+export const formatShortcut = (shortcut: string) =>
+  shortcut.split('+').map(part => KEY_NAMES[part] ?? part.toUpperCase()).join('+');
+
+export interface ShortcutHelp {
+  keys: string[];
+  description: string;
+}
+
+/** What each shortcut does, by where it works; shown in the command palette. */
+export const SHORTCUT_HELP: { title: string; shortcuts: ShortcutHelp[] }[] = [
+  {
+    title: "With no dialog open",
+    shortcuts: [
+      { keys: ['mod+k', '?'], description: "Open the command palette" },
+      { keys: ['mod+z'], description: "Undo" },
+      { keys: ['mod+shift+z', 'mod+y'], description: "Redo" }
+    ]
+  },
+  {
+    title: "Inventory list",
+    shortcuts: [
+      { keys: ['j'], description: "Next item" },
+      { keys: ['k'], description: "Previous item" },
+      { keys: ['e'], description: "Edit the item" },
+      { keys: ['c'], description: "Copy its description" },
+      { keys: ['x'], description: "Select or deselect it" }
+    ]
+  },
+  {
+    title: "Reviewing an analysis",
+    shortcuts: [
+      { keys: ['a'], description: "Approve" },
+      { keys: ['d'], description: "Discard" },
+      { keys: ['j', 'arrowright'], description: "Next analysis" },
+      { keys: ['k', 'arrowleft'], description: "Previous analysis" },
+      { keys: ['c'], description: "Copy the description" }
+    ]
+  },
+  {
+    title: "In a dialog",
+    shortcuts: [
+      { keys: ['escape'], description: "Close it" }
+    ]
+  }
+];
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Serves the app shell and item photos when there is no connection. API calls
+// are left alone: the app keeps its own offline copy of data in IndexedDB.
+
+const CACHE_NAME = 'resale-ready-v2';
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+const ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g;
+
+// The page that registers this worker loaded its bundles before the worker was
+// there to see them, so read their hashed names from the shell and fetch them
+// now; otherwise the first launch without a connection would have no scripts.
+const precache = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+  const shell = await (await cache.match('/')).text();
+  const assets = [...new Set([...shell.matchAll(ASSET_PATTERN)].map(match => match[1]))];
+  await cache.addAll(assets);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache());
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response);
+  }
+};
+
+// Pages: always try for the latest build, falling back to the cached shell
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    await putInCache('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets and photos never change under the same URL, so the cache wins
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/images/') || APP_SHELL.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import './server/env';
+import path from 'path';
+import express from 'express';
+import { createServer as createViteServer } from 'vite';
+import { PORT, IMAGES_DIR, IMAGES_ROUTE } from './server/config';
+import { openDatabase } from './server/db';
+import { errorHandler } from './server/errors';
+import { createInventoryRepository } from './server/inventoryRepository';
+import { createSettingsRepository } from './server/settingsRepository';
+import { createSavedViewRepository } from './server/savedViewRepository';
+import { createCategoryRepository } from './server/categoryRepository';
+import { createCollectionRepository } from './server/collectionRepository';
+import { createInventoryRouter } from './server/routes/inventory';
+import { createAnalyzeRouter } from './server/routes/analyze';
+import { createDescribeRouter } from './server/routes/describe';
+import { createBackupRouter } from './server/routes/backup';
+import { createSettingsRouter } from './server/routes/settings';
+import { createViewsRouter } from './server/routes/views';
+import { createCategoriesRouter } from './server/routes/categories';
+import { createCollectionsRouter } from './server/routes/collections';
+import { createVisionProvider } from './server/vision';
+
+const ORPHANED_IMAGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function startServer() {
+  const app = express();
+  const db = openDatabase();
+  const inventory = createInventoryRepository(db);
+  const settings = createSettingsRepository(db);
+  const savedViews = createSavedViewRepository(db);
+  const categories = createCategoryRepository(db);
+  const collections = createCollectionRepository(db);
+  const vision = createVisionProvider();
+
+  // Photos dropped by edits stay a day, so an open session can still undo them
+  const removed = inventory.removeOrphanedImages(Date.now() - ORPHANED_IMAGE_TTL_MS);
+  if (removed > 0) console.log(`Removed ${removed} unused image file${removed === 1 ? '' : 's'}`);
+
+  // Photos travel as base64 data URLs, so allow generous bodies
+  app.use(express.json({ limit: '50mb' }));
+
+  app.use('/api/inventory', createInventoryRouter(inventory, collections));
+  app.use('/api/analyze', createAnalyzeRouter(vision, settings));
+  app.use('/api/describe', createDescribeRouter(vision, inventory));
+  app.use('/api/backup', createBackupRouter(inventory, collections));
+  app.use('/api/settings', createSettingsRouter(settings, collections));
+  app.use('/api/views', createViewsRouter(savedViews));
+  app.use('/api/categories', createCategoriesRouter(categories));
+  app.use('/api/collections', createCollectionsRouter(collections));
+  app.use(IMAGES_ROUTE, express.static(IMAGES_DIR, { maxAge: '1y', immutable: true }));
+  app.use('/api', errorHandler);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa'
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`ResaleReady running on http://localhost:${PORT} (vision: ${vision.name})`);
+  });
+}
+
+startServer();
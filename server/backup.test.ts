@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { strToU8, zipSync } from 'fflate';
+import { BACKUP_FORMAT, BACKUP_VERSION, createBackup, readBackup } from './backup';
+import { DEFAULT_COLLECTION_ID } from '../lib/collections';
+import { createDraftItem } from '../lib/items';
+
+const CREATED_AT = Date.UTC(2023, 5, 1);
+const PHOTO = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+
+const archive = (version: number, items: unknown[], images: Record<string, Uint8Array> = {}) => zipSync({
+  'manifest.json': strToU8(JSON.stringify({ format: BACKUP_FORMAT, version, exportedAt: '', itemCount: items.length })),
+  'items.json': strToU8(JSON.stringify(items)),
+  ...images
+});
+
+test('an item from the old localStorage array is migrated through every version', () => {
+  const legacy = [{ id: 'a1', item_name: 'Desk lamp', category: 'Lighting', estimated_value: 40, currency: 'USD', condition_notes: '', suggested_description: '', createdAt: CREATED_AT }];
+  const [item] = readBackup(strToU8(JSON.stringify(legacy))).items;
+
+  assert.equal(item.status, 'draft');
+  assert.deepEqual(item.statusDates, { draft: CREATED_AT });
+  assert.equal(item.salePrice, null);
+  assert.deepEqual(item.photos, []);
+  assert.equal(item.brand, '');
+  assert.equal(item.condition_grade, null);
+  assert.equal(item.quantity, 1);
+  assert.equal(item.sku, '');
+  assert.deepEqual(item.priceHistory, []);
+  assert.equal(item.collectionId, DEFAULT_COLLECTION_ID);
+});
+
+test('a version 1 thumbnail becomes a photo that doubles as its own thumbnail', () => {
+  const v1 = { ...createDraftItem({ item_name: 'Vase' }, CREATED_AT), photos: undefined, thumbnail: 'images/vase.jpg' };
+  const [item] = readBackup(archive(1, [v1], { 'images/vase.jpg': PHOTO })).items;
+
+  const dataUrl = `data:image/jpeg;base64,${Buffer.from(PHOTO).toString('base64')}`;
+  assert.deepEqual(item.photos, [{ src: dataUrl, thumbnail: dataUrl }]);
+});
+
+test('fields added in later versions are kept when an older backup already has them', () => {
+  const v4 = { ...createDraftItem({ item_name: 'Teacups' }, CREATED_AT), quantity: 6, photos: [] };
+  const [item] = readBackup(archive(4, [v4])).items;
+  assert.equal(item.quantity, 6);
+});
+
+test('a backup from a newer version is refused', () => {
+  assert.throws(() => readBackup(archive(BACKUP_VERSION + 1, [])), /newer version/);
+});
+
+test('a current backup reads back the items it was made from', () => {
+  const item = createDraftItem({ item_name: 'Clock', estimated_value: 25, sku: 'RR-00001' }, CREATED_AT);
+  const restored = readBackup(createBackup([item], []));
+  assert.deepEqual(restored.items, [item]);
+  assert.deepEqual(restored.collections, []);
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { InventoryItem, ItemPhoto } from '../types';
+import { IMAGES_DIR } from './config';
+import { HttpError } from './errors';
+import { fileNameFromUrl, mimeTypeForFile } from './images';
+import { parseItem } from './itemValidation';
+import { CollectionFields, parseCollection } from './collectionValidation';
+import { DEFAULT_COLLECTION_ID } from '../lib/collections';
+
+export const BACKUP_FORMAT = 'resale-ready-backup';
+
+/**
+ * Version of the item layout inside a backup. Bump it whenever InventoryItem
+ * changes shape, and add a migration from the previous version below.
+ */
+export const BACKUP_VERSION = 8;
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  itemCount: number;
+}
+
+type RawItem = Record<string, unknown>;
+
+// BACKUP_MIGRATIONS[n] upgrades an item from version n to n + 1.
+const BACKUP_MIGRATIONS: Record<number, (item: RawItem) => RawItem> = {
+  // Version 0 is the bare array the app used to keep in localStorage, from before listing lifecycles
+  0: item => ({
+    status: 'draft',
+    statusDates: { draft: item.createdAt },
+    costBasis: 0,
+    salePrice: null,
+    platformFees: 0,
+    shippingCost: 0,
+    ...item
+  }),
+  // Version 1 items had a single `thumbnail` rather than a photo list
+  1: ({ thumbnail, ...item }) => ({
+    ...item,
+    photos: typeof thumbnail === 'string' && thumbnail ? [thumbnail] : []
+  }),
+  // Version 2 photos were bare paths with no separate thumbnail
+  2: item => ({
+    ...item,
+    photos: Array.isArray(item.photos) ? item.photos.map(photo => ({ src: photo, thumbnail: photo })) : []
+  }),
+  // Version 3 predates brand, identifiers, condition grades and price ranges
+  3: item => ({
+    brand: '',
+    model: '',
+    identifiers: [],
+    condition_grade: null,
+    price_low: null,
+    price_high: null,
+    ...item
+  }),
+  // Version 4 items were always a single unit
+  4: item => ({ quantity: 1, ...item }),
+  // Version 5 predates SKUs and storage locations; restoring numbers the items afresh
+  5: item => ({ sku: '', location: '', ...item }),
+  // Version 6 predates price histories
+  6: item => ({ priceHistory: [], ...item }),
+  // Version 7 predates collections
+  7: item => ({ collectionId: DEFAULT_COLLECTION_ID, ...item })
+};
+
+const migrateItems = (items: RawItem[], fromVersion: number) => {
+  let migrated = items;
+  for (let version = fromVersion; version < BACKUP_VERSION; version++) {
+    migrated = migrated.map(BACKUP_MIGRATIONS[version]);
+  }
+  return migrated;
+};
+
+const ARCHIVE_IMAGE_PREFIX = 'images/';
+
+export const backupFileName = (now = new Date()) =>
+  `resale-ready-backup-${now.toISOString().slice(0, 10)}.zip`;
+
+/** Zips every item and collection plus the items' photo files into a self-contained archive. */
+export const createBackup = (items: InventoryItem[], collections: CollectionFields[]) => {
+  const files: Zippable = {};
+
+  const archivePhoto = (url: string) => {
+    const fileName = fileNameFromUrl(url);
+    const filePath = fileName && path.join(IMAGES_DIR, fileName);
+    if (!filePath || !fs.existsSync(filePath)) return null;
+    // Photos are already compressed, so store them as-is
+    files[`${ARCHIVE_IMAGE_PREFIX}${fileName}`] = [fs.readFileSync(filePath), { level: 0 }];
+    return `${ARCHIVE_IMAGE_PREFIX}${fileName}`;
+  };
+
+  const entries = items.map(item => ({
+    ...item,
+    photos: item.photos.flatMap(photo => {
+      const src = archivePhoto(photo.src);
+      return src ? [{ src, thumbnail: archivePhoto(photo.thumbnail) ?? src }] : [];
+    })
+  }));
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    itemCount: entries.length
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  files['items.json'] = strToU8(JSON.stringify(entries, null, 2));
+  files['collections.json'] = strToU8(JSON.stringify(collections, null, 2));
+
+  return zipSync(files);
+};
+
+const parseJson = (text: string, what: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, `${what} is not valid JSON`);
+  }
+};
+
+const readArchive = (buffer: Uint8Array) => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(buffer);
+  } catch {
+    throw new HttpError(400, "Backup archive is corrupt");
+  }
+
+  if (!files['manifest.json'] || !files['items.json']) throw new HttpError(400, "Not a ResaleReady backup");
+  const manifest = parseJson(strFromU8(files['manifest.json']), "Backup manifest") as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new HttpError(400, "Not a ResaleReady backup");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new HttpError(400, "This backup was made by a newer version of ResaleReady");
+  }
+
+  const items = parseJson(strFromU8(files['items.json']), "Backup items");
+  if (!Array.isArray(items)) throw new HttpError(400, "Backup items must be an array");
+
+  // Inline archived photos as data URLs so the repository stores them like any upload
+  const inlinePhoto = (archivePath: unknown) => {
+    if (typeof archivePath !== 'string' || !archivePath.startsWith(ARCHIVE_IMAGE_PREFIX)) return null;
+    const data = files[archivePath];
+    const mimeType = mimeTypeForFile(archivePath);
+    if (!data || !mimeType) return null;
+    return `data:${mimeType};base64,${Buffer.from(data).toString('base64')}`;
+  };
+
+  const inlineItemPhoto = (photo: Partial<ItemPhoto> | null): ItemPhoto[] => {
+    const src = inlinePhoto(photo?.src);
+    if (!src) return [];
+    // Share the data URL when both point at one file so the repository stores it once
+    return [{ src, thumbnail: photo?.thumbnail === photo?.src ? src : inlinePhoto(photo?.thumbnail) ?? src }];
+  };
+
+  // Archives from before collections have no collections.json
+  const collections = files['collections.json'] ? parseJson(strFromU8(files['collections.json']), "Backup collections") : [];
+  if (!Array.isArray(collections)) throw new HttpError(400, "Backup collections must be an array");
+
+  return {
+    items: migrateItems(items, manifest.version).map(item => ({
+      ...item,
+      photos: Array.isArray(item.photos) ? item.photos.flatMap(inlineItemPhoto) : []
+    })),
+    collections: collections as unknown[]
+  };
+};
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const parseEntries = <T>(entries: unknown[], what: string, parse: (entry: unknown) => T) =>
+  entries.map((entry, index) => {
+    try {
+      return parse(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `invalid ${what.toLowerCase()}`;
+      throw new HttpError(400, `${what} ${index + 1} in the backup is invalid: ${message}`);
+    }
+  });
+
+/**
+ * Reads either a backup archive or a bare JSON array of items (the old
+ * localStorage format), migrating and validating every item and collection.
+ */
+export const readBackup = (buffer: Uint8Array): { items: InventoryItem[]; collections: CollectionFields[] } => {
+  const isZip = ZIP_SIGNATURE.every((byte, i) => buffer[i] === byte);
+  let items: RawItem[];
+  let collections: unknown[] = [];
+  if (isZip) {
+    ({ items, collections } = readArchive(buffer));
+  } else {
+    const parsed = parseJson(strFromU8(buffer), "Backup");
+    if (!Array.isArray(parsed)) throw new HttpError(400, "Expected a backup archive or a JSON array of items");
+    items = migrateItems(parsed, 0);
+  }
+
+  return {
+    items: parseEntries(items, "Item", item => parseItem(item)),
+    collections: parseEntries(collections, "Collection", collection => parseCollection(collection))
+  };
+};
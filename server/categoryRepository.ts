@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { Category } from '../types';
+
+interface CategoryRow {
+  name: string;
+  created_at: number;
+  item_count: number;
+}
+
+const toCategory = (row: CategoryRow): Category => ({
+  name: row.name,
+  itemCount: row.item_count,
+  createdAt: row.created_at
+});
+
+// Category names compare case-insensitively, so "books" and "Books" are one category.
+export function createCategoryRepository(db: Database.Database) {
+  const selectAll = db.prepare<[], CategoryRow>(`
+    SELECT c.name, c.created_at, COUNT(i.id) AS item_count
+    FROM categories c LEFT JOIN items i ON c.name = i.category AND i.deleted_at IS NULL
+    GROUP BY c.name
+    ORDER BY c.name
+  `);
+  const insert = db.prepare<[string, number]>('INSERT OR IGNORE INTO categories (name, created_at) VALUES (?, ?)');
+  const rename = db.prepare<[string, string]>('UPDATE categories SET name = ? WHERE name = ?');
+  const remove = db.prepare<[string]>('DELETE FROM categories WHERE name = ?');
+  // Trashed items move too, so they come back in the right category
+  const recategorize = db.prepare<[string, string]>('UPDATE items SET category = ? WHERE category = ? COLLATE NOCASE');
+
+  const list = () => selectAll.all().map(toCategory);
+
+  const get = (name: string) => list().find(category => category.name.toLowerCase() === name.toLowerCase()) ?? null;
+
+  /** Adds a category; returns null if one with that name already exists. */
+  const create = (name: string, now = Date.now()) => insert.run(name, now).changes > 0 ? get(name) : null;
+
+  /** Moves every item in `sources` into `target`, creating it if needed, and drops the sources. */
+  const merge = (sources: string[], target: string, now = Date.now()) => {
+    db.transaction(() => {
+      insert.run(target, now);
+      const canonical = get(target)!.name;
+      for (const source of sources) {
+        recategorize.run(canonical, source);
+        if (source.toLowerCase() !== canonical.toLowerCase()) remove.run(source);
+      }
+    })();
+    return get(target)!;
+  };
+
+  /** Renames a category across all items. Renaming onto an existing category merges into it. */
+  const renameCategory = (from: string, to: string) => {
+    const existing = get(to);
+    if (existing && existing.name.toLowerCase() !== from.toLowerCase()) return merge([from], existing.name);
+    db.transaction(() => {
+      rename.run(to, from);
+      recategorize.run(to, from);
+    })();
+    return get(to)!;
+  };
+
+  const destroy = (name: string) => remove.run(name).changes > 0;
+
+  return { list, get, create, rename: renameCategory, merge, destroy };
+}
+
+export type CategoryRepository = ReturnType<typeof createCategoryRepository>;
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpError } from './errors';
+import { MAX_CATEGORY_LENGTH } from '../lib/itemForm';
+
+export const parseCategoryName = (value: unknown, field = 'name') => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) throw new HttpError(400, `"${field}" must be a category name`);
+  if (name.length > MAX_CATEGORY_LENGTH) throw new HttpError(400, `"${field}" must be at most ${MAX_CATEGORY_LENGTH} characters`);
+  return name;
+};
+
+/** Validates a merge request: the categories to fold away and the one they fold into. */
+export const parseCategoryMerge = (body: unknown) => {
+  const input = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(input.from) || input.from.length === 0) throw new HttpError(400, "\"from\" must be a non-empty array of category names");
+  return { from: input.from.map(name => parseCategoryName(name, 'from')), into: parseCategoryName(input.into, 'into') };
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { Collection } from '../types';
+import { DEFAULT_COLLECTION_ID } from '../lib/collections';
+import { CollectionFields } from './collectionValidation';
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  currency: string;
+  cost_basis_rule: string; // JSON
+  export_settings: string; // JSON
+  created_at: number;
+  item_count: number;
+}
+
+type StoredRow = Omit<CollectionRow, 'item_count'>;
+
+const toCollection = (row: CollectionRow): Collection => ({
+  id: row.id,
+  name: row.name,
+  currency: row.currency,
+  costBasisRule: JSON.parse(row.cost_basis_rule),
+  exportSettings: JSON.parse(row.export_settings),
+  itemCount: row.item_count,
+  createdAt: row.created_at
+});
+
+const toRow = (collection: CollectionFields): StoredRow => ({
+  id: collection.id,
+  name: collection.name,
+  currency: collection.currency,
+  cost_basis_rule: JSON.stringify(collection.costBasisRule),
+  export_settings: JSON.stringify(collection.exportSettings),
+  created_at: collection.createdAt
+});
+
+// Collection names compare case-insensitively, like categories
+export function createCollectionRepository(db: Database.Database) {
+  const selectAll = db.prepare<[], CollectionRow>(`
+    SELECT c.*, COUNT(i.id) AS item_count
+    FROM collections c LEFT JOIN items i ON i.collection_id = c.id AND i.deleted_at IS NULL
+    GROUP BY c.id
+    ORDER BY c.id != '${DEFAULT_COLLECTION_ID}', c.created_at -- the default collection first
+  `);
+  const selectNameOwner = db.prepare<[string], { id: string }>('SELECT id FROM collections WHERE name = ?');
+  const insert = db.prepare<StoredRow>(`
+    INSERT INTO collections (id, name, currency, cost_basis_rule, export_settings, created_at)
+    VALUES (@id, @name, @currency, @cost_basis_rule, @export_settings, @created_at)
+  `);
+  const insertIfMissing = db.prepare<StoredRow>(`
+    INSERT OR IGNORE INTO collections (id, name, currency, cost_basis_rule, export_settings, created_at)
+    VALUES (@id, @name, @currency, @cost_basis_rule, @export_settings, @created_at)
+  `);
+  // created_at is fixed at insert time
+  const update = db.prepare<StoredRow>(`
+    UPDATE collections SET name = @name, currency = @currency, cost_basis_rule = @cost_basis_rule, export_settings = @export_settings
+    WHERE id = @id
+  `);
+  const updateCurrency = db.prepare<[string, string]>('UPDATE collections SET currency = ? WHERE id = ?');
+  const remove = db.prepare<[string]>('DELETE FROM collections WHERE id = ?');
+  // Trashed items would otherwise be left pointing at nothing
+  const moveTrashedToDefault = db.prepare<[string]>(`UPDATE items SET collection_id = '${DEFAULT_COLLECTION_ID}' WHERE collection_id = ?`);
+
+  const list = () => selectAll.all().map(toCollection);
+
+  const get = (id: string) => list().find(collection => collection.id === id) ?? null;
+
+  /** Whether another collection already has this name. */
+  const isNameTaken = (name: string, exceptId?: string) => {
+    const owner = selectNameOwner.get(name);
+    return !!owner && owner.id !== exceptId;
+  };
+
+  const create = (collection: CollectionFields) => {
+    insert.run(toRow(collection));
+    return get(collection.id)!;
+  };
+
+  const save = (collection: CollectionFields) => {
+    update.run(toRow(collection));
+    return get(collection.id)!;
+  };
+
+  const setCurrency = (id: string, currency: string) => {
+    updateCurrency.run(currency, id);
+  };
+
+  /** Adds collections from a backup, skipping any whose id or name is already here. */
+  const importMissing = (collections: CollectionFields[]) =>
+    db.transaction(() => collections.reduce((count, collection) => count + insertIfMissing.run(toRow(collection)).changes, 0))();
+
+  /** Deletes a collection that no live item uses; anything of it in the trash moves to the default collection. */
+  const destroy = (id: string) =>
+    db.transaction(() => {
+      moveTrashedToDefault.run(id);
+      return remove.run(id).changes > 0;
+    })();
+
+  return { list, get, isNameTaken, create, save, setCurrency, importMissing, destroy };
+}
+
+export type CollectionRepository = ReturnType<typeof createCollectionRepository>;
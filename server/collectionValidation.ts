@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Collection, CollectionExportSettings, CostBasisRule, ExportFormatId } from '../types';
+import { HttpError } from './errors';
+import { generateId } from '../lib/id';
+import { isCurrencyCode } from '../lib/currency';
+import { MAX_COLLECTION_NAME_LENGTH, MAX_DESCRIPTION_FOOTER_LENGTH } from '../lib/collections';
+
+// What a client sends; item counts are worked out by the repository
+export type CollectionFields = Omit<Collection, 'itemCount'>;
+
+const EXPORT_FORMAT_IDS: ExportFormatId[] = ['ebay', 'etsy', 'facebook', 'json'];
+
+const parseName = (value: unknown) => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) throw new HttpError(400, "\"name\" is required");
+  if (name.length > MAX_COLLECTION_NAME_LENGTH) throw new HttpError(400, `"name" must be at most ${MAX_COLLECTION_NAME_LENGTH} characters`);
+  return name;
+};
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const parseCostBasisRule = (value: unknown): CostBasisRule => {
+  const rule = (value ?? { kind: 'manual' }) as Record<string, unknown>;
+  switch (rule?.kind) {
+    case 'manual':
+      return { kind: 'manual' };
+    case 'fixed':
+      if (!isAmount(rule.amount)) throw new HttpError(400, "A fixed cost basis needs an \"amount\" of zero or more");
+      return { kind: 'fixed', amount: rule.amount };
+    case 'percent':
+      if (!isAmount(rule.percent) || rule.percent > 100) throw new HttpError(400, "A percentage cost basis needs a \"percent\" from 0 to 100");
+      return { kind: 'percent', percent: rule.percent };
+    default:
+      throw new HttpError(400, "\"costBasisRule.kind\" must be manual, fixed or percent");
+  }
+};
+
+const parseExportSettings = (value: unknown): CollectionExportSettings => {
+  const settings = (value ?? {}) as Record<string, unknown>;
+  const format = settings.format ?? 'ebay';
+  if (!EXPORT_FORMAT_IDS.includes(format as ExportFormatId)) {
+    throw new HttpError(400, `"exportSettings.format" must be one of ${EXPORT_FORMAT_IDS.join(', ')}`);
+  }
+  const descriptionFooter = settings.descriptionFooter ?? '';
+  if (typeof descriptionFooter !== 'string') throw new HttpError(400, "\"exportSettings.descriptionFooter\" must be a string");
+  if (descriptionFooter.length > MAX_DESCRIPTION_FOOTER_LENGTH) {
+    throw new HttpError(400, `"exportSettings.descriptionFooter" must be at most ${MAX_DESCRIPTION_FOOTER_LENGTH} characters`);
+  }
+  return { format: format as ExportFormatId, descriptionFooter };
+};
+
+/** Validates an untrusted request body into a collection. */
+export const parseCollection = (body: unknown, id?: string): CollectionFields => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be a collection object");
+  const input = body as Record<string, unknown>;
+  const currency = typeof input.currency === 'string' ? input.currency.trim().toUpperCase() : '';
+  if (!isCurrencyCode(currency)) throw new HttpError(400, "\"currency\" must be a three-letter currency code");
+  const createdAt = input.createdAt ?? Date.now();
+  if (typeof createdAt !== 'number') throw new HttpError(400, "\"createdAt\" must be a number");
+
+  return {
+    id: id ?? (typeof input.id === 'string' && input.id ? input.id : generateId()),
+    name: parseName(input.name),
+    currency,
+    costBasisRule: parseCostBasisRule(input.costBasisRule),
+    exportSettings: parseExportSettings(input.exportSettings),
+    createdAt
+  };
+};
@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+
+export const PORT = Number(process.env.PORT) || 3000;
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+export const DB_PATH = path.join(DATA_DIR, 'resale-ready.db');
+export const IMAGES_DIR = path.join(DATA_DIR, 'images');
+
+// Public URL prefix the image files are served under.
+export const IMAGES_ROUTE = '/images';
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { DATA_DIR, DB_PATH } from './config';
+
+/**
+ * Schema migrations, applied in order. The index of the last applied entry
+ * (plus one) is tracked in SQLite's `user_version` pragma, so only ever
+ * append to this list — never edit a migration that has shipped.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE items (
+    id TEXT PRIMARY KEY,
+    item_name TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT '',
+    estimated_value REAL NOT NULL DEFAULT 0,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    condition_notes TEXT NOT NULL DEFAULT '',
+    suggested_description TEXT NOT NULL DEFAULT '',
+    image_file TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_items_created_at ON items (created_at DESC);`,
+
+  `ALTER TABLE items ADD COLUMN status TEXT NOT NULL DEFAULT 'draft';
+  ALTER TABLE items ADD COLUMN status_dates TEXT NOT NULL DEFAULT '{}';
+  ALTER TABLE items ADD COLUMN cost_basis REAL NOT NULL DEFAULT 0;
+  ALTER TABLE items ADD COLUMN sale_price REAL;
+  ALTER TABLE items ADD COLUMN platform_fees REAL NOT NULL DEFAULT 0;
+  ALTER TABLE items ADD COLUMN shipping_cost REAL NOT NULL DEFAULT 0;
+  UPDATE items SET status_dates = json_object('draft', created_at);
+  CREATE INDEX idx_items_status ON items (status);`,
+
+  `CREATE TABLE item_photos (
+    item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    image_file TEXT NOT NULL,
+    PRIMARY KEY (item_id, position)
+  );
+  INSERT INTO item_photos (item_id, position, image_file)
+    SELECT id, 0, image_file FROM items WHERE image_file IS NOT NULL;
+  ALTER TABLE items DROP COLUMN image_file;`,
+
+  // Existing photos serve as their own thumbnails until they are re-uploaded
+  `ALTER TABLE item_photos ADD COLUMN thumbnail_file TEXT NOT NULL DEFAULT '';
+  UPDATE item_photos SET thumbnail_file = image_file;`,
+
+  // One JSON value per Settings field; missing keys fall back to the defaults
+  `CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );`,
+
+  `ALTER TABLE items ADD COLUMN brand TEXT NOT NULL DEFAULT '';
+  ALTER TABLE items ADD COLUMN model TEXT NOT NULL DEFAULT '';
+  ALTER TABLE items ADD COLUMN identifiers TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE items ADD COLUMN condition_grade TEXT;
+  ALTER TABLE items ADD COLUMN price_low REAL;
+  ALTER TABLE items ADD COLUMN price_high REAL;`,
+
+  `CREATE TABLE saved_views (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );`,
+
+  // Deleting moves an item to the trash; only purging removes the row
+  `ALTER TABLE items ADD COLUMN deleted_at INTEGER;
+  CREATE TABLE item_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    old_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    changed_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_item_changes_item ON item_changes (item_id, changed_at);`,
+
+  // The category taxonomy, seeded with every category already in use
+  `CREATE TABLE categories (
+    name TEXT PRIMARY KEY COLLATE NOCASE,
+    created_at INTEGER NOT NULL
+  );
+  INSERT OR IGNORE INTO categories (name, created_at)
+    SELECT category, MIN(created_at) FROM items WHERE category != '' GROUP BY category;`,
+
+  `ALTER TABLE items ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1;`,
+
+  // Existing items are numbered in the order they were added; the sequence carries on from there
+  `ALTER TABLE items ADD COLUMN sku TEXT NOT NULL DEFAULT '';
+  ALTER TABLE items ADD COLUMN location TEXT NOT NULL DEFAULT '';
+  UPDATE items SET sku = (
+    SELECT printf('RR-%05d', n) FROM (SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, rowid) AS n FROM items) AS numbered
+    WHERE numbered.id = items.id
+  );
+  CREATE UNIQUE INDEX idx_items_sku ON items (sku COLLATE NOCASE) WHERE sku != '';
+  CREATE TABLE sequences (
+    name TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+  INSERT INTO sequences (name, value) SELECT 'sku', COUNT(*) FROM items;`,
+
+  // Items whose price was edited before history was kept start from that edit, dated from the change log
+  `ALTER TABLE items ADD COLUMN price_history TEXT NOT NULL DEFAULT '[]';
+  UPDATE items SET price_history = json_array(json_object(
+    'id', lower(hex(randomblob(4))),
+    'kind', 'revision',
+    'amount', estimated_value,
+    'currency', currency,
+    'date', (SELECT MAX(changed_at) FROM item_changes WHERE item_id = items.id AND field IN ('estimated_value', 'currency')),
+    'source', '',
+    'url', '',
+    'notes', ''
+  ))
+  WHERE EXISTS (SELECT 1 FROM item_changes WHERE item_id = items.id AND field IN ('estimated_value', 'currency'));`,
+
+  // Everything so far goes into one default collection, priced in the home currency
+  `CREATE TABLE collections (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    currency TEXT NOT NULL,
+    cost_basis_rule TEXT NOT NULL DEFAULT '{"kind":"manual"}',
+    export_settings TEXT NOT NULL DEFAULT '{"format":"ebay","descriptionFooter":""}',
+    created_at INTEGER NOT NULL
+  );
+  INSERT INTO collections (id, name, currency, created_at) VALUES (
+    'default',
+    'My Inventory',
+    COALESCE((SELECT json_extract(value, '$') FROM settings WHERE key = 'homeCurrency'), 'USD'),
+    COALESCE((SELECT MIN(created_at) FROM items), CAST(strftime('%s', 'now') AS INTEGER) * 1000)
+  );
+  ALTER TABLE items ADD COLUMN collection_id TEXT NOT NULL DEFAULT 'default';
+  CREATE INDEX idx_items_collection ON items (collection_id);`,
+
+  // The default collection follows the home currency; catch up with any change made since the last migration
+  `UPDATE collections
+  SET currency = COALESCE((SELECT json_extract(value, '$') FROM settings WHERE key = 'homeCurrency'), currency)
+  WHERE id = 'default';`,
+
+  // Earlier states of each item, as undo may put them back
+  `CREATE TABLE item_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    item_id TEXT NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    saved_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_item_versions_item ON item_versions (item_id, data);`
+];
+
+const migrate = (db: Database.Database) => {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(current).forEach((sql, offset) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${current + offset + 1}`);
+    })();
+  });
+};
+
+export const openDatabase = (filename = DB_PATH) => {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DescriptionLength, DescriptionOptions, DescriptionTone } from '../types';
+import { HttpError } from './errors';
+import {
+  DEFAULT_DESCRIPTION_OPTIONS,
+  DESCRIPTION_LENGTHS,
+  DESCRIPTION_TONES,
+  MAX_DESCRIPTION_KEYWORDS,
+  MAX_DESCRIPTION_VARIANTS
+} from '../lib/descriptions';
+
+/** Validates an untrusted request body into DescriptionOptions, filling in defaults. */
+export const parseDescriptionOptions = (body: unknown): DescriptionOptions => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be an options object");
+  const input = { ...DEFAULT_DESCRIPTION_OPTIONS, ...(body as Record<string, unknown>) };
+
+  if (!DESCRIPTION_TONES.includes(input.tone as DescriptionTone)) {
+    throw new HttpError(400, `"tone" must be one of ${DESCRIPTION_TONES.join(', ')}`);
+  }
+  if (!DESCRIPTION_LENGTHS.includes(input.length as DescriptionLength)) {
+    throw new HttpError(400, `"length" must be one of ${DESCRIPTION_LENGTHS.join(', ')}`);
+  }
+  if (typeof input.platform !== 'string') throw new HttpError(400, "\"platform\" must be a string");
+  if (!Array.isArray(input.keywords) || input.keywords.some(keyword => typeof keyword !== 'string')) {
+    throw new HttpError(400, "\"keywords\" must be an array of strings");
+  }
+  const keywords = [...new Set((input.keywords as string[]).map(keyword => keyword.trim()).filter(Boolean))];
+  if (keywords.length > MAX_DESCRIPTION_KEYWORDS) throw new HttpError(400, `At most ${MAX_DESCRIPTION_KEYWORDS} keywords are allowed`);
+  const variants = input.variants;
+  if (typeof variants !== 'number' || !Number.isInteger(variants) || variants < 1 || variants > MAX_DESCRIPTION_VARIANTS) {
+    throw new HttpError(400, `"variants" must be a whole number from 1 to ${MAX_DESCRIPTION_VARIANTS}`);
+  }
+
+  return {
+    tone: input.tone as DescriptionTone,
+    length: input.length as DescriptionLength,
+    platform: input.platform.trim(),
+    keywords,
+    variants
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ErrorRequestHandler } from 'express';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  // body-parser reports oversized or malformed JSON with a status of its own
+  if (typeof err?.status === 'number' && err.status < 500) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error("Server Error:", err);
+  res.status(500).json({ error: "Internal server error" });
+};
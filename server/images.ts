@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { IMAGES_DIR, IMAGES_ROUTE } from './config';
+import { HttpError } from './errors';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/avif': 'avif'
+};
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,(.+)$/s;
+
+export const mimeTypeForFile = (fileName: string) => {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const entry = Object.entries(EXTENSIONS).find(([, candidate]) => candidate === extension);
+  return entry ? entry[0] : null;
+};
+
+export const isDataUrl = (value: string) => value.startsWith('data:');
+
+export const parseDataUrl = (dataUrl: string) => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) throw new HttpError(400, "Image must be a base64 image data URL");
+  const [, mimeType, data] = match;
+  return { mimeType, data };
+};
+
+/** Writes a base64 data URL to the images directory and returns the stored file name. */
+export const saveDataUrl = (dataUrl: string): string => {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) throw new HttpError(415, `Unsupported image type: ${mimeType}`);
+
+  fs.mkdirSync(IMAGES_DIR, { recursive: true });
+  const fileName = `${crypto.randomUUID()}.${extension}`;
+  fs.writeFileSync(path.join(IMAGES_DIR, fileName), Buffer.from(data, 'base64'));
+  return fileName;
+};
+
+/** Loads a photo we already store, by its `/images/...` URL, in the same shape as `parseDataUrl`. */
+export const readStoredImage = (url: string) => {
+  const fileName = fileNameFromUrl(url);
+  const filePath = fileName && path.join(IMAGES_DIR, fileName);
+  const mimeType = fileName && mimeTypeForFile(fileName);
+  if (!filePath || !mimeType || !fs.existsSync(filePath)) throw new HttpError(400, `Image not found: ${url}`);
+  return { mimeType, data: fs.readFileSync(filePath).toString('base64') };
+};
+
+export const imageExists = (fileName: string) => fs.existsSync(path.join(IMAGES_DIR, path.basename(fileName)));
+
+export const removeImage = (fileName: string) => {
+  fs.rmSync(path.join(IMAGES_DIR, path.basename(fileName)), { force: true });
+};
+
+/** Every stored image file, with when it was written. */
+export const listImages = () => {
+  if (!fs.existsSync(IMAGES_DIR)) return [];
+  return fs.readdirSync(IMAGES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => ({ fileName: entry.name, modifiedAt: fs.statSync(path.join(IMAGES_DIR, entry.name)).mtimeMs }));
+};
+
+export const imageUrl = (fileName: string) => `${IMAGES_ROUTE}/${fileName}`;
+
+/** Maps a URL produced by `imageUrl` back to its file name, or null if it isn't one of ours. */
+export const fileNameFromUrl = (url: string) =>
+  url.startsWith(`${IMAGES_ROUTE}/`) ? path.basename(url) : null;
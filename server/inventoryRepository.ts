@@ -0,0 +1,449 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { ConditionGrade, InventoryItem, ItemChange, ItemPhoto, ItemStatus, TrashedItem } from '../types';
+import { diffTrackedFields } from '../lib/changeLog';
+import { withPriceRecorded } from '../lib/priceHistory';
+import { DEFAULT_COLLECTION_ID } from '../lib/collections';
+import { fileNameFromUrl, imageExists, imageUrl, isDataUrl, listImages, removeImage, saveDataUrl } from './images';
+
+interface ItemRow {
+  id: string;
+  item_name: string;
+  category: string;
+  estimated_value: number;
+  price_low: number | null;
+  price_high: number | null;
+  currency: string;
+  brand: string;
+  model: string;
+  identifiers: string; // JSON
+  condition_grade: ConditionGrade | null;
+  condition_notes: string;
+  suggested_description: string;
+  created_at: number;
+  status: ItemStatus;
+  status_dates: string; // JSON
+  cost_basis: number;
+  sale_price: number | null;
+  platform_fees: number;
+  shipping_cost: number;
+  quantity: number;
+  sku: string;
+  location: string;
+  price_history: string; // JSON
+  collection_id: string;
+}
+
+interface PhotoRow {
+  item_id: string;
+  position: number;
+  image_file: string;
+  thumbnail_file: string;
+}
+
+type StoredPhoto = Pick<PhotoRow, 'image_file' | 'thumbnail_file'>;
+
+type TrashedRow = ItemRow & { deleted_at: number };
+
+interface ChangeRow {
+  id: number;
+  item_id: string;
+  field: ItemChange['field'];
+  old_value: string; // JSON
+  new_value: string; // JSON
+  changed_at: number;
+}
+
+const COLUMNS: (keyof ItemRow)[] = [
+  'id',
+  'item_name',
+  'category',
+  'estimated_value',
+  'price_low',
+  'price_high',
+  'currency',
+  'brand',
+  'model',
+  'identifiers',
+  'condition_grade',
+  'condition_notes',
+  'suggested_description',
+  'created_at',
+  'status',
+  'status_dates',
+  'cost_basis',
+  'sale_price',
+  'platform_fees',
+  'shipping_cost',
+  'quantity',
+  'sku',
+  'location',
+  'price_history',
+  'collection_id'
+];
+
+const toItem = (row: ItemRow, photos: StoredPhoto[]): InventoryItem => ({
+  id: row.id,
+  item_name: row.item_name,
+  category: row.category,
+  estimated_value: row.estimated_value,
+  price_low: row.price_low,
+  price_high: row.price_high,
+  currency: row.currency,
+  brand: row.brand,
+  model: row.model,
+  identifiers: JSON.parse(row.identifiers),
+  condition_grade: row.condition_grade,
+  condition_notes: row.condition_notes,
+  suggested_description: row.suggested_description,
+  photos: photos.map(photo => ({ src: imageUrl(photo.image_file), thumbnail: imageUrl(photo.thumbnail_file) })),
+  createdAt: row.created_at,
+  status: row.status,
+  statusDates: JSON.parse(row.status_dates),
+  costBasis: row.cost_basis,
+  salePrice: row.sale_price,
+  platformFees: row.platform_fees,
+  shippingCost: row.shipping_cost,
+  quantity: row.quantity,
+  sku: row.sku,
+  location: row.location,
+  priceHistory: JSON.parse(row.price_history),
+  collectionId: row.collection_id
+});
+
+const toRow = (item: InventoryItem): ItemRow => ({
+  id: item.id,
+  item_name: item.item_name,
+  category: item.category,
+  estimated_value: item.estimated_value,
+  price_low: item.price_low,
+  price_high: item.price_high,
+  currency: item.currency,
+  brand: item.brand,
+  model: item.model,
+  identifiers: JSON.stringify(item.identifiers),
+  condition_grade: item.condition_grade,
+  condition_notes: item.condition_notes,
+  suggested_description: item.suggested_description,
+  created_at: item.createdAt,
+  status: item.status,
+  status_dates: JSON.stringify(item.statusDates),
+  cost_basis: item.costBasis,
+  sale_price: item.salePrice,
+  platform_fees: item.platformFees,
+  shipping_cost: item.shippingCost,
+  quantity: item.quantity,
+  sku: item.sku,
+  location: item.location,
+  price_history: JSON.stringify(item.priceHistory),
+  collection_id: item.collectionId
+});
+
+const formatSku = (sequence: number) => `RR-${String(sequence).padStart(5, '0')}`;
+
+const toChange = (row: ChangeRow): ItemChange => ({
+  id: row.id,
+  itemId: row.item_id,
+  field: row.field,
+  from: JSON.parse(row.old_value),
+  to: JSON.parse(row.new_value),
+  changedAt: row.changed_at
+});
+
+// Uploaded data URLs become files; URLs we already serve are kept as long as
+// the file is still there. Edits don't delete files, so undoing one finds its photos.
+const resolveImageFile = (image: string) => {
+  if (isDataUrl(image)) return saveDataUrl(image);
+  const fileName = fileNameFromUrl(image);
+  return fileName && imageExists(fileName) ? fileName : null;
+};
+
+const resolvePhotos = (photos: ItemPhoto[]) =>
+  photos.flatMap((photo): StoredPhoto[] => {
+    const image_file = resolveImageFile(photo.src);
+    if (!image_file) return [];
+    // Photos without a separate thumbnail point both at the same file
+    const thumbnail_file = photo.thumbnail === photo.src ? image_file : resolveImageFile(photo.thumbnail) ?? image_file;
+    return [{ image_file, thumbnail_file }];
+  });
+
+// JSON with object keys sorted, so that equal values always serialize alike
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, inner) => inner && typeof inner === 'object' && !Array.isArray(inner)
+    ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => (a < b ? -1 : 1)))
+    : inner);
+
+// Items compare by their fields and photo URLs, as the client got them from `toItem`
+const snapshotOf = ({ photos, ...fields }: InventoryItem) =>
+  canonicalJson({ ...fields, photos: photos.map(({ src, thumbnail }) => [src, thumbnail]) });
+
+// Enough for a long undo stack without the table growing with every edit
+const MAX_VERSIONS_PER_ITEM = 50;
+
+const filesOf = (photos: StoredPhoto[]) =>
+  [...new Set(photos.flatMap(photo => [photo.image_file, photo.thumbnail_file]))];
+
+export function createInventoryRepository(db: Database.Database) {
+  const selectAll = db.prepare<[], ItemRow>('SELECT * FROM items WHERE deleted_at IS NULL ORDER BY created_at DESC');
+  const selectOne = db.prepare<[string], ItemRow>('SELECT * FROM items WHERE id = ? AND deleted_at IS NULL');
+  const selectTrash = db.prepare<[], TrashedRow>('SELECT * FROM items WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC');
+  const selectAnyId = db.prepare<[string], { id: string }>('SELECT id FROM items WHERE id = ?');
+  const selectTrashedId = db.prepare<[string], { id: string }>('SELECT id FROM items WHERE id = ? AND deleted_at IS NOT NULL');
+  const insert = db.prepare<ItemRow>(`
+    INSERT INTO items (${COLUMNS.join(', ')})
+    VALUES (${COLUMNS.map(column => `@${column}`).join(', ')})
+  `);
+  // created_at is fixed at insert time
+  const update = db.prepare<ItemRow>(`
+    UPDATE items SET
+      ${COLUMNS.filter(column => column !== 'id' && column !== 'created_at').map(column => `${column} = @${column}`).join(',\n      ')}
+    WHERE id = @id
+  `);
+  const moveToTrash = db.prepare<[number, string]>('UPDATE items SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL');
+  const moveOutOfTrash = db.prepare<[string]>('UPDATE items SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL');
+  const removeTrashed = db.prepare<[string]>('DELETE FROM items WHERE id = ? AND deleted_at IS NOT NULL');
+  const removeAll = db.prepare('DELETE FROM items');
+
+  const selectSkuOwner = db.prepare<[string], { id: string; item_name: string }>('SELECT id, item_name FROM items WHERE sku = ? COLLATE NOCASE');
+  const nextSkuSequence = db.prepare<[], { value: number }>("UPDATE sequences SET value = value + 1 WHERE name = 'sku' RETURNING value");
+
+  const selectCollectionId = db.prepare<[string], { id: string }>('SELECT id FROM collections WHERE id = ?');
+
+  const insertCategory = db.prepare<[string, number]>('INSERT OR IGNORE INTO categories (name, created_at) VALUES (?, ?)');
+  const selectCategory = db.prepare<[string], { name: string }>('SELECT name FROM categories WHERE name = ?');
+
+  const selectChanges = db.prepare<[string], ChangeRow>('SELECT * FROM item_changes WHERE item_id = ? ORDER BY changed_at DESC, id DESC');
+  const insertChange = db.prepare<Omit<ChangeRow, 'id'>>(`
+    INSERT INTO item_changes (item_id, field, old_value, new_value, changed_at)
+    VALUES (@item_id, @field, @old_value, @new_value, @changed_at)
+  `);
+
+  const selectVersion = db.prepare<[string, string], { id: number }>('SELECT id FROM item_versions WHERE item_id = ? AND data = ?');
+  const selectLatestVersion = db.prepare<[string], { data: string }>('SELECT data FROM item_versions WHERE item_id = ? ORDER BY id DESC LIMIT 1');
+  const insertVersion = db.prepare<[string, string, number]>('INSERT INTO item_versions (item_id, data, saved_at) VALUES (?, ?, ?)');
+  const pruneVersions = db.prepare<[string, string, number]>(`
+    DELETE FROM item_versions
+    WHERE item_id = ? AND id NOT IN (SELECT id FROM item_versions WHERE item_id = ? ORDER BY id DESC LIMIT ?)
+  `);
+
+  const selectAllPhotos = db.prepare<[], PhotoRow>('SELECT * FROM item_photos ORDER BY item_id, position');
+  const selectPhotos = db.prepare<[string], PhotoRow>('SELECT * FROM item_photos WHERE item_id = ? ORDER BY position');
+  const insertPhoto = db.prepare<PhotoRow>(`
+    INSERT INTO item_photos (item_id, position, image_file, thumbnail_file)
+    VALUES (@item_id, @position, @image_file, @thumbnail_file)
+  `);
+  const removePhotos = db.prepare<[string]>('DELETE FROM item_photos WHERE item_id = ?');
+  const selectPhotoFiles = db.prepare<[], { file: string }>('SELECT image_file AS file FROM item_photos UNION SELECT thumbnail_file FROM item_photos');
+
+  const writePhotos = (id: string, photos: StoredPhoto[]) => {
+    removePhotos.run(id);
+    photos.forEach((photo, position) => insertPhoto.run({ item_id: id, position, ...photo }));
+  };
+
+  // Every category in use belongs to the taxonomy; items take its spelling, so "books" files under "Books"
+  const withKnownCategory = (item: InventoryItem): InventoryItem => {
+    const category = item.category.trim();
+    if (!category) return { ...item, category };
+    insertCategory.run(category, Date.now());
+    return { ...item, category: selectCategory.get(category)!.name };
+  };
+
+  /** The item holding a SKU (compared case-insensitively, trash included), if any. */
+  const findBySku = (sku: string) => selectSkuOwner.get(sku) ?? null;
+
+  // Items without a SKU get the next number in the sequence, as do imported
+  // items whose SKU another item already has; numbers are never handed out twice
+  const withSku = (item: InventoryItem): InventoryItem => {
+    const sku = item.sku.trim();
+    const owner = sku ? findBySku(sku) : null;
+    if (sku && (!owner || owner.id === item.id)) return { ...item, sku };
+    let next: string;
+    do next = formatSku(nextSkuSequence.get()!.value);
+    while (findBySku(next));
+    return { ...item, sku: next };
+  };
+
+  // Imported and restored items can name a collection that isn't here; they land in the default one
+  const withKnownCollection = (item: InventoryItem): InventoryItem =>
+    selectCollectionId.get(item.collectionId) ? item : { ...item, collectionId: DEFAULT_COLLECTION_ID };
+
+  const insertItem = (item: InventoryItem) => {
+    insert.run(toRow(withSku(withKnownCategory(withKnownCollection(item)))));
+    writePhotos(item.id, resolvePhotos(item.photos));
+  };
+
+  const photosByItem = () => {
+    const photos = new Map<string, StoredPhoto[]>();
+    for (const photo of selectAllPhotos.all()) {
+      photos.set(photo.item_id, [...(photos.get(photo.item_id) ?? []), photo]);
+    }
+    return photos;
+  };
+
+  const list = () => {
+    const photos = photosByItem();
+    return selectAll.all().map(row => toItem(row, photos.get(row.id) ?? []));
+  };
+
+  const listTrash = (): TrashedItem[] => {
+    const photos = photosByItem();
+    return selectTrash.all().map(row => ({ ...toItem(row, photos.get(row.id) ?? []), deletedAt: row.deleted_at }));
+  };
+
+  /** Whether the id is taken, counting items in the trash. */
+  const has = (id: string) => selectAnyId.get(id) !== undefined;
+
+  const get = (id: string) => {
+    const row = selectOne.get(id);
+    return row ? toItem(row, selectPhotos.all(id)) : null;
+  };
+
+  const create = (item: InventoryItem) => {
+    db.transaction(insertItem)(item);
+    return get(item.id)!;
+  };
+
+  // Deletes those of the given files that no item, in the trash or not, still uses;
+  // items can share a photo, and undo and restore bring old ones back
+  const removeUnusedImages = (files: string[]) => {
+    const used = new Set(selectPhotoFiles.all().map(row => row.file));
+    const unused = files.filter(file => !used.has(file));
+    unused.forEach(removeImage);
+    return unused.length;
+  };
+
+  /**
+   * Deletes image files no item uses that are older than `before`: photos an
+   * edit replaced or removed, and uploads whose save failed. The grace period
+   * leaves recent edits undoable. Returns how many files were deleted.
+   */
+  const removeOrphanedImages = (before: number) =>
+    removeUnusedImages(listImages().filter(image => image.modifiedAt < before).map(image => image.fileName));
+
+  // Keeps the item's current state so that undo can put it back later
+  const recordVersion = (id: string, now: number) => {
+    const data = snapshotOf(get(id)!);
+    if (selectLatestVersion.get(id)?.data === data) return;
+    insertVersion.run(id, data, now);
+    pruneVersions.run(id, id, MAX_VERSIONS_PER_ITEM);
+  };
+
+  /** Whether the item is exactly as it was at some earlier save, which undo and redo may restore. */
+  const isEarlierVersion = (item: InventoryItem) => selectVersion.get(item.id, snapshotOf(item)) !== undefined;
+
+  // Rewrites an existing item, logging price and description edits and adding
+  // any new price to its history. Photos it stops using stay on disk until
+  // `removeOrphanedImages`, so undoing the edit can bring them back.
+  const updateItem = (item: InventoryItem, now = Date.now()) => {
+    recordVersion(item.id, now);
+    const before = toItem(selectOne.get(item.id)!, []);
+    for (const { field, from, to } of diffTrackedFields(before, item)) {
+      insertChange.run({ item_id: item.id, field, old_value: JSON.stringify(from), new_value: JSON.stringify(to), changed_at: now });
+    }
+    const isRepriced = before.estimated_value !== item.estimated_value || before.currency !== item.currency;
+    const photos = resolvePhotos(item.photos);
+    update.run(toRow(withSku(withKnownCategory(isRepriced ? withPriceRecorded(item, 'revision', now) : item))));
+    writePhotos(item.id, photos);
+  };
+
+  const save = (item: InventoryItem) => {
+    if (!selectOne.get(item.id)) return null;
+    db.transaction(() => updateItem(item))();
+    return get(item.id);
+  };
+
+  /** Saves several existing items all-or-nothing. Returns null if any of them doesn't exist. */
+  const saveMany = (items: InventoryItem[]) => {
+    if (items.some(item => !selectOne.get(item.id))) return null;
+    db.transaction(() => items.forEach(item => updateItem(item)))();
+    return items.map(item => get(item.id)!);
+  };
+
+  /**
+   * Puts back earlier versions of existing items (see `isEarlierVersion`) all-or-nothing.
+   * Unlike `saveMany` it logs no changes and records no prices: the item's log and
+   * history go back to how they were too. Returns null if any of them doesn't exist.
+   */
+  const revertMany = (items: InventoryItem[], now = Date.now()) => {
+    if (items.some(item => !selectOne.get(item.id))) return null;
+    db.transaction(() => items.forEach(item => {
+      recordVersion(item.id, now);
+      update.run(toRow(withKnownCategory(item)));
+      writePhotos(item.id, resolvePhotos(item.photos));
+    }))();
+    return items.map(item => get(item.id)!);
+  };
+
+  const trash = (id: string) => trashMany([id]) > 0;
+
+  /** Moves the given items to the trash, ignoring unknown ids. Returns how many were moved. */
+  const trashMany = (ids: string[], now = Date.now()) =>
+    db.transaction(() => ids.reduce((count, id) => count + moveToTrash.run(now, id).changes, 0))();
+
+  /** Takes items back out of the trash and returns them. */
+  const restoreMany = (ids: string[]) => {
+    const restored = db.transaction(() => ids.filter(id => moveOutOfTrash.run(id).changes > 0))();
+    return restored.map(id => get(id)!);
+  };
+
+  /** Deletes trashed items for good, with their photos and change log. Returns how many were purged. */
+  const purgeMany = (ids: string[]) => {
+    const trashed = ids.filter(id => selectTrashedId.get(id) !== undefined);
+    const previousFiles = trashed.flatMap(id => filesOf(selectPhotos.all(id)));
+    const purged = db.transaction(() => trashed.reduce((count, id) => count + removeTrashed.run(id).changes, 0))(); // photos and changes cascade
+    removeUnusedImages(previousFiles);
+    return purged;
+  };
+
+  const history = (id: string) => selectChanges.all(id).map(toChange);
+
+  /** Deletes every item, the trash included, then inserts the given ones. Returns how many were added. */
+  const replaceAll = (items: InventoryItem[]) => {
+    const previousFiles = filesOf(selectAllPhotos.all());
+    const imported = db.transaction(() => {
+      removeAll.run();
+      items.forEach(insertItem);
+      return items.length;
+    })();
+    removeUnusedImages(previousFiles);
+    return imported;
+  };
+
+  /** Bulk-inserts items, skipping any id that already exists. Returns how many were added. */
+  const importItems = db.transaction((items: InventoryItem[]) => {
+    let imported = 0;
+    for (const item of items) {
+      if (has(item.id)) continue;
+      insertItem(item);
+      imported++;
+    }
+    return imported;
+  });
+
+  return {
+    list,
+    listTrash,
+    get,
+    has,
+    findBySku,
+    create,
+    save,
+    saveMany,
+    isEarlierVersion,
+    revertMany,
+    trash,
+    trashMany,
+    restoreMany,
+    purgeMany,
+    history,
+    importItems,
+    replaceAll,
+    removeOrphanedImages
+  };
+}
+
+export type InventoryRepository = ReturnType<typeof createInventoryRepository>;
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConditionGrade, IdentifierType, InventoryItem, ItemIdentifier, ItemPhoto, ItemStatus, PriceEntry, PriceEntryKind } from '../types';
+import { HttpError } from './errors';
+import { generateId } from '../lib/id';
+import { CONDITION_GRADES, IDENTIFIER_TYPES } from '../lib/analysis';
+import { ITEM_STATUSES } from '../lib/lifecycle';
+import { MAX_PHOTOS_PER_ITEM } from '../lib/photos';
+import { isCurrencyCode } from '../lib/currency';
+import { PRICE_ENTRY_LABELS } from '../lib/priceHistory';
+import { DEFAULT_COLLECTION_ID } from '../lib/collections';
+import { MAX_CATEGORY_LENGTH, MAX_LOCATION_LENGTH, MAX_SKU_LENGTH } from '../lib/itemForm';
+
+const requireString = (body: Record<string, unknown>, field: string, fallback?: string) => {
+  const value = body[field] ?? fallback;
+  if (typeof value !== 'string') throw new HttpError(400, `"${field}" must be a string`);
+  return value;
+};
+
+const requireNumber = (body: Record<string, unknown>, field: string, fallback?: number) => {
+  const value = body[field] ?? fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new HttpError(400, `"${field}" must be a number`);
+  return value;
+};
+
+// Prices and costs are never negative
+const requireAmount = (body: Record<string, unknown>, field: string, fallback?: number) => {
+  const value = requireNumber(body, field, fallback);
+  if (value < 0) throw new HttpError(400, `"${field}" must be zero or more`);
+  return value;
+};
+
+const optionalAmount = (body: Record<string, unknown>, field: string) => {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  return requireAmount(body, field);
+};
+
+// Empty for uncategorized items
+const parseCategory = (body: Record<string, unknown>) => {
+  const category = requireString(body, 'category', '').trim();
+  if (category.length > MAX_CATEGORY_LENGTH) throw new HttpError(400, `"category" must be at most ${MAX_CATEGORY_LENGTH} characters`);
+  return category;
+};
+
+const limitedString = (body: Record<string, unknown>, field: string, maxLength: number) => {
+  const value = requireString(body, field, '').trim();
+  if (value.length > maxLength) throw new HttpError(400, `"${field}" must be at most ${maxLength} characters`);
+  return value;
+};
+
+const parseQuantity = (body: Record<string, unknown>) => {
+  const quantity = requireNumber(body, 'quantity', 1);
+  if (!Number.isInteger(quantity) || quantity < 1) throw new HttpError(400, "\"quantity\" must be a whole number of at least 1");
+  return quantity;
+};
+
+const parseCurrency = (body: Record<string, unknown>) => {
+  const currency = requireString(body, 'currency', 'USD').trim().toUpperCase();
+  if (!isCurrencyCode(currency)) throw new HttpError(400, "\"currency\" must be a three-letter currency code");
+  return currency;
+};
+
+const parseStatus = (body: Record<string, unknown>): ItemStatus => {
+  const value = body.status ?? 'draft';
+  if (!ITEM_STATUSES.includes(value as ItemStatus)) {
+    throw new HttpError(400, `"status" must be one of ${ITEM_STATUSES.join(', ')}`);
+  }
+  return value as ItemStatus;
+};
+
+const parseStatusDates = (body: Record<string, unknown>, status: ItemStatus, createdAt: number) => {
+  const value = body.statusDates ?? { [status]: createdAt };
+  if (typeof value !== 'object' || Array.isArray(value)) throw new HttpError(400, "\"statusDates\" must be an object");
+  const dates: InventoryItem['statusDates'] = {};
+  for (const [key, at] of Object.entries(value as Record<string, unknown>)) {
+    if (!ITEM_STATUSES.includes(key as ItemStatus) || typeof at !== 'number') {
+      throw new HttpError(400, "\"statusDates\" must map statuses to timestamps");
+    }
+    dates[key as ItemStatus] = at;
+  }
+  return dates;
+};
+
+const parseConditionGrade = (body: Record<string, unknown>) => {
+  const value = body.condition_grade ?? null;
+  if (value !== null && !CONDITION_GRADES.includes(value as ConditionGrade)) {
+    throw new HttpError(400, `"condition_grade" must be one of ${CONDITION_GRADES.join(', ')}`);
+  }
+  return value as ConditionGrade | null;
+};
+
+const parseIdentifiers = (body: Record<string, unknown>): ItemIdentifier[] => {
+  const value = body.identifiers ?? [];
+  const isIdentifier = (entry: unknown) => {
+    const candidate = entry as Record<string, unknown> | null;
+    return !!candidate && IDENTIFIER_TYPES.includes(candidate.type as IdentifierType) &&
+      typeof candidate.value === 'string' && candidate.value.trim() !== '';
+  };
+  if (!Array.isArray(value) || !value.every(isIdentifier)) {
+    throw new HttpError(400, `"identifiers" must be an array of { type, value } with type one of ${IDENTIFIER_TYPES.join(', ')}`);
+  }
+  return value.map(({ type, value }) => ({ type, value: value.trim() }));
+};
+
+const PRICE_ENTRY_KINDS = Object.keys(PRICE_ENTRY_LABELS) as PriceEntryKind[];
+const MAX_PRICE_ENTRIES = 500;
+
+// Comp links are shown as links, so only web addresses are allowed
+const isWebUrl = (value: string) => value === '' || /^https?:\/\//i.test(value);
+
+const parsePriceEntry = (value: unknown): PriceEntry => {
+  const entry = value as Record<string, unknown> | null;
+  if (!entry || typeof entry !== 'object') throw new HttpError(400, "\"priceHistory\" entries must be objects");
+  const kind = entry.kind as PriceEntryKind;
+  if (!PRICE_ENTRY_KINDS.includes(kind)) throw new HttpError(400, `Price entry "kind" must be one of ${PRICE_ENTRY_KINDS.join(', ')}`);
+  const amount = requireNumber(entry, 'amount');
+  if (amount < 0) throw new HttpError(400, "Price entry \"amount\" can't be negative");
+  const currency = requireString(entry, 'currency');
+  if (!isCurrencyCode(currency)) throw new HttpError(400, "Price entry \"currency\" must be a three-letter currency code");
+  const url = requireString(entry, 'url', '').trim();
+  if (!isWebUrl(url)) throw new HttpError(400, "Price entry \"url\" must start with http:// or https://");
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : generateId(),
+    kind,
+    amount,
+    currency,
+    date: requireNumber(entry, 'date'),
+    source: requireString(entry, 'source', '').trim(),
+    url,
+    notes: requireString(entry, 'notes', '')
+  };
+};
+
+const parsePriceHistory = (body: Record<string, unknown>) => {
+  const value = body.priceHistory ?? [];
+  if (!Array.isArray(value)) throw new HttpError(400, "\"priceHistory\" must be an array");
+  if (value.length > MAX_PRICE_ENTRIES) throw new HttpError(400, `An item can have at most ${MAX_PRICE_ENTRIES} price entries`);
+  return value.map(parsePriceEntry);
+};
+
+const isImageRef = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+// A bare image URL is accepted as a photo that doubles as its own thumbnail
+const parsePhoto = (value: unknown): ItemPhoto => {
+  if (isImageRef(value)) return { src: value, thumbnail: value };
+  const photo = value as Record<string, unknown> | null;
+  if (photo && isImageRef(photo.src)) {
+    return { src: photo.src, thumbnail: isImageRef(photo.thumbnail) ? photo.thumbnail : photo.src };
+  }
+  throw new HttpError(400, "\"photos\" must be an array of { src, thumbnail } image URLs");
+};
+
+const parsePhotos = (body: Record<string, unknown>) => {
+  // Items saved before multi-photo support carry a single `thumbnail` instead
+  const legacy = typeof body.thumbnail === 'string' && body.thumbnail ? [body.thumbnail] : [];
+  const value = body.photos ?? legacy;
+  if (!Array.isArray(value)) throw new HttpError(400, "\"photos\" must be an array");
+  if (value.length > MAX_PHOTOS_PER_ITEM) throw new HttpError(400, `An item can have at most ${MAX_PHOTOS_PER_ITEM} photos`);
+  return value.map(parsePhoto);
+};
+
+/** Validates an untrusted request body into an InventoryItem. */
+export const parseItem = (body: unknown, id?: string): InventoryItem => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be an item object");
+  const input = body as Record<string, unknown>;
+  const item_name = requireString(input, 'item_name').trim();
+  if (!item_name) throw new HttpError(400, "\"item_name\" is required");
+
+  const createdAt = requireNumber(input, 'createdAt', Date.now());
+  const status = parseStatus(input);
+
+  return {
+    id: id ?? (typeof input.id === 'string' && input.id ? input.id : generateId()),
+    item_name,
+    category: parseCategory(input),
+    estimated_value: requireAmount(input, 'estimated_value', 0),
+    price_low: optionalAmount(input, 'price_low'),
+    price_high: optionalAmount(input, 'price_high'),
+    currency: parseCurrency(input),
+    brand: requireString(input, 'brand', ''),
+    model: requireString(input, 'model', ''),
+    identifiers: parseIdentifiers(input),
+    condition_grade: parseConditionGrade(input),
+    condition_notes: requireString(input, 'condition_notes', ''),
+    suggested_description: requireString(input, 'suggested_description', ''),
+    photos: parsePhotos(input),
+    createdAt,
+    status,
+    statusDates: parseStatusDates(input, status, createdAt),
+    costBasis: requireAmount(input, 'costBasis', 0),
+    salePrice: optionalAmount(input, 'salePrice'),
+    platformFees: requireAmount(input, 'platformFees', 0),
+    shippingCost: requireAmount(input, 'shippingCost', 0),
+    quantity: parseQuantity(input),
+    sku: limitedString(input, 'sku', MAX_SKU_LENGTH), // empty asks the repository to assign one
+    location: limitedString(input, 'location', MAX_LOCATION_LENGTH),
+    priceHistory: parsePriceHistory(input),
+    collectionId: requireString(input, 'collectionId', DEFAULT_COLLECTION_ID)
+  };
+};
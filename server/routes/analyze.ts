@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { HttpError } from '../errors';
+import { isDataUrl, parseDataUrl, readStoredImage } from '../images';
+import { MAX_PHOTOS_PER_ITEM } from '../../lib/photos';
+import { isCurrencyCode } from '../../lib/currency';
+import { SettingsRepository } from '../settingsRepository';
+import { VisionProvider, validateAIResponse } from '../vision';
+
+export function createAnalyzeRouter(provider: VisionProvider, settings: SettingsRepository) {
+  const router = Router();
+
+  router.post('/', async (req, res, next) => {
+    try {
+      const images = req.body?.images;
+      if (!Array.isArray(images) || images.length === 0 || images.some(image => typeof image !== 'string')) {
+        throw new HttpError(400, "\"images\" must be a non-empty array of base64 image data URLs or stored image URLs");
+      }
+      if (images.length > MAX_PHOTOS_PER_ITEM) throw new HttpError(400, `At most ${MAX_PHOTOS_PER_ITEM} photos can be analyzed together`);
+      // Saved items are re-analyzed from the photos already on disk
+      const visionImages = images.map(image => isDataUrl(image) ? parseDataUrl(image) : readStoredImage(image));
+
+      const { homeCurrency, targetMarket } = settings.get();
+      // A collection can price in its own currency rather than the home one
+      const currency = req.body.currency ?? homeCurrency;
+      if (typeof currency !== 'string' || !isCurrencyCode(currency)) throw new HttpError(400, "\"currency\" must be a three-letter currency code");
+
+      let raw: unknown;
+      try {
+        raw = await provider.analyze(visionImages, { currency, market: targetMarket });
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        console.error(`Vision provider ${provider.name} failed:`, error);
+        throw new HttpError(502, "The vision provider could not analyze these photos");
+      }
+
+      try {
+        res.json(validateAIResponse(raw));
+      } catch (error) {
+        console.error(`Vision provider ${provider.name} returned an invalid analysis:`, error);
+        throw new HttpError(502, error instanceof Error ? error.message : "Invalid analysis");
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
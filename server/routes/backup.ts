@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Router } from 'express';
+import { HttpError } from '../errors';
+import { InventoryRepository } from '../inventoryRepository';
+import { CollectionRepository } from '../collectionRepository';
+import { backupFileName, createBackup, readBackup } from '../backup';
+
+export function createBackupRouter(repository: InventoryRepository, collections: CollectionRepository) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    const archive = createBackup(repository.list(), collections.list().map(({ itemCount, ...collection }) => collection));
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${backupFileName()}"`);
+    res.send(Buffer.from(archive));
+  });
+
+  // Body is the raw archive (or legacy JSON) file. ?mode=replace wipes the inventory first.
+  router.post('/restore', express.raw({ type: () => true, limit: '1gb' }), (req, res) => {
+    const mode = req.query.mode ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') throw new HttpError(400, "\"mode\" must be merge or replace");
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) throw new HttpError(400, "Backup file is empty");
+
+    const backup = readBackup(req.body);
+    // Collections go in first so the items land in them; ones already here are kept as they are
+    collections.importMissing(backup.collections);
+    const { items } = backup;
+    const restored = mode === 'replace' ? repository.replaceAll(items) : repository.importItems(items);
+    res.json({ restored, skipped: items.length - restored });
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { HttpError } from '../errors';
+import { CategoryRepository } from '../categoryRepository';
+import { parseCategoryMerge, parseCategoryName } from '../categoryValidation';
+
+export function createCategoriesRouter(repository: CategoryRepository) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(repository.list());
+  });
+
+  router.post('/', (req, res) => {
+    const category = repository.create(parseCategoryName(req.body?.name));
+    if (!category) throw new HttpError(409, "That category already exists");
+    res.status(201).json(category);
+  });
+
+  router.post('/merge', (req, res) => {
+    const { from, into } = parseCategoryMerge(req.body);
+    const missing = from.find(name => !repository.get(name));
+    if (missing) throw new HttpError(404, `Category "${missing}" not found`);
+    res.json(repository.merge(from, into));
+  });
+
+  // Renaming onto another existing category merges the two
+  router.put('/:name', (req, res) => {
+    if (!repository.get(req.params.name)) throw new HttpError(404, "Category not found");
+    res.json(repository.rename(req.params.name, parseCategoryName(req.body?.name)));
+  });
+
+  router.delete('/:name', (req, res) => {
+    const category = repository.get(req.params.name);
+    if (!category) throw new HttpError(404, "Category not found");
+    if (category.itemCount > 0) throw new HttpError(409, `"${category.name}" is still used by ${category.itemCount} item(s); merge it into another category instead`);
+    repository.destroy(category.name);
+    res.status(204).end();
+  });
+
+  return router;
+}
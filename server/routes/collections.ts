@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { HttpError } from '../errors';
+import { CollectionRepository } from '../collectionRepository';
+import { CollectionFields, parseCollection } from '../collectionValidation';
+import { DEFAULT_COLLECTION_ID } from '../../lib/collections';
+
+const assertNameAvailable = (repository: CollectionRepository, collection: CollectionFields) => {
+  if (repository.isNameTaken(collection.name, collection.id)) throw new HttpError(409, `There is already a collection called "${collection.name}"`);
+};
+
+export function createCollectionsRouter(repository: CollectionRepository) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(repository.list());
+  });
+
+  router.post('/', (req, res) => {
+    const collection = parseCollection(req.body);
+    if (repository.get(collection.id)) throw new HttpError(409, "A collection with this id already exists");
+    assertNameAvailable(repository, collection);
+    res.status(201).json(repository.create(collection));
+  });
+
+  router.put('/:id', (req, res) => {
+    const existing = repository.get(req.params.id);
+    if (!existing) throw new HttpError(404, "Collection not found");
+    const collection = parseCollection(req.body, req.params.id);
+    if (collection.id === DEFAULT_COLLECTION_ID && collection.currency !== existing.currency) {
+      throw new HttpError(400, `"${existing.name}" uses the home currency; change it in Settings`);
+    }
+    assertNameAvailable(repository, collection);
+    res.json(repository.save(collection));
+  });
+
+  router.delete('/:id', (req, res) => {
+    const collection = repository.get(req.params.id);
+    if (!collection) throw new HttpError(404, "Collection not found");
+    if (collection.id === DEFAULT_COLLECTION_ID) throw new HttpError(409, `"${collection.name}" is the default collection and can't be deleted`);
+    if (collection.itemCount > 0) throw new HttpError(409, `"${collection.name}" still has ${collection.itemCount} item(s); move them to another collection first`);
+    repository.destroy(collection.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { HttpError } from '../errors';
+import { readStoredImage } from '../images';
+import { InventoryRepository } from '../inventoryRepository';
+import { parseDescriptionOptions } from '../descriptionValidation';
+import { VisionProvider, validateDescriptions } from '../vision';
+
+export function createDescribeRouter(provider: VisionProvider, inventory: InventoryRepository) {
+  const router = Router();
+
+  // Rewrites a saved item's description from its stored facts and photos, without re-identifying it
+  router.post('/:itemId', async (req, res, next) => {
+    try {
+      const item = inventory.get(req.params.itemId);
+      if (!item) throw new HttpError(404, "Item not found");
+      const options = parseDescriptionOptions(req.body);
+      const images = item.photos.map(photo => readStoredImage(photo.src));
+
+      let raw: unknown;
+      try {
+        raw = await provider.describe(images, item, options);
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        console.error(`Vision provider ${provider.name} failed to write descriptions:`, error);
+        throw new HttpError(502, "The vision provider could not write descriptions for this item");
+      }
+
+      try {
+        res.json({ variants: validateDescriptions(raw, options.variants) });
+      } catch (error) {
+        console.error(`Vision provider ${provider.name} returned invalid descriptions:`, error);
+        throw new HttpError(502, error instanceof Error ? error.message : "Invalid descriptions");
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { InventoryItem } from '../../types';
+import { openDatabase } from '../db';
+import { errorHandler } from '../errors';
+import { createInventoryRepository } from '../inventoryRepository';
+import { createCollectionRepository } from '../collectionRepository';
+import { createInventoryRouter } from './inventory';
+import { createDraftItem } from '../../lib/items';
+import { withStatus } from '../../lib/lifecycle';
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const db = openDatabase(':memory:');
+  const app = express();
+  app.use(express.json());
+  app.use('/api/inventory', createInventoryRouter(createInventoryRepository(db), createCollectionRepository(db)));
+  app.use('/api', errorHandler);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/inventory`;
+});
+
+after(() => {
+  server.close();
+});
+
+const send = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+test('undoing a donation puts the item back on sale', async () => {
+  const created = await send('POST', '', withStatus(createDraftItem({ item_name: 'Desk lamp' }), 'listed'));
+  assert.equal(created.status, 201);
+  const listed: InventoryItem = created.body;
+
+  const donated = await send('PUT', '', [withStatus(listed, 'donated')]);
+  assert.equal(donated.status, 200);
+  assert.equal(donated.body[0].status, 'donated');
+
+  // An ordinary edit may not walk the lifecycle backwards...
+  const rejected = await send('PUT', '', [listed]);
+  assert.equal(rejected.status, 409);
+
+  // ...but undo may
+  const undone = await send('PUT', '/revert', [listed]);
+  assert.equal(undone.status, 200);
+  assert.equal(undone.body[0].status, 'listed');
+  assert.deepEqual(undone.body[0].statusDates, listed.statusDates);
+});
+
+test('undo still refuses items that are gone', async () => {
+  const reverted = await send('PUT', '/revert', [createDraftItem({ item_name: 'Never saved' })]);
+  assert.equal(reverted.status, 404);
+});
+
+test('a bulk save giving two items the same SKU is a conflict, not a server error', async () => {
+  const first: InventoryItem = (await send('POST', '', createDraftItem({ item_name: 'Teapot' }))).body;
+  const second: InventoryItem = (await send('POST', '', createDraftItem({ item_name: 'Teacup' }))).body;
+
+  const saved = await send('PUT', '', [{ ...first, sku: 'TEA-1' }, { ...second, sku: 'tea-1' }]);
+  assert.equal(saved.status, 409);
+  assert.match(saved.body.error, /SKU tea-1/);
+});
+
+test('negative prices and costs are refused', async () => {
+  const negativeValue = await send('POST', '', createDraftItem({ item_name: 'Vase', estimated_value: -5 }));
+  assert.equal(negativeValue.status, 400);
+  assert.match(negativeValue.body.error, /estimated_value/);
+
+  const negativeFees = await send('POST', '', createDraftItem({ item_name: 'Vase', platformFees: -1 }));
+  assert.equal(negativeFees.status, 400);
+});
+
+test('undoing a price edit puts the old price back without logging it as a new edit', async () => {
+  const original: InventoryItem = (await send('POST', '', createDraftItem({ item_name: 'Clock', estimated_value: 40 }))).body;
+  const [repriced]: InventoryItem[] = (await send('PUT', '', [{ ...original, estimated_value: 55 }])).body;
+  assert.equal(repriced.priceHistory.length, 1);
+
+  const undone = await send('PUT', '/revert', [original]);
+  assert.equal(undone.status, 200);
+  assert.equal(undone.body[0].estimated_value, 40);
+  assert.deepEqual(undone.body[0].priceHistory, original.priceHistory);
+  assert.equal((await send('GET', `/${original.id}/history`)).body.length, 1);
+
+  const redone = await send('PUT', '/revert', [repriced]);
+  assert.equal(redone.status, 200);
+  assert.deepEqual(redone.body[0].priceHistory, repriced.priceHistory);
+});
+
+test('undo refuses a state the item was never saved in', async () => {
+  const created = await send('POST', '', withStatus(createDraftItem({ item_name: 'Radio' }), 'listed'));
+  const listed: InventoryItem = created.body;
+  await send('PUT', '', [withStatus(listed, 'sold')]);
+
+  const forged = await send('PUT', '/revert', [{ ...listed, estimated_value: 999 }]);
+  assert.equal(forged.status, 409);
+});
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { InventoryItem } from '../../types';
+import { HttpError } from '../errors';
+import { InventoryRepository } from '../inventoryRepository';
+import { CollectionRepository } from '../collectionRepository';
+import { parseItem } from '../itemValidation';
+import { canTransition } from '../../lib/lifecycle';
+
+const parseIds = (body: unknown): string[] => {
+  const ids = (body as { ids?: unknown } | null)?.ids;
+  if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) throw new HttpError(400, "\"ids\" must be an array of item ids");
+  return ids;
+};
+
+// SKUs are printed on labels, so no two items may share one
+const assertSkuAvailable = (repository: InventoryRepository, item: InventoryItem) => {
+  const owner = item.sku ? repository.findBySku(item.sku) : null;
+  if (owner && owner.id !== item.id) throw new HttpError(409, `SKU ${item.sku} is already used by "${owner.item_name}"`);
+};
+
+// Within one bulk save too; the database would refuse the second copy, but only with a 500
+const assertSkusDistinct = (items: InventoryItem[]) => {
+  const seen = new Map<string, InventoryItem>();
+  for (const item of items) {
+    if (!item.sku) continue;
+    const other = seen.get(item.sku.toLowerCase());
+    if (other) throw new HttpError(409, `"${other.item_name}" and "${item.item_name}" can't both have SKU ${item.sku}`);
+    seen.set(item.sku.toLowerCase(), item);
+  }
+};
+
+export function createInventoryRouter(repository: InventoryRepository, collections: CollectionRepository) {
+  const router = Router();
+
+  // Imports fall back to the default collection, but an edit naming an unknown one is a mistake
+  const assertCollectionExists = (item: InventoryItem) => {
+    if (!collections.get(item.collectionId)) throw new HttpError(400, `Collection ${item.collectionId} not found`);
+  };
+
+  router.get('/', (_req, res) => {
+    res.json(repository.list());
+  });
+
+  router.get('/trash', (_req, res) => {
+    res.json(repository.listTrash());
+  });
+
+  router.post('/trash/restore', (req, res) => {
+    res.json(repository.restoreMany(parseIds(req.body)));
+  });
+
+  // The only way anything is deleted for good
+  router.post('/trash/purge', (req, res) => {
+    res.json({ purged: repository.purgeMany(parseIds(req.body)) });
+  });
+
+  router.get('/:id', (req, res) => {
+    const item = repository.get(req.params.id);
+    if (!item) throw new HttpError(404, "Item not found");
+    res.json(item);
+  });
+
+  router.post('/', (req, res) => {
+    const item = parseItem(req.body);
+    if (repository.has(item.id)) throw new HttpError(409, "An item with this id already exists");
+    assertSkuAvailable(repository, item);
+    assertCollectionExists(item);
+    res.status(201).json(repository.create(item));
+  });
+
+  // One-shot bulk import, used to migrate inventory out of browser storage
+  router.post('/import', (req, res) => {
+    if (!Array.isArray(req.body)) throw new HttpError(400, "Request body must be an array of items");
+    const items = req.body.map(body => parseItem(body));
+    res.json({ imported: repository.importItems(items) });
+  });
+
+  const parseBatch = (body: unknown) => {
+    if (!Array.isArray(body)) throw new HttpError(400, "Request body must be an array of items");
+    const items = body.map(item => {
+      if (typeof item?.id !== 'string') throw new HttpError(400, "Every item needs an \"id\"");
+      return parseItem(item, item.id);
+    });
+    assertSkusDistinct(items);
+    return items;
+  };
+
+  // Bulk edit: every item must exist and every status change must be allowed, or nothing is saved
+  router.put('/', (req, res) => {
+    const items = parseBatch(req.body);
+    for (const item of items) {
+      const existing = repository.get(item.id);
+      if (!existing) throw new HttpError(404, `Item ${item.id} not found`);
+      if (!canTransition(existing.status, item.status)) {
+        throw new HttpError(409, `Can't move "${existing.item_name}" from ${existing.status} to ${item.status}`);
+      }
+      assertSkuAvailable(repository, item);
+      assertCollectionExists(item);
+    }
+    res.json(repository.saveMany(items));
+  });
+
+  // Undo and redo put back an earlier copy of each item, which may walk a status
+  // backwards (donated → listed). The lifecycle check is skipped only for copies
+  // the server itself saved before; anything else is an edit and goes through PUT /
+  router.put('/revert', (req, res) => {
+    const items = parseBatch(req.body);
+    for (const item of items) {
+      const existing = repository.get(item.id);
+      if (!existing) throw new HttpError(404, `Item ${item.id} not found`);
+      if (!repository.isEarlierVersion(item)) {
+        throw new HttpError(409, `"${existing.item_name}" was never saved like this, so it can't be reverted to it`);
+      }
+      assertSkuAvailable(repository, item);
+      assertCollectionExists(item);
+    }
+    res.json(repository.revertMany(items));
+  });
+
+  // Deleting moves items to the trash
+  router.post('/bulk-delete', (req, res) => {
+    res.json({ deleted: repository.trashMany(parseIds(req.body)) });
+  });
+
+  router.get('/:id/history', (req, res) => {
+    if (!repository.has(req.params.id)) throw new HttpError(404, "Item not found");
+    res.json(repository.history(req.params.id));
+  });
+
+  router.put('/:id', (req, res) => {
+    const existing = repository.get(req.params.id);
+    if (!existing) throw new HttpError(404, "Item not found");
+    const item = parseItem(req.body, req.params.id);
+    if (!canTransition(existing.status, item.status)) {
+      throw new HttpError(409, `Can't move an item from ${existing.status} to ${item.status}`);
+    }
+    assertSkuAvailable(repository, item);
+    assertCollectionExists(item);
+    res.json(repository.save(item));
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!repository.trash(req.params.id)) throw new HttpError(404, "Item not found");
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { SettingsRepository } from '../settingsRepository';
+import { CollectionRepository } from '../collectionRepository';
+import { parseSettings } from '../settingsValidation';
+import { DEFAULT_COLLECTION_ID } from '../../lib/collections';
+
+export function createSettingsRouter(repository: SettingsRepository, collections: CollectionRepository) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(repository.get());
+  });
+
+  // The default collection is priced in the home currency, so it follows any change
+  router.put('/', (req, res) => {
+    const saved = repository.save(parseSettings(req.body));
+    collections.setCurrency(DEFAULT_COLLECTION_ID, saved.homeCurrency);
+    res.json(saved);
+  });
+
+  return router;
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { HttpError } from '../errors';
+import { SavedViewRepository } from '../savedViewRepository';
+import { parseSavedView } from '../savedViewValidation';
+
+export function createViewsRouter(repository: SavedViewRepository) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(repository.list());
+  });
+
+  router.post('/', (req, res) => {
+    const view = parseSavedView(req.body);
+    if (repository.get(view.id)) throw new HttpError(409, "A view with this id already exists");
+    res.status(201).json(repository.create(view));
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!repository.destroy(req.params.id)) throw new HttpError(404, "View not found");
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { SavedView } from '../types';
+
+interface SavedViewRow {
+  id: string;
+  name: string;
+  query: string; // JSON
+  created_at: number;
+}
+
+const toView = (row: SavedViewRow): SavedView => ({
+  id: row.id,
+  name: row.name,
+  query: JSON.parse(row.query),
+  createdAt: row.created_at
+});
+
+export function createSavedViewRepository(db: Database.Database) {
+  const selectAll = db.prepare<[], SavedViewRow>('SELECT * FROM saved_views ORDER BY created_at');
+  const selectOne = db.prepare<[string], SavedViewRow>('SELECT * FROM saved_views WHERE id = ?');
+  const insert = db.prepare<SavedViewRow>('INSERT INTO saved_views (id, name, query, created_at) VALUES (@id, @name, @query, @created_at)');
+  const remove = db.prepare<[string]>('DELETE FROM saved_views WHERE id = ?');
+
+  const list = () => selectAll.all().map(toView);
+
+  const get = (id: string) => {
+    const row = selectOne.get(id);
+    return row ? toView(row) : null;
+  };
+
+  const create = (view: SavedView) => {
+    insert.run({ id: view.id, name: view.name, query: JSON.stringify(view.query), created_at: view.createdAt });
+    return get(view.id)!;
+  };
+
+  const destroy = (id: string) => remove.run(id).changes > 0;
+
+  return { list, get, create, destroy };
+}
+
+export type SavedViewRepository = ReturnType<typeof createSavedViewRepository>;
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryQuery, ItemStatus, SavedView, SortKey } from '../types';
+import { HttpError } from './errors';
+import { generateId } from '../lib/id';
+import { ITEM_STATUSES } from '../lib/lifecycle';
+import { DEFAULT_QUERY } from '../lib/search';
+
+const SORT_KEYS: SortKey[] = ['item_name', 'category', 'status', 'value', 'createdAt'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalAmount = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new HttpError(400, `"query.${field}" must be a number`);
+  return value;
+};
+
+const optionalDate = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) throw new HttpError(400, `"query.${field}" must be a YYYY-MM-DD date`);
+  return value;
+};
+
+const parseSort = (value: unknown): InventoryQuery['sort'] => {
+  if (value === undefined || value === null) return null;
+  const sort = value as Record<string, unknown>;
+  if (!SORT_KEYS.includes(sort.key as SortKey) || (sort.direction !== 'asc' && sort.direction !== 'desc')) {
+    throw new HttpError(400, `"query.sort" must have a key (${SORT_KEYS.join(', ')}) and a direction (asc or desc)`);
+  }
+  return { key: sort.key as SortKey, direction: sort.direction };
+};
+
+const parseQuery = (value: unknown): InventoryQuery => {
+  if (!value || typeof value !== 'object') throw new HttpError(400, "\"query\" must be an object");
+  const input = { ...DEFAULT_QUERY, ...(value as Record<string, unknown>) };
+  if (typeof input.search !== 'string' || typeof input.category !== 'string') {
+    throw new HttpError(400, "\"query.search\" and \"query.category\" must be strings");
+  }
+  if (input.status !== 'all' && !ITEM_STATUSES.includes(input.status as ItemStatus)) {
+    throw new HttpError(400, `"query.status" must be "all" or one of ${ITEM_STATUSES.join(', ')}`);
+  }
+  return {
+    search: input.search,
+    status: input.status,
+    category: input.category,
+    minValue: optionalAmount(input.minValue, 'minValue'),
+    maxValue: optionalAmount(input.maxValue, 'maxValue'),
+    addedAfter: optionalDate(input.addedAfter, 'addedAfter'),
+    addedBefore: optionalDate(input.addedBefore, 'addedBefore'),
+    sort: parseSort(input.sort)
+  };
+};
+
+/** Validates an untrusted request body into a SavedView. */
+export const parseSavedView = (body: unknown): SavedView => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be a saved view object");
+  const input = body as Record<string, unknown>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new HttpError(400, "\"name\" is required");
+
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : generateId(),
+    name,
+    query: parseQuery(input.query),
+    createdAt: typeof input.createdAt === 'number' ? input.createdAt : Date.now()
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { Settings } from '../types';
+import { DEFAULT_SETTINGS } from '../lib/currency';
+
+interface SettingRow {
+  key: string;
+  value: string; // JSON
+}
+
+export function createSettingsRepository(db: Database.Database) {
+  const selectAll = db.prepare<[], SettingRow>('SELECT * FROM settings');
+  const upsert = db.prepare<SettingRow>(`
+    INSERT INTO settings (key, value) VALUES (@key, @value)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value
+  `);
+
+  const get = (): Settings => {
+    const stored = Object.fromEntries(selectAll.all().map(row => [row.key, JSON.parse(row.value)]));
+    return { ...DEFAULT_SETTINGS, ...stored };
+  };
+
+  const save = (settings: Settings) => {
+    db.transaction(() => {
+      for (const [key, value] of Object.entries(settings)) {
+        upsert.run({ key, value: JSON.stringify(value) });
+      }
+    })();
+    return get();
+  };
+
+  return { get, save };
+}
+
+export type SettingsRepository = ReturnType<typeof createSettingsRepository>;
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Settings } from '../types';
+import { HttpError } from './errors';
+import { DEFAULT_SETTINGS, isCurrencyCode } from '../lib/currency';
+
+const parseCurrency = (value: unknown, field: string) => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!isCurrencyCode(code)) throw new HttpError(400, `"${field}" must be a three-letter currency code`);
+  return code;
+};
+
+/** Validates an untrusted request body into Settings. */
+export const parseSettings = (body: unknown): Settings => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, "Request body must be a settings object");
+  const input = body as Record<string, unknown>;
+
+  const homeCurrency = parseCurrency(input.homeCurrency, 'homeCurrency');
+  if (typeof input.targetMarket !== 'string') throw new HttpError(400, "\"targetMarket\" must be a string");
+
+  const rates = input.exchangeRates;
+  if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+    throw new HttpError(400, "\"exchangeRates\" must map currency codes to rates");
+  }
+  const exchangeRates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(rates as Record<string, unknown>)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new HttpError(400, `The exchange rate for ${code} must be a positive number`);
+    }
+    exchangeRates[parseCurrency(code, 'exchangeRates')] = rate;
+  }
+  // Rates are relative to the home currency, so it is always worth exactly 1
+  exchangeRates[homeCurrency] = 1;
+
+  // Older clients don't send it; keep the default rather than reject their saves
+  const stalePriceDays = input.stalePriceDays ?? DEFAULT_SETTINGS.stalePriceDays;
+  if (typeof stalePriceDays !== 'number' || !Number.isInteger(stalePriceDays) || stalePriceDays < 0) {
+    throw new HttpError(400, "\"stalePriceDays\" must be a whole number of days, or 0 to turn stale-price flags off");
+  }
+
+  return { homeCurrency, targetMarket: input.targetMarket.trim(), exchangeRates, stalePriceDays };
+};
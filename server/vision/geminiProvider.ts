@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { HttpError } from '../errors';
+import { MULTI_PHOTO_PROMPT, analysisPrompt, descriptionPrompt } from './prompt';
+import { VisionImage, VisionProvider } from './types';
+import { CONDITION_GRADES, CONFIDENCE_FIELDS, IDENTIFIER_TYPES } from '../../lib/analysis';
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    item_name: { type: Type.STRING },
+    category: { type: Type.STRING },
+    estimated_value: { type: Type.NUMBER },
+    price_low: { type: Type.NUMBER },
+    price_high: { type: Type.NUMBER },
+    currency: { type: Type.STRING },
+    brand: { type: Type.STRING },
+    model: { type: Type.STRING },
+    identifiers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: IDENTIFIER_TYPES },
+          value: { type: Type.STRING }
+        },
+        required: ["type", "value"]
+      }
+    },
+    condition_grade: { type: Type.STRING, enum: CONDITION_GRADES },
+    condition_notes: { type: Type.STRING },
+    suggested_description: { type: Type.STRING },
+    confidence: {
+      type: Type.OBJECT,
+      properties: {
+        overall: { type: Type.NUMBER },
+        fields: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(CONFIDENCE_FIELDS.map(field => [field, { type: Type.NUMBER }]))
+        }
+      },
+      required: ["overall", "fields"]
+    }
+  },
+  required: [
+    "item_name",
+    "category",
+    "estimated_value",
+    "price_low",
+    "price_high",
+    "currency",
+    "brand",
+    "model",
+    "identifiers",
+    "condition_grade",
+    "condition_notes",
+    "suggested_description",
+    "confidence"
+  ]
+};
+
+const DESCRIPTIONS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    variants: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["variants"]
+};
+
+export function createGeminiProvider(apiKey: string | undefined, model = DEFAULT_GEMINI_MODEL): VisionProvider {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  const generateJson = async (prompt: string, images: VisionImage[], responseSchema: object) => {
+    if (!ai) throw new HttpError(503, "GEMINI_API_KEY is not configured on the server");
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: [
+        {
+          parts: [
+            { text: prompt },
+            ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+          ]
+        }
+      ],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return JSON.parse(text);
+  };
+
+  return {
+    name: `gemini:${model}`,
+    async analyze(images, context) {
+      const prompt = analysisPrompt(context);
+      return generateJson(images.length > 1 ? `${MULTI_PHOTO_PROMPT}\n\n${prompt}` : prompt, images, RESPONSE_SCHEMA);
+    },
+    async describe(images, item, options) {
+      return generateJson(descriptionPrompt(item, options), images, DESCRIPTIONS_SCHEMA);
+    }
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { VisionProvider } from './types';
+
+export type { VisionProvider, VisionImage, MarketContext } from './types';
+export { validateAIResponse, validateDescriptions } from './validate';
+
+/** Picks the provider named by VISION_PROVIDER (default: gemini). */
+export function createVisionProvider(env = process.env): VisionProvider {
+  const name = (env.VISION_PROVIDER || 'gemini').toLowerCase();
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${name}". Expected "gemini" or "mock".`);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import { AIResponse, DescriptionTone, InventoryItem } from '../../types';
+import { CONDITION_GRADE_LABELS } from '../../lib/analysis';
+import { VisionProvider } from './types';
+
+const CATALOGUE: AIResponse[] = [
+  {
+    item_name: "Vintage Brass Table Lamp",
+    category: "Home Decor",
+    estimated_value: 45,
+    price_low: 36,
+    price_high: 60,
+    currency: "USD",
+    brand: "",
+    model: "",
+    identifiers: [],
+    condition_grade: "good",
+    condition_notes: "Light patina on the base, shade has minor discoloration.",
+    suggested_description: "Warm up any room with this mid-century brass table lamp. Solid, heavy base and a classic silhouette that never goes out of style.",
+    confidence: { overall: 0.82, fields: { item_name: 0.85, brand: 0.2, model: 0.2, estimated_value: 0.7 } }
+  },
+  {
+    item_name: "Cast Iron Skillet, 10 inch",
+    category: "Kitchen",
+    estimated_value: 30,
+    price_low: 22,
+    price_high: 40,
+    currency: "USD",
+    brand: "Lodge",
+    model: "10SK",
+    identifiers: [{ type: "model_number", value: "10SK" }],
+    condition_grade: "very_good",
+    condition_notes: "Seasoning is even; small surface rust spot near the handle.",
+    suggested_description: "A kitchen workhorse that only gets better with age. Pre-seasoned and ready for decades of cornbread and seared steaks.",
+    confidence: { overall: 0.9, fields: { brand: 0.88, model: 0.8, condition_grade: 0.75 } }
+  },
+  {
+    item_name: "Hardcover Novel, First Edition",
+    category: "Books",
+    estimated_value: 25,
+    price_low: 15,
+    price_high: 60,
+    currency: "USD",
+    brand: "",
+    model: "",
+    identifiers: [{ type: "isbn", value: "9780000000002" }],
+    condition_grade: "good",
+    condition_notes: "Dust jacket intact with shelf wear on the corners.",
+    suggested_description: "A collectible first edition with its original dust jacket. A great addition to any bookshelf or a thoughtful gift for a reader.",
+    confidence: { overall: 0.55, fields: { item_name: 0.5, estimated_value: 0.4, condition_grade: 0.7 } }
+  },
+  {
+    item_name: "Wireless Over-Ear Headphones",
+    category: "Electronics",
+    estimated_value: 60,
+    price_low: 45,
+    price_high: 80,
+    currency: "USD",
+    brand: "Sony",
+    model: "WH-1000XM3",
+    identifiers: [{ type: "serial", value: "5012345" }],
+    condition_grade: "good",
+    condition_notes: "Ear pads show light wear; no visible cracks in the headband.",
+    suggested_description: "Big sound, no cables. Comfortable over-ear headphones with plenty of life left, perfect for commuting or working from home.",
+    confidence: { overall: 0.74, fields: { brand: 0.92, model: 0.58, estimated_value: 0.65 } }
+  },
+  {
+    item_name: "Denim Trucker Jacket",
+    category: "Clothing",
+    estimated_value: 35,
+    price_low: 25,
+    price_high: 50,
+    currency: "USD",
+    brand: "Levi's",
+    model: "Type III",
+    identifiers: [],
+    condition_grade: "very_good",
+    condition_notes: "Nicely faded, all buttons present, no tears.",
+    suggested_description: "The jacket that goes with everything. Broken-in denim with the perfect fade and a timeless cut.",
+    confidence: { overall: 0.8, fields: { model: 0.45, category: 0.95 } }
+  }
+];
+
+// Canned openings per tone; the mock stitches them to the item's own facts
+const OPENINGS: Record<DescriptionTone, string[]> = {
+  casual: ["Up for grabs:", "Time for this one to find a new home:", "Don't miss this"],
+  professional: ["Offered for sale:", "Available now:", "Listing:"],
+  collector: ["For the discerning collector:", "A fine example:", "Collector's piece:"]
+};
+
+const describeItem = (item: InventoryItem) =>
+  [
+    (item.brand || item.model) && `By ${[item.brand, item.model].filter(Boolean).join(' ')}.`,
+    item.condition_grade && `${CONDITION_GRADE_LABELS[item.condition_grade]} condition.`,
+    item.condition_notes
+  ].filter(Boolean).join(' ');
+
+/**
+ * Offline stand-in for demos and tests. The same cover photo always maps to
+ * the same catalogue entry, so results are stable across runs.
+ */
+export function createMockProvider(): VisionProvider {
+  return {
+    name: 'mock',
+    async analyze(images, context) {
+      const digest = crypto.createHash('sha256').update(images[0].data).digest();
+      // Prices are nominal anyway, so just relabel them in the requested currency
+      return { ...CATALOGUE[digest[0] % CATALOGUE.length], currency: context.currency };
+    },
+    async describe(_images, item, { tone, length, platform, keywords, variants }) {
+      const details = length === 'short' ? '' : describeItem(item);
+      const extras = [
+        keywords.length > 0 && `Great for anyone after ${keywords.join(', ')}.`,
+        length === 'long' && item.suggested_description,
+        platform && `Ships fast; questions welcome here on ${platform}.`
+      ].filter(Boolean).join(' ');
+      return {
+        variants: OPENINGS[tone].slice(0, variants).map(opening => `${opening} ${item.item_name}. ${details} ${extras}`.replace(/\s+/g, ' ').trim())
+      };
+    }
+  };
+}
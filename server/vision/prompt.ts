@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DescriptionOptions, DescriptionTone, InventoryItem } from '../../types';
+import { MarketContext } from './types';
+import { CONDITION_GRADE_LABELS, IDENTIFIER_LABELS } from '../../lib/analysis';
+import { DESCRIPTION_LENGTH_WORDS } from '../../lib/descriptions';
+
+export const analysisPrompt = ({ currency, market }: MarketContext) =>
+  [
+    `Identify this item for resale. Provide the name, category, estimated market value in ${currency} as it would sell on the secondhand market${market ? ` in ${market}` : ''}, condition notes based on the image, and a catchy sales description. Set "currency" to ${currency}.`,
+    "Give a realistic price_low and price_high around the estimate.",
+    "Fill brand and model only if they are visible or unmistakable; otherwise leave them empty.",
+    "List identifiers (UPC, EAN, ISBN, serial, model number) only when you can actually read them in a photo, copied exactly.",
+    "Grade the condition as one of new, like_new, very_good, good, acceptable or for_parts.",
+    "Rate your confidence from 0 to 1, overall and for each of item_name, brand, model, category, estimated_value and condition_grade; be candid when the photos are unclear.",
+    "Return ONLY JSON."
+  ].join(' ');
+
+// Prepended when there is more than one photo, so the model treats them as one item.
+export const MULTI_PHOTO_PROMPT =
+  "All of the following photos show the same single item from different angles. Use every photo together: read labels, model plates and markings wherever they appear, and base the condition notes on wear visible in any of them.";
+
+const TONE_INSTRUCTIONS: Record<DescriptionTone, string> = {
+  casual: "Write in a friendly, conversational voice, like a neighbour selling something they liked.",
+  professional: "Write in a clear, factual, professional voice, like an established reseller.",
+  collector: "Write for collectors: lead with provenance, edition, maker's marks and rarity, and be precise about condition."
+};
+
+/** Facts about an already identified item, so rewriting never re-identifies it. */
+const itemFacts = (item: InventoryItem) =>
+  [
+    `Item: ${item.item_name}`,
+    item.brand && `Brand: ${item.brand}`,
+    item.model && `Model: ${item.model}`,
+    item.category && `Category: ${item.category}`,
+    item.condition_grade && `Condition: ${CONDITION_GRADE_LABELS[item.condition_grade]}`,
+    item.condition_notes && `Condition notes: ${item.condition_notes}`,
+    ...item.identifiers.map(identifier => `${IDENTIFIER_LABELS[identifier.type]}: ${identifier.value}`)
+  ].filter(Boolean).join('\n');
+
+export const descriptionPrompt = (item: InventoryItem, { tone, length, platform, keywords, variants }: DescriptionOptions) => {
+  const [minWords, maxWords] = DESCRIPTION_LENGTH_WORDS[length];
+  return [
+    `Write ${variants} alternative sales descriptions for the item below${platform ? `, for a listing on ${platform}` : ''}.`,
+    "The item has already been identified: treat these facts as correct and do not rename or re-identify it. Use the photos only for extra detail.",
+    TONE_INSTRUCTIONS[tone],
+    `Each description should be ${minWords} to ${maxWords} words.`,
+    keywords.length > 0 ? `Work these keywords in naturally: ${keywords.join(', ')}.` : '',
+    "Make the variants genuinely different from each other. Do not invent features, accessories or flaws that are not in the facts or photos.",
+    "Return ONLY JSON with a \"variants\" array of strings.",
+    `\n\n${itemFacts(item)}`
+  ].filter(Boolean).join(' ');
+};
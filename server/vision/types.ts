@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DescriptionOptions, InventoryItem } from '../../types';
+
+export interface VisionImage {
+  mimeType: string;
+  data: string; // base64, without the data URL prefix
+}
+
+// Where the user sells, so estimates come back in their currency and reflect local prices.
+export interface MarketContext {
+  currency: string;
+  market: string;
+}
+
+/**
+ * Anything that can look at photos of an item and describe it.
+ * Providers return raw model output; the routes validate it, into an
+ * AIResponse for `analyze` and a list of descriptions for `describe`.
+ */
+export interface VisionProvider {
+  name: string;
+  analyze(images: VisionImage[], context: MarketContext): Promise<unknown>;
+  /** Writes fresh sales descriptions for an item that has already been identified. */
+  describe(images: VisionImage[], item: InventoryItem, options: DescriptionOptions): Promise<unknown>;
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIResponse, ConditionGrade, IdentifierType, ItemIdentifier } from '../../types';
+import { CONDITION_GRADES, CONFIDENCE_FIELDS, IDENTIFIER_TYPES } from '../../lib/analysis';
+import { isCurrencyCode } from '../../lib/currency';
+
+export class InvalidAIResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAIResponseError';
+  }
+}
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * Checks raw provider output against the AIResponse shape. Every problem is
+ * collected so a bad response is reported in one go, e.g. `"estimated_value"
+ * must be a non-negative number; "item_name" is empty`.
+ */
+export const validateAIResponse = (raw: unknown): AIResponse => {
+  if (!raw || typeof raw !== 'object') throw new InvalidAIResponseError("Analysis is not an object");
+  const input = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const text = (field: string, { required = false } = {}) => {
+    const value = input[field] ?? (required ? undefined : '');
+    if (typeof value !== 'string') {
+      problems.push(`"${field}" must be a string`);
+      return '';
+    }
+    if (required && !value.trim()) problems.push(`"${field}" is empty`);
+    return value.trim();
+  };
+
+  const price = (field: string) => {
+    const value = input[field];
+    if (!isPrice(value)) {
+      problems.push(`"${field}" must be a non-negative number`);
+      return 0;
+    }
+    return value;
+  };
+
+  const item_name = text('item_name', { required: true });
+  const category = text('category');
+  const currency = text('currency', { required: true }).toUpperCase();
+  if (currency && !isCurrencyCode(currency)) problems.push(`"currency" must be a three-letter code, got "${currency}"`);
+
+  const estimated_value = price('estimated_value');
+  let price_low = price('price_low');
+  let price_high = price('price_high');
+  if (price_low > price_high) [price_low, price_high] = [price_high, price_low];
+  // Models sometimes give a range that misses their own estimate; widen it rather than reject
+  price_low = Math.min(price_low, estimated_value);
+  price_high = Math.max(price_high, estimated_value);
+
+  const condition_grade = input.condition_grade as ConditionGrade;
+  if (!CONDITION_GRADES.includes(condition_grade)) {
+    problems.push(`"condition_grade" must be one of ${CONDITION_GRADES.join(', ')}`);
+  }
+
+  const identifiers: ItemIdentifier[] = [];
+  const rawIdentifiers = input.identifiers ?? [];
+  if (!Array.isArray(rawIdentifiers)) {
+    problems.push("\"identifiers\" must be an array");
+  } else {
+    for (const entry of rawIdentifiers as Record<string, unknown>[]) {
+      const value = typeof entry?.value === 'string' ? entry.value.trim() : '';
+      if (!value) continue; // the model listing a code it couldn't read isn't worth failing over
+      if (!IDENTIFIER_TYPES.includes(entry.type as IdentifierType)) {
+        problems.push(`Identifier type "${entry.type}" must be one of ${IDENTIFIER_TYPES.join(', ')}`);
+        continue;
+      }
+      identifiers.push({ type: entry.type as IdentifierType, value });
+    }
+  }
+
+  const confidence: AIResponse['confidence'] = { overall: 0, fields: {} };
+  const rawConfidence = input.confidence as Record<string, unknown> | undefined;
+  if (!rawConfidence || typeof rawConfidence !== 'object' || !isScore(rawConfidence.overall)) {
+    problems.push("\"confidence.overall\" must be a number between 0 and 1");
+  } else {
+    confidence.overall = rawConfidence.overall;
+    const fields = (rawConfidence.fields ?? {}) as Record<string, unknown>;
+    for (const field of CONFIDENCE_FIELDS) {
+      if (fields[field] === undefined) continue;
+      if (isScore(fields[field])) confidence.fields[field] = fields[field];
+      else problems.push(`"confidence.fields.${field}" must be a number between 0 and 1`);
+    }
+  }
+
+  const result: AIResponse = {
+    item_name,
+    category,
+    estimated_value,
+    price_low,
+    price_high,
+    currency,
+    brand: text('brand'),
+    model: text('model'),
+    identifiers,
+    condition_grade,
+    condition_notes: text('condition_notes'),
+    suggested_description: text('suggested_description'),
+    confidence
+  };
+
+  if (problems.length > 0) throw new InvalidAIResponseError(`Analysis is invalid: ${problems.join('; ')}`);
+  return result;
+};
+
+/** Checks raw `describe` output: a non-empty list of non-empty descriptions, at most `limit` of them. */
+export const validateDescriptions = (raw: unknown, limit: number): string[] => {
+  const variants = (raw as { variants?: unknown } | null)?.variants;
+  if (!Array.isArray(variants)) throw new InvalidAIResponseError("Descriptions are invalid: \"variants\" must be an array");
+  const descriptions = [...new Set(variants.filter((variant): variant is string => typeof variant === 'string').map(variant => variant.trim()))]
+    .filter(Boolean);
+  if (descriptions.length === 0) throw new InvalidAIResponseError("Descriptions are invalid: no usable variants were returned");
+  return descriptions.slice(0, limit);
+};
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIResponse, DescriptionOptions } from '../types';
+import { request } from './http';
+
+// The server owns the model and its API key; the browser only ever sends the photos.
+// Prices come back in `currency`, or the home currency when it's left out.
+export const analyzeImages = (base64Images: string[], currency?: string) =>
+  request<AIResponse>('/api/analyze', { method: 'POST', body: JSON.stringify({ images: base64Images, currency }) });
+
+/** Asks for fresh descriptions of a saved item, written from what is already known about it. */
+export const generateDescriptions = (itemId: string, options: DescriptionOptions) =>
+  request<{ variants: string[] }>(`/api/describe/${itemId}`, { method: 'POST', body: JSON.stringify(options) });
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { request } from './http';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export const BACKUP_URL = '/api/backup';
+
+export const restoreBackup = (file: File, mode: RestoreMode) =>
+  request<{ restored: number; skipped: number }>(`${BACKUP_URL}/restore?mode=${mode}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file
+  });
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Category } from '../types';
+import { request } from './http';
+
+const BASE_URL = '/api/categories';
+
+export const fetchCategories = () => request<Category[]>(BASE_URL);
+
+export const createCategory = (name: string) =>
+  request<Category>(BASE_URL, { method: 'POST', body: JSON.stringify({ name }) });
+
+/** Renames a category on every item; renaming onto an existing name merges the two. */
+export const renameCategory = (from: string, to: string) =>
+  request<Category>(`${BASE_URL}/${encodeURIComponent(from)}`, { method: 'PUT', body: JSON.stringify({ name: to }) });
+
+export const mergeCategories = (from: string[], into: string) =>
+  request<Category>(`${BASE_URL}/merge`, { method: 'POST', body: JSON.stringify({ from, into }) });
+
+export const deleteCategory = (name: string) =>
+  request<void>(`${BASE_URL}/${encodeURIComponent(name)}`, { method: 'DELETE' });
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Collection } from '../types';
+import { request } from './http';
+
+const BASE_URL = '/api/collections';
+
+// Item counts are worked out by the server, so they aren't sent
+export type CollectionFields = Omit<Collection, 'itemCount'>;
+
+export const fetchCollections = () => request<Collection[]>(BASE_URL);
+
+export const createCollection = (collection: CollectionFields) =>
+  request<Collection>(BASE_URL, { method: 'POST', body: JSON.stringify(collection) });
+
+export const updateCollection = (collection: CollectionFields) =>
+  request<Collection>(`${BASE_URL}/${encodeURIComponent(collection.id)}`, { method: 'PUT', body: JSON.stringify(collection) });
+
+/** Only empty collections can be deleted, and never the default one. */
+export const deleteCollection = (id: string) =>
+  request<void>(`${BASE_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
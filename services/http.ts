@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request never reached the server, usually because the device is offline
+export class NetworkError extends Error {
+  constructor(message = "Couldn't reach the server") {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export const request = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers }
+    });
+  } catch (error) {
+    console.error(error);
+    throw new NetworkError();
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error || `Request failed (${response.status})`);
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+};
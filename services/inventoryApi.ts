@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InventoryItem, ItemChange, TrashedItem } from '../types';
+import { request } from './http';
+
+const BASE_URL = '/api/inventory';
+
+export const fetchInventory = () => request<InventoryItem[]>(BASE_URL);
+
+export const createItem = (item: InventoryItem) =>
+  request<InventoryItem>(BASE_URL, { method: 'POST', body: JSON.stringify(item) });
+
+export const updateItem = (item: InventoryItem) =>
+  request<InventoryItem>(`${BASE_URL}/${item.id}`, { method: 'PUT', body: JSON.stringify(item) });
+
+export const deleteItem = (id: string) =>
+  request<void>(`${BASE_URL}/${id}`, { method: 'DELETE' });
+
+/** Saves several items in one all-or-nothing request. */
+export const updateItems = (items: InventoryItem[]) =>
+  request<InventoryItem[]>(BASE_URL, { method: 'PUT', body: JSON.stringify(items) });
+
+/**
+ * Puts back earlier copies of items for undo and redo. Unlike `updateItems`, status
+ * changes may go backwards, but only to a state the server saved the item in before.
+ */
+export const revertItems = (items: InventoryItem[]) =>
+  request<InventoryItem[]>(`${BASE_URL}/revert`, { method: 'PUT', body: JSON.stringify(items) });
+
+/** Moves items to the trash; see `restoreItems` and `purgeItems`. */
+export const deleteItems = (ids: string[]) =>
+  request<{ deleted: number }>(`${BASE_URL}/bulk-delete`, { method: 'POST', body: JSON.stringify({ ids }) });
+
+export const fetchTrash = () => request<TrashedItem[]>(`${BASE_URL}/trash`);
+
+export const restoreItems = (ids: string[]) =>
+  request<InventoryItem[]>(`${BASE_URL}/trash/restore`, { method: 'POST', body: JSON.stringify({ ids }) });
+
+export const purgeItems = (ids: string[]) =>
+  request<{ purged: number }>(`${BASE_URL}/trash/purge`, { method: 'POST', body: JSON.stringify({ ids }) });
+
+export const fetchItemHistory = (id: string) => request<ItemChange[]>(`${BASE_URL}/${id}/history`);
+
+export const importItems = (items: InventoryItem[]) =>
+  request<{ imported: number }>(`${BASE_URL}/import`, { method: 'POST', body: JSON.stringify(items) });
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Category, Collection, IntakeJob, InventoryItem, SavedView, Settings } from '../types';
+
+// On-device copies, so the app still opens and keeps captured photos without a connection.
+const DB_NAME = 'resale-ready';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const PENDING_JOBS = 'pendingJobs';
+
+/** The last data loaded from the server, shown when it can't be reached. */
+export interface Snapshots {
+  inventory: InventoryItem[];
+  settings: Settings;
+  views: SavedView[];
+  categories: Category[];
+  collections: Collection[];
+}
+
+/** An intake job as kept on the device: its photos (or unread files) and any analysis, but not its progress. */
+export type PendingJob = Omit<IntakeJob, 'status' | 'error'>;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOTS);
+      request.result.createObjectStore(PENDING_JOBS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+};
+
+// Runs one request in its own transaction and resolves once the transaction has committed
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadSnapshot = async <K extends keyof Snapshots>(key: K): Promise<Snapshots[K] | null> =>
+  (await run<Snapshots[K] | undefined>(SNAPSHOTS, 'readonly', store => store.get(key))) ?? null;
+
+export const saveSnapshot = <K extends keyof Snapshots>(key: K, value: Snapshots[K]) =>
+  run(SNAPSHOTS, 'readwrite', store => store.put(value, key));
+
+export const loadPendingJobs = () =>
+  run<PendingJob[]>(PENDING_JOBS, 'readonly', store => store.getAll());
+
+export const savePendingJob = ({ status: _status, error: _error, ...job }: IntakeJob) =>
+  run(PENDING_JOBS, 'readwrite', store => store.put(job));
+
+export const deletePendingJob = (id: string) =>
+  run(PENDING_JOBS, 'readwrite', store => store.delete(id));
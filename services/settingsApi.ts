@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Settings } from '../types';
+import { request } from './http';
+
+const BASE_URL = '/api/settings';
+
+export const fetchSettings = () => request<Settings>(BASE_URL);
+
+export const saveSettings = (settings: Settings) =>
+  request<Settings>(BASE_URL, { method: 'PUT', body: JSON.stringify(settings) });
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedView } from '../types';
+import { request } from './http';
+
+const BASE_URL = '/api/views';
+
+export const fetchViews = () => request<SavedView[]>(BASE_URL);
+
+export const createView = (view: SavedView) =>
+  request<SavedView>(BASE_URL, { method: 'POST', body: JSON.stringify(view) });
+
+export const deleteView = (id: string) =>
+  request<void>(`${BASE_URL}/${id}`, { method: 'DELETE' });
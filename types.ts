@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ItemStatus = 'draft' | 'listed' | 'sold' | 'shipped' | 'donated';
+
+export type ConditionGrade = 'new' | 'like_new' | 'very_good' | 'good' | 'acceptable' | 'for_parts';
+
+export type IdentifierType = 'upc' | 'ean' | 'isbn' | 'serial' | 'model_number';
+
+// A code read off the item itself: barcode, ISBN, serial plate
+export interface ItemIdentifier {
+  type: IdentifierType;
+  value: string;
+}
+
+export interface ItemPhoto {
+  src: string; // listing-size image
+  thumbnail: string; // small preview for lists and galleries
+}
+
+export type PriceEntryKind = 'estimate' | 'revision' | 'comp';
+
+// One dated price point: an AI estimate, a hand edit of the estimate, or what a comparable item sold for
+export interface PriceEntry {
+  id: string;
+  kind: PriceEntryKind;
+  amount: number;
+  currency: string;
+  date: number; // when it was recorded; for comps, when the comparable item sold
+  source: string; // comps: where it sold, e.g. "eBay"; '' otherwise
+  url: string;
+  notes: string;
+}
+
+export interface InventoryItem {
+  id: string;
+  item_name: string;
+  category: string;
+  estimated_value: number;
+  price_low: number | null; // likely resale range around estimated_value; null when unknown
+  price_high: number | null;
+  currency: string;
+  brand: string;
+  model: string;
+  identifiers: ItemIdentifier[];
+  condition_grade: ConditionGrade | null; // null for items that predate grading
+  condition_notes: string;
+  suggested_description: string;
+  photos: ItemPhoto[]; // ordered, cover first; image URLs, or base64 data URLs before they have been saved
+  createdAt: number;
+  status: ItemStatus;
+  statusDates: Partial<Record<ItemStatus, number>>; // when the item last entered each status
+  costBasis: number; // what we paid for it
+  salePrice: number | null; // null until it sells
+  platformFees: number;
+  shippingCost: number;
+  quantity: number; // identical units in this lot; prices are per unit
+  sku: string; // short label code like RR-00042, assigned by the server when left empty
+  location: string; // where it's stored, e.g. "Bin 12"; '' when not recorded
+  priceHistory: PriceEntry[]; // in the order recorded
+  collectionId: string;
+}
+
+export type SortKey = 'item_name' | 'category' | 'status' | 'value' | 'createdAt';
+
+// Everything that narrows or orders the inventory table; saved views store one of these.
+export interface InventoryQuery {
+  search: string;
+  status: ItemStatus | 'all';
+  category: string; // '' for any
+  minValue: number | null; // in the home currency
+  maxValue: number | null;
+  addedAfter: string | null; // YYYY-MM-DD, inclusive
+  addedBefore: string | null;
+  sort: { key: SortKey; direction: 'asc' | 'desc' } | null; // null: best match when searching, otherwise newest first
+}
+
+export type DescriptionTone = 'casual' | 'professional' | 'collector';
+
+export type DescriptionLength = 'short' | 'medium' | 'long';
+
+// How to rewrite an item's sales description; the item itself is never re-identified
+export interface DescriptionOptions {
+  tone: DescriptionTone;
+  length: DescriptionLength;
+  platform: string;
+  keywords: string[];
+  variants: number;
+}
+
+// Items in the trash keep everything, plus when they were deleted
+export type TrashedItem = InventoryItem & { deletedAt: number };
+
+// Fields whose edits are kept in each item's change log
+export type TrackedField = 'estimated_value' | 'price_low' | 'price_high' | 'currency' | 'salePrice' | 'suggested_description';
+
+export interface ItemChange {
+  id: number;
+  itemId: string;
+  field: TrackedField;
+  from: string | number | null;
+  to: string | number | null;
+  changedAt: number;
+}
+
+// One entry in the managed category taxonomy
+export interface Category {
+  name: string;
+  itemCount: number; // items using it, not counting the trash
+  createdAt: number;
+}
+
+export type ExportFormatId = 'ebay' | 'etsy' | 'facebook' | 'json';
+
+// How a new item's cost basis is filled in when it joins a collection
+export type CostBasisRule =
+  | { kind: 'manual' } // left at zero to enter by hand
+  | { kind: 'fixed'; amount: number } // the same amount for every item, in the collection's currency
+  | { kind: 'percent'; percent: number }; // a share of the estimate, e.g. what a consignor is owed
+
+export interface CollectionExportSettings {
+  format: ExportFormatId; // preselected in the export dialog
+  descriptionFooter: string; // appended to every exported description; '' for none
+}
+
+// A separate job or client's stock, e.g. an estate clearout; every item belongs to exactly one
+export interface Collection {
+  id: string;
+  name: string;
+  currency: string; // new items are priced in it, and the header totals are shown in it
+  costBasisRule: CostBasisRule;
+  exportSettings: CollectionExportSettings;
+  itemCount: number; // items in it, not counting the trash
+  createdAt: number;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: InventoryQuery;
+  createdAt: number;
+}
+
+export interface Settings {
+  homeCurrency: string; // ISO 4217 code totals are reported in
+  targetMarket: string; // where items are sold, e.g. "United Kingdom"; steers AI pricing
+  exchangeRates: Record<string, number>; // units of the home currency one unit of each currency buys
+  stalePriceDays: number; // unsold items priced longer ago than this are flagged for a re-check; 0 turns it off
+}
+
+// Analysis fields the model rates its confidence in
+export type ConfidenceField = 'item_name' | 'brand' | 'model' | 'category' | 'estimated_value' | 'condition_grade';
+
+export interface AIResponse {
+  item_name: string;
+  category: string;
+  estimated_value: number;
+  price_low: number;
+  price_high: number;
+  currency: string;
+  brand: string; // '' when not identifiable
+  model: string;
+  identifiers: ItemIdentifier[];
+  condition_grade: ConditionGrade;
+  condition_notes: string;
+  suggested_description: string;
+  confidence: {
+    overall: number; // 0–1
+    fields: Partial<Record<ConfidenceField, number>>;
+  };
+}
+
+export type IntakeStatus = 'queued' | 'reading' | 'analyzing' | 'offline' | 'ready' | 'failed';
+
+// One item's photos moving through the intake queue, from upload to review.
+export interface IntakeJob {
+  id: string;
+  itemId?: string; // set when re-analyzing an item already in the inventory
+  files: File[]; // picked but not yet read; they move into `photos` once processed
+  fileName: string;
+  status: IntakeStatus;
+  photos: ItemPhoto[];
+  result?: AIResponse;
+  error?: string;
+  addedAt: number;
+}